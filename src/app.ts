@@ -5,121 +5,240 @@
  * `authenticationEndpoint`: Custom module to handle authentication logic.
  * `podEndpoint`: Custom module to handle pod-specific logic.
  * `overrideSessionData`: Function from an external package to modify session data handling.
- * `initializeGlobal`: Custom function to initialize global settings.
+ * `loadConfig`, `loadConfigSchema`: Custom function and schema to read the configuration from the environment variables.
+ * `parseConfig`, `readConfigFile`, `redactConfig`, `ConfigError`: Custom helpers to read, validate and log the configuration.
+ * `createServiceContainer`: Custom function to create the services and storage from the configuration.
  * `express-session`: Middleware for session management.
  * `dotenv`: Loads environment variables from a `.env` file.
  * `sessionEndpoint`: Custom module to handle session-related endpoints.
  * `vcEndpoint`: Custom module to handle verifiable credentials logic.
- * `initializeEnvironment`: Custom function to validate and initialize the environment configuration.
- * `path`: Node.js module to handle file paths.
+ * `openApiEndpoint`: Custom module serving the OpenAPI document and the API documentation.
+ * `auditEndpoint`: Custom module serving the audit trail to the owner of the data.
+ * `healthEndpoint`: Custom module serving the health, readiness and metrics endpoints.
+ * `notificationEndpoint`: Custom module receiving the Solid notifications of the pods.
+ * `recordRequestMetrics`: Custom middleware recording the request metrics.
+ * `assignCorrelationId`, `propagateCorrelationId`: Custom middleware and function for the correlation id of every request.
+ * `logRequest`, `configureLogging`: Custom middleware and function for the structured request log.
+ * `loglevel`: Logging library.
+ * `parseArgs`: Node.js function to parse the command line arguments.
+ * `errorHandler`, `notFoundHandler`: Custom handlers responding with RFC 7807 problem details.
+ * `createSessionOptions`, `enforceSessionLifetime`, `verifyCsrfToken`: Custom functions and middleware securing the session.
+ * `cookieSession`: Custom middleware keeping the session in sealed cookies in the stateless session mode.
+ * `rateLimit`: Custom middleware limiting the requests per IP address, session and WebID.
  */
 
-import express, { Request as ExpressRequest, Response as ExpressResponse } from "express";
+import express, { Express, NextFunction, Request as ExpressRequest, RequestHandler, Response as ExpressResponse } from "express";
 import bodyParser from "body-parser";
 import { authenticationEndpoint } from "./endpoint/authentication-endpoint";
 import podEndpoint from "./endpoint/pod-endpoint";
 import { overrideSessionData } from "@vito-nv/weare-expressjs";
-import { initializeGlobal } from "./initialize/global-initialize";
+import { AppConfig, loadConfig, loadConfigSchema } from "./config/app-config";
+import { ConfigError, ConfigSource, parseConfig, readConfigFile, redactConfig } from "./config/config-schema";
+import { createServiceContainer, ServiceContainer } from "./container/service-container";
 import session from "express-session";
 import dotEnv from "dotenv";
 import {sessionEndpoint} from "./endpoint/session-endpoint";
 import vcEndpoint from "./endpoint/vc-endpoint";
-import {initializeEnvironment} from "./validate/environment-validate";
-import path from "path";
+import {openApiEndpoint} from "./endpoint/openapi-endpoint";
+import {auditEndpoint} from "./endpoint/audit-endpoint";
+import { parseArgs } from "util";
+import {errorHandler, notFoundHandler} from "./error/error-handler";
+import {enforceSessionLifetime} from "./middleware/enforce-session-lifetime";
+import {refreshSolidSession} from "./middleware/refresh-solid-session";
+import {verifyCsrfToken} from "./middleware/verify-csrf-token";
+import {rateLimit} from "./middleware/rate-limit";
+import {createSessionOptions} from "./config/session-options";
+import {cookieSession} from "./middleware/cookie-session";
+import {healthEndpoint} from "./endpoint/health-endpoint";
+import {notificationEndpoint} from "./endpoint/notification-endpoint";
+import {recordRequestMetrics} from "./middleware/record-metrics";
+import {assignCorrelationId, CORRELATION_ID_HEADER, propagateCorrelationId} from "./middleware/correlation-id";
+import {logRequest} from "./middleware/log-request";
+import {configureLogging} from "./logging/structured-logger";
+import {writeFileRoute, writeFilesRoute} from "./schema/pod-schema";
+import log from "loglevel";
 
-// Load environment variables from the `.env` file into `process.env`
-dotEnv.config();
-
-// Initialize Express application
-const app = express();
 const cors = require("cors");
 
 /**
- * Call function to customize the express-session
- */
-overrideSessionData();
-
-/**
- * Helper function to validate that all necessary environment variables are set.
+ * Creates the Express application with all middleware and endpoints, wired with the given configuration and services.
+ * Every call creates an independent application, so several configured instances can run in one process:
+ * ```
+ * const config = loadConfig();
+ * createApp(config, createServiceContainer(config)).listen(3001);
+ * ```
  */
-initializeEnvironment(path.join(__dirname, "../", ".env.example"));
+export function createApp(config: AppConfig, services: ServiceContainer): Express {
+  // Initialize Express application
+  const app = express();
+
+  /**
+   * Read the IP address of the client from the `X-Forwarded-For` header of the configured number of reverse proxies.
+   */
+  if (config.trustProxy)
+    app.set("trust proxy", config.trustProxy);
+
+  /**
+   * Call function to customize the express-session
+   */
+  overrideSessionData();
+
+  /**
+   * Give every request a correlation id, returned in the `X-Correlation-ID` header and added to the outgoing requests
+   * made while handling it.
+   */
+  app.use(assignCorrelationId);
+  propagateCorrelationId();
+
+  /**
+   * Record the count and latency of every request, and register the health endpoints before the session middleware
+   * so monitoring probes don't create sessions. Probes are left out of the request log.
+   */
+  app.use(recordRequestMetrics.bind({metrics: services.metrics}));
+  healthEndpoint(app, config, services);
+  app.use(logRequest);
+
+  /**
+   * Receive the Solid notifications of the pods, which are posted without session or CSRF token.
+   */
+  if (config.notifications.enabled)
+    notificationEndpoint(app, config, services);
+
+  /**
+   * Configure session handling middleware.
+   * This middleware creates and manages user sessions with cookies.
+   * The options (secrets, store and cookie settings) are read from the session configuration, see `createSessionOptions`.
+   * In the stateless session mode, `cookieSession` keeps the session in sealed cookies instead of the session store.
+   * - `enforceSessionLifetime`: Regenerates sessions that exceeded their absolute lifetime.
+   * - `refreshSolidSession`: Refreshes the tokens of the Solid session before they expire, with `SESSION_KEEP_ALIVE`.
+   */
+  app.use(config.session.mode === "stateless"
+    ? cookieSession(config.session, services.sessionStore)
+    : session(createSessionOptions(config.session, services.sessionStore)));
+  app.use(enforceSessionLifetime.bind({maxAge: config.session.maxAge, storage: services.solidStorage}));
+  if (config.session.keepAlive)
+    app.use(refreshSolidSession.bind({storage: services.solidStorage, refreshBefore: config.session.expiryWarning}));
+
+
+  /**
+   * Enable CORS (Cross-Origin Resource Sharing) to allow requests from the frontend.
+   * - `origin`: URL of the frontend.
+   * - `credentials`: Whether to allow credentials (e.g., cookies, authorization headers).
+   * - `exposedHeaders`: Lets the frontend read the correlation id, the ETag and the `Retry-After` of the response.
+   */
+  app.use(
+    cors({
+      origin: config.frontendUrl.origin,
+      credentials: true,
+      exposedHeaders: [CORRELATION_ID_HEADER, "ETag", "Retry-After"],
+    })
+  );
+
+  /**
+   * Limit the requests per IP address, session and WebID, after CORS so preflight requests aren't counted and the
+   * frontend can read the `too-many-requests` problems.
+   */
+  if (config.rateLimit.enabled)
+    app.use(rateLimit.bind({store: services.rateLimitStore, config: config.rateLimit, metrics: services.metrics}));
+
+
+  /**
+   * Middleware to parse incoming request bodies in different formats, up to `BODY_MAX_SIZE`.
+   * - `urlencoded`: Parses URL-encoded bodies (from form submissions).
+   * - `text`: Parses text/plain requests, and the SPARQL Update and N3 Patch bodies of `PATCH /resource`.
+   * - `json`: Parses JSON bodies.
+   * The bodies of `/write-file` and `/write-files` are not parsed, whatever their type, but streamed to the pod.
+   */
+  app.use(unlessStreamed(bodyParser.urlencoded({ extended: true, limit: config.upload.maxBodySize })));
+  app.use(unlessStreamed(bodyParser.text({ type: ["text/plain", "application/sparql-update", "text/n3"], limit: config.upload.maxBodySize })));
+  app.use(unlessStreamed(express.json({ limit: config.upload.maxBodySize })));
+
+  /**
+   * Require the CSRF token of the session on all state-changing requests.
+   */
+  app.use(verifyCsrfToken);
+
+
+  /**
+   * Register application endpoints.
+   * These functions define routes and their handlers for the application.
+   */
+  authenticationEndpoint(app, config, services);
+  podEndpoint(app, config, services);
+  sessionEndpoint(app, config, services);
+  vcEndpoint(app, config, services);
+  auditEndpoint(app, config, services);
+  openApiEndpoint(app, config);
+
+  /**
+   * Root endpoint that responds with a status message.
+   */
+  app.get("/", (req: ExpressRequest, res: ExpressResponse): void => {
+    res.send("Demo We Are backend is up and running!");
+  });
+
+  /**
+   * Answer unknown routes with a 404 and turn all errors passed to `next()` into problem details.
+   * These handlers must be registered after all endpoints.
+   */
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+}
+
+const STREAMED_BODY_PATHS = [writeFileRoute.path, writeFilesRoute.path];
 
 /**
- * Call function to initialize global settings: environment variables used and initialization of services.
+ * Skips a body parser for the routes streaming their body to the pod.
  */
-initializeGlobal();
+function unlessStreamed(parser: RequestHandler): RequestHandler {
+  return (req: ExpressRequest, res: ExpressResponse, next: NextFunction) =>
+    STREAMED_BODY_PATHS.includes(req.path) ? next() : parser(req, res, next);
+}
 
 /**
- * Configure session handling middleware.
- * This middleware creates and manages user sessions with cookies.
- * Options:
- * - `name`: The name of the session cookie.
- * - `resave`: Avoid resaving session if not modified.
- * - `saveUninitialized`: Don't create session until data is stored.
- * - `secret`: Secret key used to sign the session ID.
- * - `cookie`: Session cookie configuration.
+ * Start the web server on the configured port when this module is run directly.
+ *
+ * Command line options:
+ * - `--config <file>`: Read configuration keys from a JSON config file, also set with the `CONFIG_FILE` environment
+ *   variable. Environment variables take precedence over the keys in the file.
+ * - `--check-config`: Validate the configuration and print it with redacted secrets, without starting the server.
+ *   Exits with status 1 when the configuration is invalid.
  */
-app.use(
-  session({
-    name: "weare-demo-session",
-    resave: false,
-    saveUninitialized: false,
-    secret: "wearedemobackendcookiesecret",
-    cookie: {
-      httpOnly: false,
-      secure: false,
-      maxAge: 1000 * 60 * 60 * 12,
+if (require.main === module) {
+  // Load environment variables from the `.env` file into `process.env`
+  dotEnv.config();
+
+  const { values: args } = parseArgs({
+    options: {
+      "config": { type: "string" },
+      "check-config": { type: "boolean", default: false },
     },
-  })
-);
-
-
-/**
- * Enable CORS (Cross-Origin Resource Sharing) to allow requests from the frontend.
- * - `origin`: URL of the frontend.
- * - `credentials`: Whether to allow credentials (e.g., cookies, authorization headers).
- */
-app.use(
-  cors({
-    origin: globalThis.frontendUrl,
-    credentials: true,
-  })
-);
-
-
-/**
- * Middleware to parse incoming request bodies in different formats.
- * - `urlencoded`: Parses URL-encoded bodies (from form submissions).
- * - `text`: Parses text/plain requests.
- * - `json`: Parses JSON bodies.
- * - `raw`: Parses raw binary bodies.
- */
-app.use(bodyParser.urlencoded({ extended: true }));
-app.use(bodyParser.text());
-app.use(express.json());
-app.use(bodyParser.raw());
-
-
-
-/**
- * Register application endpoints.
- * These functions define routes and their handlers for the application.
- */
-authenticationEndpoint(app);
-podEndpoint(app);
-sessionEndpoint(app);
-vcEndpoint(app);
-
-/**
- * Root endpoint that responds with a status message.
- */
-app.use("/", (req: ExpressRequest, res: ExpressResponse): void => {
-  res.send("Demo We Are backend is up and running!");
-});
-
-/**
- * Start the web server on the port specified in the `.env` file.
- */
-app.listen(process.env.PORT, (): void => {
-  console.log("Server is up on port", process.env.PORT);
-});
+  });
+
+  try {
+    /**
+     * Read and validate the configuration, then create the services: OIDC, VC, pod and Athumi services, and the session storage.
+     */
+    const configFile = args.config ?? process.env.CONFIG_FILE;
+    const source: ConfigSource = { ...(configFile ? readConfigFile(configFile) : {}), ...process.env };
+    const config = loadConfig(source);
+    configureLogging(config.logging);
+
+    if (args["check-config"]) {
+      const schema = loadConfigSchema(source);
+      console.log("Configuration is valid:", redactConfig(schema, parseConfig(schema, source)));
+    } else {
+      const services = createServiceContainer(config);
+      createApp(config, services).listen(config.port, (): void => {
+        log.info("Server is up", {port: config.port});
+      });
+    }
+  } catch (error) {
+    if (!(error instanceof ConfigError))
+      throw error;
+    console.error(error.message);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Exports audit entries for review by compliance:
+ * - `csv`: An RFC 4180 CSV file with a header row, opening in any spreadsheet. Lists (resources, purposes) are joined
+ *   with spaces, and cells starting with a formula character are prefixed with `'` so spreadsheets don't evaluate them.
+ * - `jsonl`: JSON Lines, one complete entry per line, for processing by tools.
+ *
+ * Example usage:
+ * ```
+ * res.type(AUDIT_EXPORT_CONTENT_TYPES.csv).send(exportAuditEntries(entries, "csv"));
+ * ```
+ */
+import { AuditEntry } from "./audit-trail";
+
+export type AuditExportFormat = "csv" | "jsonl";
+
+export const AUDIT_EXPORT_CONTENT_TYPES: Record<AuditExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  jsonl: "application/x-ndjson",
+};
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  "timestamp", "action", "outcome", "status", "owner", "actor", "session", "resources", "accessGrantId",
+  "accessRequestId", "purposes", "correlationId", "id",
+];
+
+export function exportAuditEntries(entries: AuditEntry[], format: AuditExportFormat): string {
+  switch (format) {
+    case "csv":
+      return [CSV_COLUMNS.join(","), ...entries.map((entry) => CSV_COLUMNS.map((column) => csvCell(entry[column])).join(","))]
+        .map((row) => `${row}\r\n`).join("");
+    case "jsonl":
+      return entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+  }
+}
+
+function csvCell(value: unknown): string {
+  let text = Array.isArray(value) ? value.join(" ") : value === undefined ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text))
+    text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,105 @@
+/**
+ * Defines the append-only audit trail of the pod operations and credential actions performed through the back end.
+ *
+ * Every pod operation, access request issuance and access grant activation appends an `AuditEntry`: what was done to
+ * which resources, by which session and WebID, under which access grant and for which purposes, and whether it
+ * succeeded. The entries are kept by an `AuditStore`, selected from the configuration in `service-container.ts`:
+ * - `MemoryAuditStore`: keeps entries in process memory, lost on restart.
+ * - `FileAuditStore`: appends entries to a JSON Lines file.
+ *
+ * Entries are never changed or removed by the back end. The owner of the data (the WebID of the pod owner, or of the
+ * citizen an access request is addressed to) can query their own entries, see `audit-endpoint.ts`.
+ */
+
+export type AuditAction =
+  | "read"
+  | "read-file"
+  | "write"
+  | "write-file"
+  | "write-files"
+  | "list-container"
+  | "create-container"
+  | "delete"
+  | "patch"
+  | "copy"
+  | "move"
+  | "read-metadata"
+  | "issue-access-request"
+  | "activate-access-grant";
+
+export const AUDIT_ACTIONS: [AuditAction, ...AuditAction[]] = [
+  "read", "read-file", "write", "write-file", "write-files", "list-container", "create-container", "delete", "patch",
+  "copy", "move", "read-metadata", "issue-access-request", "activate-access-grant",
+];
+
+export interface AuditEntry {
+  id: string;
+  /**
+   * The moment the request was received, as an ISO 8601 date-time.
+   */
+  timestamp: string;
+  action: AuditAction;
+  outcome: "success" | "failure";
+  /**
+   * The HTTP status the back end responded with.
+   */
+  status: number;
+  /**
+   * The WebID of the owner of the data, when known.
+   */
+  owner?: string;
+  /**
+   * The WebID of the logged in user of the session performing the action, when known.
+   */
+  actor?: string;
+  /**
+   * A hash of the id of the session performing the action. The session id itself is a credential and is never stored.
+   */
+  session: string;
+  resources: string[];
+  accessGrantId?: string;
+  accessRequestId?: string;
+  purposes: string[];
+  correlationId?: string;
+}
+
+export interface AuditQuery {
+  owner: string;
+  /**
+   * Only entries at or after this moment.
+   */
+  from?: Date;
+  /**
+   * Only entries before this moment.
+   */
+  to?: Date;
+  /**
+   * Only entries about this resource or, when it ends with a slash, about resources in this container.
+   */
+  resource?: string;
+  accessGrantId?: string;
+  action?: AuditAction;
+}
+
+export interface AuditStore {
+  /**
+   * Appends an entry to the trail.
+   */
+  append(entry: AuditEntry): Promise<void>;
+
+  /**
+   * Returns the entries matching the query, in the order they were appended.
+   */
+  query(query: AuditQuery): Promise<AuditEntry[]>;
+}
+
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  const timestamp = new Date(entry.timestamp).getTime();
+  return entry.owner === query.owner
+    && (!query.from || timestamp >= query.from.getTime())
+    && (!query.to || timestamp < query.to.getTime())
+    && (!query.resource || entry.resources.some((resource) =>
+      resource === query.resource || (query.resource!.endsWith("/") && resource.startsWith(query.resource!))))
+    && (!query.accessGrantId || entry.accessGrantId === query.accessGrantId)
+    && (!query.action || entry.action === query.action);
+}
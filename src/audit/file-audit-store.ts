@@ -0,0 +1,63 @@
+/**
+ * File-backed implementation of the `AuditStore` interface.
+ *
+ * Entries are appended as JSON Lines, one JSON object per line, to a single file that is only ever appended to. Every
+ * entry is written with one append, so replicas sharing the file (e.g. via a mounted volume) don't interleave their
+ * entries. Queries read the file line by line, without loading it in memory at once. Lines that can't be parsed,
+ * e.g. of an append interrupted by a crash, are skipped with a warning.
+ *
+ * Example usage:
+ * ```
+ * const store = new FileAuditStore("/var/lib/weare-demo/audit.jsonl");
+ * await store.append(entry);
+ * ```
+ */
+import fs from "fs/promises";
+import { createReadStream, mkdirSync } from "fs";
+import path from "path";
+import readline from "readline";
+import log from "loglevel";
+import { AuditEntry, AuditQuery, AuditStore, matchesAuditQuery } from "./audit-trail";
+
+export class FileAuditStore implements AuditStore {
+  private readonly file: string;
+
+  constructor(file: string) {
+    this.file = path.resolve(file);
+    mkdirSync(path.dirname(this.file), { recursive: true });
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    await fs.appendFile(this.file, `${JSON.stringify(entry)}\n`, { encoding: "utf8", flag: "a" });
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    try {
+      await fs.access(this.file);
+    } catch (error: any) {
+      if (error.code === "ENOENT")
+        return [];
+      throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    const lines = readline.createInterface({ input: createReadStream(this.file, { encoding: "utf8" }), crlfDelay: Infinity });
+    let lineNumber = 0;
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim())
+        continue;
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line) as AuditEntry;
+      } catch (error: any) {
+        log.warn(`Skipping malformed audit entry on line ${lineNumber} of [${this.file}]: ${error.message}`);
+        continue;
+      }
+      if (matchesAuditQuery(entry, query))
+        entries.push(entry);
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * In-memory implementation of the `AuditStore` interface.
+ *
+ * Entries are kept in an array of the current process, so they are lost on restart. Intended for local development
+ * and tests, use the `FileAuditStore` for a persistent audit trail.
+ */
+import { AuditEntry, AuditQuery, AuditStore, matchesAuditQuery } from "./audit-trail";
+
+export class MemoryAuditStore implements AuditStore {
+  private readonly entries: AuditEntry[] = [];
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.entries.filter((entry) => matchesAuditQuery(entry, query));
+  }
+}
@@ -0,0 +1,440 @@
+/**
+ * The configuration of a back-end instance, read from environment variables by `loadConfig`.
+ *
+ * The keys, their types and defaults are declared in `appConfigSchema`, see `config-schema.ts`. Keys can also be set
+ * in a JSON config file, and secrets can be read from the file named by the key with a `_FILE` suffix.
+ *
+ * The configuration includes:
+ * - OIDC for authentication with the We Are and the citizen OIDC provider.
+ * - The citizen identity provider profiles, see `identity-providers.ts`:
+ *   - The default profile, configured by the `CITIZEN_OIDC_*` keys and named by `CITIZEN_OIDC_NAME` (`acm` by default).
+ *     `CITIZEN_OIDC_SCOPES` (`rrn` by default), `CITIZEN_OIDC_LOGIN_HINT`, `CITIZEN_OIDC_SWITCH_IDENTITY_LOGIN_HINT` and
+ *     `CITIZEN_OIDC_PROVISION_WEB_ID` (`true` by default) set its scopes, login hints and WebID provisioning.
+ *   - `CITIZEN_IDP_PROFILES` (optional): Comma-separated names of additional profiles, each configured by the same keys
+ *     prefixed with `CITIZEN_IDP_<NAME>_`, e.g. `CITIZEN_IDP_TEST_URL`.
+ * - VC for creating access requests and access grants.
+ * - URLs for frontend and backend communication, and the allowlist of redirect URLs.
+ * - The Athumi pod platform managing WebIDs.
+ * - Storage for Solid sessions and express-session state, selected with `STORAGE_TYPE`:
+ *   - `memory`: Entries are kept in memory and are lost when the back end restarts.
+ *   - `file`: Entries are kept as files in `STORAGE_FILE_DIRECTORY`. Sessions survive restarts, and multiple
+ *     instances behind a load balancer can share sessions by mounting the same directory.
+ * - The audit trail of pod operations and credential actions, see `audit-trail.ts`:
+ *   - `AUDIT_STORE_TYPE` (optional): `memory` or `file`, defaults to `STORAGE_TYPE`.
+ *   - `AUDIT_FILE` (optional): The JSON Lines file the `file` store appends to, `.audit/audit.jsonl` by default.
+ * - The session cookie and security settings:
+ *   - `SESSION_MODE` (optional): `server` (default) keeps the session data in the storage backend. `stateless` keeps it
+ *     sealed in the session cookies instead, so replicas need no shared storage for the sessions, see
+ *     `cookie-session.ts`. The rate limit budgets are only shared by replicas with a shared `file` backend, the
+ *     notification subscriptions always stay per replica.
+ *   - `SESSION_COOKIE_MAX_SIZE` (optional): The maximum size of the sealed session cookies in the `stateless` mode, `12kb` by default.
+ *   - `SESSION_MAX_AGE`: The absolute lifetime of a session in seconds, also the time-to-live of stored entries.
+ *   - `SESSION_SECRETS`: Comma-separated list of secrets. The first secret signs new cookies, or seals them in the
+ *     `stateless` mode, the others are still accepted so secrets can be rotated without logging out all users. Every
+ *     secret holds at least 32 characters, and the public secret the back end used to hard-code is refused.
+ *   - `SESSION_COOKIE_SECURE` (optional): Whether the cookie is only sent over HTTPS, defaults to `true` when `PROTOCOL` is `https`.
+ *   - `SESSION_COOKIE_SAME_SITE` (optional): `lax` (default), `strict` or `none`. `none` requires a secure cookie.
+ *   - `SESSION_COOKIE_DOMAIN` (optional): The domain of the cookie, defaults to the host of the back end.
+ *   - `SESSION_IDLE_TIMEOUT` (optional): Seconds of inactivity after which a session expires, defaults to `SESSION_MAX_AGE`.
+ *   - `SESSION_EXPOSE_TOKENS` (optional): Whether the OIDC tokens captured by the `save_tokens` login flow are returned
+ *     by `/session-information`, defaults to `false`, which keeps them server-side only.
+ *   - `SESSION_KEEP_ALIVE` (optional): Whether the tokens of the Solid session are refreshed with its refresh token when
+ *     they are about to expire, `true` by default, see `refresh-solid-session.ts`.
+ *   - `SESSION_EXPIRY_WARNING` (optional): Seconds before the session or an access grant expires that the frontend is
+ *     warned, and the tokens are refreshed, 300 by default, see `session-expiry.ts`.
+ *   - `SESSION_EVENTS_INTERVAL` (optional): Seconds between the expiry checks of `/session/events`, 15 by default.
+ * - The Solid notifications of the pod resources relayed to `/session/events`, see `notification-relay.ts`:
+ *   - `NOTIFICATIONS_ENABLED` (optional): Whether the event streams subscribe to the notifications of the resources of
+ *     the access grants of the session, `false` by default. Enabling it also registers the public
+ *     `/notifications/webhook` endpoint.
+ *   - `NOTIFICATIONS_WEBHOOK_URL` (optional): The URL the notification servers of the pods post the notifications to,
+ *     `<backend URL>/notifications/webhook` by default. It must reach the same instance as `/session/events`.
+ * - The logging: `LOG_LEVEL`, `LOG_FORMAT` and `LOG_REDACT_PII`, see `configureLogging`.
+ * - The size limits of request bodies and uploads, as a number of bytes or with a `kb`, `mb` or `gb` unit:
+ *   - `BODY_MAX_SIZE` (optional): The maximum size of JSON, text and form bodies, `1mb` by default.
+ *   - `UPLOAD_MAX_FILE_SIZE` (optional): The maximum size of a file uploaded to a pod, `100mb` by default.
+ *   - `UPLOAD_MAX_FILES` (optional): The maximum number of files in a `multipart/form-data` upload, 10 by default.
+ * - The rate limits, see `rate-limit.ts`:
+ *   - `RATE_LIMIT_ENABLED` (optional): Whether requests are rate limited, `true` by default.
+ *   - `RATE_LIMIT_WINDOW` (optional): The window in seconds of the budgets without a window of their own, 60 by default.
+ *   - `RATE_LIMIT_GLOBAL` (optional): The budgets applied to every request, e.g. `ip=600 session=300 webId=300`.
+ *   - `RATE_LIMIT_ROUTES` (optional): Comma-separated budgets of single routes on top of the global budgets, e.g.
+ *     `GET /login ip=30 session=10,POST /access-request session=10 webId=10`.
+ *   - `RATE_LIMIT_WEBID_PROVISIONING` (optional): The budgets for provisioning WebIDs at Athumi, e.g. `ip=10 session=3 window=3600`.
+ *   - `TRUST_PROXY` (optional): The number of reverse proxies in front of the back end, whose `X-Forwarded-For`
+ *     header gives the IP address of the client.
+ *
+ * If any keys are missing or hold invalid values, a `ConfigError` listing all of them is thrown.
+ *
+ * Example usage:
+ * ```
+ * const config = loadConfig();
+ * const app = createApp(config, createServiceContainer(config));
+ * ```
+ */
+import { OidcConfig, VcConfig } from "@vito-nv/weare-core";
+import { parseRedirectAllowlist } from "../validate/redirect-validate";
+import { LoggingConfig } from "../logging/structured-logger";
+import { ClientCredentials } from "../service/client-credentials-fetch";
+import { parseRateLimitRule, parseRouteRateLimits, RateLimitConfig, RateLimitRule } from "../middleware/rate-limit";
+import { notificationWebhookRoute } from "../schema/notification-schema";
+import { ConfigError, ConfigIssue, configKey, ConfigSchema, ConfigSource, ConfigValues, optional, parseConfig } from "./config-schema";
+import {
+  createIdentityProvider,
+  IDENTITY_PROVIDER_NAME,
+  IdentityProviderConfig,
+  identityProviderConfigSchema,
+  IdentityProviderValues,
+  parseIdentityProvider
+} from "./identity-providers";
+
+export type StorageType = "memory" | "file";
+
+export type SameSite = "lax" | "strict" | "none";
+
+export type SessionMode = "server" | "stateless";
+
+export interface StorageConfig {
+  type: StorageType;
+  fileDirectory: string;
+}
+
+export interface AuditConfig {
+  type: StorageType;
+  file: string;
+}
+
+export interface UploadConfig {
+  /**
+   * The maximum size in bytes of JSON, text and form bodies, which are parsed in memory.
+   */
+  maxBodySize: number;
+  /**
+   * The maximum size in bytes of a file streamed to a pod.
+   */
+  maxFileSize: number;
+  maxFiles: number;
+}
+
+export interface SessionConfig {
+  /**
+   * Whether the session data is kept in the storage backend (`server`) or sealed in the session cookies (`stateless`).
+   */
+  mode: SessionMode;
+  /**
+   * The absolute lifetime of a session in milliseconds.
+   */
+  maxAge: number;
+  /**
+   * The idle timeout of a session in milliseconds, at most `maxAge`.
+   */
+  idleTimeout: number;
+  secrets: string[];
+  cookieSecure: boolean;
+  cookieSameSite: SameSite;
+  cookieDomain?: string;
+  /**
+   * The maximum size in bytes of the sealed session cookies in the `stateless` mode.
+   */
+  cookieMaxSize: number;
+  exposeTokens: boolean;
+  /**
+   * Whether the tokens of the Solid session are refreshed when they are about to expire.
+   */
+  keepAlive: boolean;
+  /**
+   * How long in milliseconds before the session or an access grant expires the frontend is warned.
+   */
+  expiryWarning: number;
+  /**
+   * The interval in milliseconds at which the event stream checks the session for expiry.
+   */
+  eventsInterval: number;
+}
+
+export interface NotificationsConfig {
+  enabled: boolean;
+  /**
+   * The URL of the webhook endpoint, as reached by the notification servers of the pods.
+   */
+  webhookUrl: URL;
+}
+
+export interface AppConfig {
+  weAreOidcConfig: OidcConfig;
+  /**
+   * The issuer URLs of the OIDC providers, used to check their discovery documents.
+   */
+  weAreOidcIssuerUrl: URL;
+  /**
+   * The citizen identity provider profiles, the default profile first.
+   */
+  identityProviders: IdentityProviderConfig[];
+  /**
+   * The client credentials of the back end at the We Are OIDC provider, used to exchange access grants for pod access.
+   */
+  weAreClient: ClientCredentials;
+  essVcConfig: VcConfig;
+  essUrl: URL;
+  essVcQueryUrl: URL;
+  athumiPlatformUrl: URL;
+  athumiWebIdPath: string;
+  frontendUrl: URL;
+  frontendLoginUrl: URL;
+  backendUrl: URL;
+  /**
+   * The port the server listens on, the port of `backendUrl`.
+   */
+  port: number;
+  redirectAllowlist: URL[];
+  storage: StorageConfig;
+  audit: AuditConfig;
+  upload: UploadConfig;
+  rateLimit: RateLimitConfig;
+  /**
+   * The number of reverse proxies in front of the back end, see the `trust proxy` setting of Express.
+   */
+  trustProxy?: number;
+  session: SessionConfig;
+  notifications: NotificationsConfig;
+  logging: LoggingConfig;
+}
+
+export const appConfigSchema = {
+  HOST: configKey.string({ default: "localhost" }),
+  PORT: configKey.port({ default: "3001" }),
+  PROTOCOL: configKey.enum(["http", "https"], { default: "http" }),
+  FRONTEND_URL: configKey.url(),
+  FRONTEND_LOGIN_PATH: configKey.path({ default: "/login" }),
+  REDIRECT_ALLOWLIST: optional(configKey.list()),
+  WEARE_OIDC_URL: configKey.url(),
+  WEARE_OIDC_TOKEN_PATH: configKey.path({ default: "/token" }),
+  WEARE_OIDC_CLIENT_ID: configKey.string(),
+  WEARE_OIDC_CLIENT_SECRET: configKey.secret(),
+  CITIZEN_OIDC_URL: configKey.url(),
+  CITIZEN_OIDC_CLIENT_ID: configKey.string(),
+  CITIZEN_OIDC_CLIENT_SECRET: configKey.secret(),
+  CITIZEN_OIDC_CLIENT_NAME: configKey.string({ default: "We Are Demo Back-End" }),
+  CITIZEN_OIDC_LOGIN_PATH: configKey.path({ default: "/op" }),
+  CITIZEN_OIDC_TOKEN_PATH: configKey.path({ default: "/op/v1/token" }),
+  CITIZEN_OIDC_NAME: configKey.string({ default: "acm" }),
+  CITIZEN_OIDC_SCOPES: configKey.list({ default: "rrn" }),
+  CITIZEN_OIDC_LOGIN_HINT: optional(configKey.string()),
+  // Static login hint of ACM to switch identity, see https://vlaamseoverheid.atlassian.net/wiki/spaces/IKPubliek/pages/6336381158/Wisselen+van+account+doelgroepen
+  CITIZEN_OIDC_SWITCH_IDENTITY_LOGIN_HINT: configKey.string({ default: "eyJzd2l0Y2hfaWQiOiB0cnVlfQ==" }),
+  CITIZEN_OIDC_PROVISION_WEB_ID: configKey.boolean({ default: "true" }),
+  CITIZEN_IDP_PROFILES: optional(configKey.list()),
+  ESS_URL: configKey.url(),
+  VC_ISSUE_PATH: configKey.path({ default: "/issue" }),
+  VC_DERIVE_PATH: configKey.path({ default: "/derive" }),
+  VC_QUERY_PATH: configKey.path({ default: "/query" }),
+  ATHUMI_POD_PLATFORM_URL: configKey.url(),
+  ATHUMI_POD_PLATFORM_WEB_ID_PATH: configKey.path({ default: "/v1/webids" }),
+  STORAGE_TYPE: configKey.enum<StorageType>(["memory", "file"], { default: "memory" }),
+  STORAGE_FILE_DIRECTORY: configKey.string({ default: ".storage" }),
+  AUDIT_STORE_TYPE: optional(configKey.enum<StorageType>(["memory", "file"])),
+  AUDIT_FILE: configKey.string({ default: ".audit/audit.jsonl" }),
+  SESSION_MODE: configKey.enum<SessionMode>(["server", "stateless"], { default: "server" }),
+  SESSION_MAX_AGE: configKey.seconds({ default: "43200" }),
+  SESSION_SECRETS: configKey.secret(),
+  SESSION_COOKIE_SECURE: optional(configKey.boolean()),
+  SESSION_COOKIE_SAME_SITE: configKey.enum<SameSite>(["lax", "strict", "none"], { default: "lax" }),
+  SESSION_COOKIE_DOMAIN: optional(configKey.string()),
+  SESSION_COOKIE_MAX_SIZE: configKey.bytes({ default: "12kb" }),
+  SESSION_IDLE_TIMEOUT: optional(configKey.seconds()),
+  SESSION_EXPOSE_TOKENS: configKey.boolean({ default: "false" }),
+  SESSION_KEEP_ALIVE: configKey.boolean({ default: "true" }),
+  SESSION_EXPIRY_WARNING: configKey.seconds({ default: "300" }),
+  SESSION_EVENTS_INTERVAL: configKey.seconds({ default: "15" }),
+  NOTIFICATIONS_ENABLED: configKey.boolean({ default: "false" }),
+  NOTIFICATIONS_WEBHOOK_URL: optional(configKey.url()),
+  BODY_MAX_SIZE: configKey.bytes({ default: "1mb" }),
+  UPLOAD_MAX_FILE_SIZE: configKey.bytes({ default: "100mb" }),
+  UPLOAD_MAX_FILES: configKey.integer({ default: "10" }),
+  RATE_LIMIT_ENABLED: configKey.boolean({ default: "true" }),
+  RATE_LIMIT_WINDOW: configKey.seconds({ default: "60" }),
+  RATE_LIMIT_GLOBAL: configKey.string({ default: "ip=600 session=300 webId=300" }),
+  RATE_LIMIT_ROUTES: configKey.list({ default: "GET /login ip=30 session=10,GET /oidc-redirect ip=30 session=10,POST /access-request session=10 webId=10,POST /access-request/approve session=20 webId=20" }),
+  RATE_LIMIT_WEBID_PROVISIONING: configKey.string({ default: "ip=10 session=3 window=3600" }),
+  TRUST_PROXY: optional(configKey.integer()),
+  LOG_LEVEL: configKey.enum(["trace", "debug", "info", "warn", "error", "silent"], { default: "info" }),
+  LOG_FORMAT: configKey.enum(["json", "text"], { default: "json" }),
+  LOG_REDACT_PII: configKey.boolean({ default: "true" }),
+};
+
+export type AppConfigValues = ConfigValues<typeof appConfigSchema>;
+
+const MIN_SESSION_SECRET_LENGTH = 32;
+
+/**
+ * Session secrets that were published, e.g. the one the back end used to hard-code, and so never protect a cookie.
+ */
+const KNOWN_SESSION_SECRETS = ["wearedemobackendcookiesecret"];
+
+export function loadConfig(source: ConfigSource = process.env): AppConfig {
+  const values = parseConfig(appConfigSchema, source);
+
+  const issues: ConfigIssue[] = [];
+  const identityProviders: { [name: string]: IdentityProviderValues } = {};
+  for (const name of values.CITIZEN_IDP_PROFILES ?? []) {
+    try {
+      identityProviders[name] = parseIdentityProvider(name, source);
+    } catch (error) {
+      if (!(error instanceof ConfigError))
+        throw error;
+      issues.push(...error.issues);
+    }
+  }
+  if (issues.length > 0)
+    throw new ConfigError(issues);
+
+  return createAppConfig(values, identityProviders);
+}
+
+/**
+ * Returns the keys of the configuration read from the source, including those of the additional identity provider
+ * profiles it lists.
+ */
+export function loadConfigSchema(source: ConfigSource = process.env): ConfigSchema {
+  return { ...appConfigSchema, ...identityProviderConfigSchema(source) };
+}
+
+/**
+ * Creates the configuration from the parsed values and those of the additional identity provider profiles, checking
+ * the constraints between keys.
+ */
+export function createAppConfig(values: AppConfigValues, identityProviders: { [name: string]: IdentityProviderValues } = {}): AppConfig {
+  const issues: ConfigIssue[] = [];
+
+  const identityProviderNames = [values.CITIZEN_OIDC_NAME, ...Object.keys(identityProviders)];
+  identityProviderNames.forEach((name, index) => {
+    const key = index === 0 ? "CITIZEN_OIDC_NAME" : "CITIZEN_IDP_PROFILES";
+    if (!IDENTITY_PROVIDER_NAME.test(name))
+      issues.push({ key, message: `Expected an identity provider name of lowercase letters, digits and '-' [${name}]` });
+    else if (identityProviderNames.indexOf(name) !== index)
+      issues.push({ key, message: `Duplicate identity provider name [${name}]` });
+  });
+
+  let backendUrl: URL;
+  try {
+    backendUrl = new URL(`${values.PROTOCOL}://${values.HOST}:${values.PORT}`);
+  } catch (error) {
+    issues.push({ key: "HOST", message: `Not a valid host forming the back-end URL [${values.HOST}]` });
+    backendUrl = new URL(`${values.PROTOCOL}://localhost:${values.PORT}`);
+  }
+
+  let redirectAllowlist: URL[] = [];
+  try {
+    redirectAllowlist = parseRedirectAllowlist(values.REDIRECT_ALLOWLIST?.join(","), values.FRONTEND_URL);
+  } catch (error) {
+    issues.push({ key: "REDIRECT_ALLOWLIST", message: (error as Error).message });
+  }
+
+  const sessionSecrets = values.SESSION_SECRETS.split(",").map((secret) => secret.trim()).filter(Boolean);
+  if (sessionSecrets.length === 0)
+    issues.push({ key: "SESSION_SECRETS", message: "No session secrets found" });
+  if (sessionSecrets.some((secret) => KNOWN_SESSION_SECRETS.includes(secret)))
+    issues.push({ key: "SESSION_SECRETS", message: "A session secret is publicly known, generate a new one" });
+  else if (sessionSecrets.some((secret) => secret.length < MIN_SESSION_SECRET_LENGTH))
+    issues.push({ key: "SESSION_SECRETS", message: `Expected session secrets of at least ${MIN_SESSION_SECRET_LENGTH} characters` });
+
+  const cookieSecure = values.SESSION_COOKIE_SECURE ?? values.PROTOCOL === "https";
+  if (values.SESSION_COOKIE_SAME_SITE === "none" && !cookieSecure)
+    issues.push({ key: "SESSION_COOKIE_SAME_SITE", message: "A session cookie with SameSite 'none' must be secure, set SESSION_COOKIE_SECURE=true" });
+
+  const rateLimitRule = (key: "RATE_LIMIT_GLOBAL" | "RATE_LIMIT_WEBID_PROVISIONING", name: string): RateLimitRule => {
+    try {
+      return parseRateLimitRule(name, values[key], values.RATE_LIMIT_WINDOW);
+    } catch (error) {
+      issues.push({ key, message: (error as Error).message });
+      return { name, window: values.RATE_LIMIT_WINDOW, limits: {} };
+    }
+  };
+  const rateLimit: RateLimitConfig = {
+    enabled: values.RATE_LIMIT_ENABLED,
+    global: rateLimitRule("RATE_LIMIT_GLOBAL", "global"),
+    routes: [],
+    webIdProvisioning: rateLimitRule("RATE_LIMIT_WEBID_PROVISIONING", "webid-provisioning"),
+  };
+  try {
+    rateLimit.routes = parseRouteRateLimits(values.RATE_LIMIT_ROUTES, values.RATE_LIMIT_WINDOW);
+  } catch (error) {
+    issues.push({ key: "RATE_LIMIT_ROUTES", message: (error as Error).message });
+  }
+
+  if (issues.length > 0)
+    throw new ConfigError(issues);
+
+  const oidcRedirectUrl = new URL("/oidc-redirect", backendUrl);
+
+  return {
+    weAreOidcConfig: new OidcConfig(
+      values.WEARE_OIDC_URL,
+      values.WEARE_OIDC_CLIENT_ID,
+      values.WEARE_OIDC_CLIENT_SECRET,
+      {tokenPath: values.WEARE_OIDC_TOKEN_PATH}
+    ),
+    identityProviders: [
+      createIdentityProvider(values.CITIZEN_OIDC_NAME, {
+        URL: values.CITIZEN_OIDC_URL,
+        CLIENT_ID: values.CITIZEN_OIDC_CLIENT_ID,
+        CLIENT_SECRET: values.CITIZEN_OIDC_CLIENT_SECRET,
+        CLIENT_NAME: values.CITIZEN_OIDC_CLIENT_NAME,
+        LOGIN_PATH: values.CITIZEN_OIDC_LOGIN_PATH,
+        TOKEN_PATH: values.CITIZEN_OIDC_TOKEN_PATH,
+        SCOPES: values.CITIZEN_OIDC_SCOPES,
+        LOGIN_HINT: values.CITIZEN_OIDC_LOGIN_HINT,
+        SWITCH_IDENTITY_LOGIN_HINT: values.CITIZEN_OIDC_SWITCH_IDENTITY_LOGIN_HINT,
+        PROVISION_WEB_ID: values.CITIZEN_OIDC_PROVISION_WEB_ID,
+      }, oidcRedirectUrl),
+      ...Object.entries(identityProviders).map(([name, providerValues]) => createIdentityProvider(name, providerValues, oidcRedirectUrl)),
+    ],
+    weAreOidcIssuerUrl: values.WEARE_OIDC_URL,
+    weAreClient: {
+      tokenUrl: new URL(`${values.WEARE_OIDC_URL.href.replace(/\/$/, "")}${values.WEARE_OIDC_TOKEN_PATH}`),
+      clientId: values.WEARE_OIDC_CLIENT_ID,
+      clientSecret: values.WEARE_OIDC_CLIENT_SECRET,
+    },
+    essVcConfig: new VcConfig(
+      values.ESS_URL,
+      {issuePath: values.VC_ISSUE_PATH, derivePath: values.VC_DERIVE_PATH}
+    ),
+    essUrl: values.ESS_URL,
+    essVcQueryUrl: new URL(values.VC_QUERY_PATH, values.ESS_URL),
+    athumiPlatformUrl: values.ATHUMI_POD_PLATFORM_URL,
+    athumiWebIdPath: values.ATHUMI_POD_PLATFORM_WEB_ID_PATH,
+    frontendUrl: values.FRONTEND_URL,
+    frontendLoginUrl: new URL(`${values.FRONTEND_URL.href.replace(/\/$/, "")}${values.FRONTEND_LOGIN_PATH}`),
+    backendUrl,
+    port: values.PORT,
+    redirectAllowlist,
+    storage: { type: values.STORAGE_TYPE, fileDirectory: values.STORAGE_FILE_DIRECTORY },
+    audit: { type: values.AUDIT_STORE_TYPE ?? values.STORAGE_TYPE, file: values.AUDIT_FILE },
+    upload: { maxBodySize: values.BODY_MAX_SIZE, maxFileSize: values.UPLOAD_MAX_FILE_SIZE, maxFiles: values.UPLOAD_MAX_FILES },
+    rateLimit,
+    trustProxy: values.TRUST_PROXY,
+    session: {
+      mode: values.SESSION_MODE,
+      maxAge: values.SESSION_MAX_AGE,
+      idleTimeout: Math.min(values.SESSION_IDLE_TIMEOUT ?? values.SESSION_MAX_AGE, values.SESSION_MAX_AGE),
+      secrets: sessionSecrets,
+      cookieSecure,
+      cookieSameSite: values.SESSION_COOKIE_SAME_SITE,
+      cookieDomain: values.SESSION_COOKIE_DOMAIN,
+      cookieMaxSize: values.SESSION_COOKIE_MAX_SIZE,
+      exposeTokens: values.SESSION_EXPOSE_TOKENS,
+      keepAlive: values.SESSION_KEEP_ALIVE,
+      expiryWarning: values.SESSION_EXPIRY_WARNING,
+      eventsInterval: values.SESSION_EVENTS_INTERVAL,
+    },
+    notifications: {
+      enabled: values.NOTIFICATIONS_ENABLED,
+      webhookUrl: values.NOTIFICATIONS_WEBHOOK_URL ?? new URL(notificationWebhookRoute.path, backendUrl),
+    },
+    logging: {
+      level: values.LOG_LEVEL,
+      format: values.LOG_FORMAT,
+      redactPii: values.LOG_REDACT_PII,
+    },
+  };
+}
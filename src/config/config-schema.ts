@@ -0,0 +1,213 @@
+/**
+ * Building blocks for the declared configuration schema of the back end, see `appConfigSchema` in `app-config.ts`.
+ *
+ * Every configuration key declares its type, an optional default and whether it is optional or a secret:
+ * ```
+ * const schema = {
+ *   PORT: configKey.port({ default: "3001" }),
+ *   FRONTEND_URL: configKey.url(),
+ *   FRONTEND_LOGIN_PATH: configKey.path({ default: "/login" }),
+ *   CLIENT_SECRET: configKey.secret(),
+ *   STORAGE_TYPE: configKey.enum(["memory", "file"], { default: "memory" }),
+ *   COOKIE_DOMAIN: optional(configKey.string()),
+ * };
+ * const values = parseConfig(schema, process.env); // { PORT: number, FRONTEND_URL: URL, ... }
+ * ```
+ *
+ * Values are read as strings from a `ConfigSource`, e.g. `process.env` merged with a config file read by
+ * `readConfigFile`. Empty values count as missing. A secret can also be read from the file named by the key with a
+ * `_FILE` suffix (e.g. `CLIENT_SECRET_FILE=/run/secrets/client-secret`), as used by Docker and Kubernetes secrets.
+ *
+ * `parseConfig` checks all keys before failing, and throws a single `ConfigError` listing every missing or invalid
+ * key. Use `redactConfig` to log the parsed values without revealing the secrets.
+ */
+import fs from "fs";
+import path from "path";
+import { z, ZodType, ZodTypeDef } from "zod";
+
+export type ConfigKeyType = "string" | "url" | "port" | "path" | "secret" | "enum" | "boolean" | "integer" | "seconds" | "bytes" | "list";
+
+export interface ConfigKey<T> {
+  type: ConfigKeyType;
+  schema: ZodType<T, ZodTypeDef, string>;
+  /**
+   * The value used when the key is missing, parsed in the same way as a configured value.
+   */
+  defaultValue?: string;
+  optional: boolean;
+  secret: boolean;
+}
+
+export interface ConfigKeyOptions {
+  default?: string;
+}
+
+export type ConfigSchema = { [key: string]: ConfigKey<unknown> };
+
+export type ConfigValues<S extends ConfigSchema> = { [K in keyof S]: S[K] extends ConfigKey<infer T> ? T : never };
+
+export type ConfigSource = { [key: string]: string | undefined };
+
+export interface ConfigIssue {
+  key: string;
+  message: string;
+}
+
+export const REDACTED = "********";
+
+/**
+ * Thrown when the configuration has missing or invalid keys, listing all of them.
+ */
+export class ConfigError extends Error {
+  constructor(readonly issues: ConfigIssue[]) {
+    super(`Invalid configuration:\n${issues.map((issue) => `  ${issue.key}: ${issue.message}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+function key<T>(type: ConfigKeyType, schema: ZodType<T, ZodTypeDef, string>, options: ConfigKeyOptions = {}): ConfigKey<T> {
+  return { type, schema, defaultValue: options.default, optional: false, secret: type === "secret" };
+}
+
+export const configKey = {
+  string: (options?: ConfigKeyOptions) => key("string", z.string(), options),
+  /**
+   * An absolute URL, parsed into a `URL`.
+   */
+  url: (options?: ConfigKeyOptions) => key("url", z.string().url().transform((value) => new URL(value)), options),
+  port: (options?: ConfigKeyOptions) => key("port", z.string().regex(/^\d+$/, "Expected a port number")
+    .transform(Number).pipe(z.number().int().min(1).max(65535)), options),
+  /**
+   * An absolute path of a URL, e.g. `/token`.
+   */
+  path: (options?: ConfigKeyOptions) => key("path", z.string().startsWith("/", "Expected a path starting with '/'"), options),
+  secret: () => key("secret", z.string()),
+  enum: <T extends string>(values: [T, ...T[]], options?: ConfigKeyOptions) => key("enum", z.enum(values), options),
+  boolean: (options?: ConfigKeyOptions) => key("boolean", z.enum(["true", "false"], { message: "Expected 'true' or 'false'" })
+    .transform((value) => value === "true"), options),
+  integer: (options?: ConfigKeyOptions) => key("integer", z.string().regex(/^\d+$/, "Expected a positive integer")
+    .transform(Number).pipe(z.number().int().positive()), options),
+  /**
+   * A positive number of seconds, parsed into milliseconds.
+   */
+  seconds: (options?: ConfigKeyOptions) => key("seconds", z.string().regex(/^\d+$/, "Expected a number of seconds")
+    .transform(Number).pipe(z.number().int().positive()).transform((seconds) => seconds * 1000), options),
+  /**
+   * A size in bytes, optionally with a `kb`, `mb` or `gb` unit (e.g. `512kb`), parsed into a number of bytes.
+   */
+  bytes: (options?: ConfigKeyOptions) => key("bytes", z.string().regex(/^\d+\s*([kmg]b)?$/i, "Expected a size like '1048576', '512kb' or '10mb'")
+    .transform(parseBytes).pipe(z.number().int().positive()), options),
+  /**
+   * A comma-separated list, parsed into its trimmed non-empty entries.
+   */
+  list: (options?: ConfigKeyOptions) => key("list", z.string()
+    .transform((value) => value.split(",").map((entry) => entry.trim()).filter(Boolean)), options),
+};
+
+/**
+ * Marks a key as optional: its value is `undefined` when it is missing and has no default.
+ */
+export function optional<T>(configKey: ConfigKey<T>): ConfigKey<T | undefined> {
+  return { ...configKey, optional: true };
+}
+
+export function parseConfig<S extends ConfigSchema>(schema: S, source: ConfigSource): ConfigValues<S> {
+  const values: { [key: string]: unknown } = {};
+  const issues: ConfigIssue[] = [];
+
+  for (const [name, configKey] of Object.entries(schema)) {
+    let value: string | undefined;
+    try {
+      value = readValue(name, configKey, source);
+    } catch (error) {
+      issues.push({ key: name, message: (error as Error).message });
+      continue;
+    }
+
+    if (value === undefined) {
+      if (configKey.optional)
+        values[name] = undefined;
+      else
+        issues.push({ key: name, message: "Required" });
+      continue;
+    }
+
+    const result = configKey.schema.safeParse(value);
+    if (result.success)
+      values[name] = result.data;
+    else
+      issues.push(...result.error.issues.map((issue) =>
+        ({ key: name, message: configKey.secret ? issue.message : `${issue.message} [${value}]` })));
+  }
+
+  if (issues.length > 0)
+    throw new ConfigError(issues);
+
+  return values as ConfigValues<S>;
+}
+
+function readValue(name: string, configKey: ConfigKey<unknown>, source: ConfigSource): string | undefined {
+  const value = source[name];
+  if (value !== undefined && value !== "")
+    return value;
+
+  const file = source[`${name}_FILE`];
+  if (configKey.secret && file) {
+    try {
+      return fs.readFileSync(path.resolve(file), "utf8").trim();
+    } catch (error) {
+      throw new Error(`Cannot read the secret from ${name}_FILE [${file}]`);
+    }
+  }
+
+  return configKey.defaultValue;
+}
+
+/**
+ * Returns the values as strings for logging, with the values of secret keys replaced by `REDACTED`.
+ */
+export function redactConfig<S extends ConfigSchema>(schema: S, values: ConfigValues<S>): { [key: string]: string | undefined } {
+  return Object.fromEntries(Object.entries(schema).map(([name, configKey]) => {
+    const value = values[name];
+    if (value === undefined)
+      return [name, undefined];
+    return [name, configKey.secret ? REDACTED : Array.isArray(value) ? value.join(",") : String(value)];
+  }));
+}
+
+/**
+ * Reads a JSON config file holding an object of configuration keys, e.g. `{ "PORT": 3001, "STORAGE_TYPE": "file" }`.
+ * Numbers and booleans are converted to strings, so the values are parsed in the same way as environment variables.
+ */
+export function readConfigFile(file: string): ConfigSource {
+  let content: unknown;
+  try {
+    content = JSON.parse(fs.readFileSync(path.resolve(file), "utf8"));
+  } catch (error) {
+    throw new ConfigError([{ key: "CONFIG_FILE", message: `Cannot read the config file [${file}]: ${(error as Error).message}` }]);
+  }
+
+  if (typeof content !== "object" || content === null || Array.isArray(content))
+    throw new ConfigError([{ key: "CONFIG_FILE", message: `Expected an object of configuration keys in [${file}]` }]);
+
+  const issues: ConfigIssue[] = [];
+  const source: ConfigSource = {};
+  for (const [name, value] of Object.entries(content)) {
+    if (["string", "number", "boolean"].includes(typeof value))
+      source[name] = String(value);
+    else
+      issues.push({ key: name, message: `Expected a string, number or boolean in the config file [${file}]` });
+  }
+
+  if (issues.length > 0)
+    throw new ConfigError(issues);
+
+  return source;
+}
+
+const BYTE_UNITS: { [unit: string]: number } = { "": 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+function parseBytes(value: string): number {
+  const [, amount, unit = ""] = /^(\d+)\s*([kmg]b)?$/i.exec(value)!;
+  return Number(amount) * BYTE_UNITS[unit.toLowerCase()];
+}
@@ -0,0 +1,126 @@
+/**
+ * The citizen identity provider profiles, selectable at login with `/login?provider=<name>`.
+ *
+ * The default profile is configured with the `CITIZEN_OIDC_*` keys of `appConfigSchema` and named by
+ * `CITIZEN_OIDC_NAME`, `acm` by default. Additional profiles are listed by name in `CITIZEN_IDP_PROFILES`, e.g.
+ * `test`, and configured with the keys of `identityProviderSchema` prefixed with `CITIZEN_IDP_<NAME>_`:
+ * ```
+ * CITIZEN_IDP_PROFILES=test
+ * CITIZEN_IDP_TEST_URL=https://idp.test.example
+ * CITIZEN_IDP_TEST_CLIENT_ID=demo-backend
+ * CITIZEN_IDP_TEST_CLIENT_SECRET=...
+ * CITIZEN_IDP_TEST_SCOPES=openid,webid
+ * CITIZEN_IDP_TEST_PROVISION_WEB_ID=false
+ * ```
+ *
+ * Every profile has its own client credentials, the extra scopes and login hint added to its authorization requests,
+ * the login hint asking to switch identity, and whether a WebID is provisioned at Athumi for citizens without one.
+ */
+import { OidcConfig } from "@vito-nv/weare-core";
+import { ConfigError, configKey, ConfigSchema, ConfigSource, ConfigValues, optional, parseConfig } from "./config-schema";
+
+export interface IdentityProviderConfig {
+  /**
+   * The name selecting the profile, the `provider` of `/login`.
+   */
+  name: string;
+  oidcConfig: OidcConfig;
+  /**
+   * The issuer URL of the OIDC provider, used to check its discovery document.
+   */
+  issuerUrl: URL;
+  /**
+   * The scopes added to the scopes of the Solid client in the authorization request, e.g. `rrn`.
+   */
+  scopes: string[];
+  /**
+   * The login hint of every authorization request, when set.
+   */
+  loginHint?: string;
+  /**
+   * The login hint asking the provider to switch identity. Without it, the provider is asked to log in again.
+   */
+  switchIdentityLoginHint?: string;
+  /**
+   * Whether a WebID is provisioned at Athumi when the token of the provider has no WebID claim.
+   */
+  provisionWebId: boolean;
+}
+
+export const IDENTITY_PROVIDER_NAME = /^[a-z0-9-]+$/;
+
+/**
+ * The keys of an additional profile, prefixed with `CITIZEN_IDP_<NAME>_`. They mirror the `CITIZEN_OIDC_*` keys of the
+ * default profile.
+ */
+export const identityProviderSchema = {
+  URL: configKey.url(),
+  CLIENT_ID: configKey.string(),
+  CLIENT_SECRET: configKey.secret(),
+  CLIENT_NAME: configKey.string({ default: "We Are Demo Back-End" }),
+  LOGIN_PATH: configKey.path({ default: "/op" }),
+  TOKEN_PATH: configKey.path({ default: "/op/v1/token" }),
+  SCOPES: optional(configKey.list()),
+  LOGIN_HINT: optional(configKey.string()),
+  SWITCH_IDENTITY_LOGIN_HINT: optional(configKey.string()),
+  PROVISION_WEB_ID: configKey.boolean({ default: "true" }),
+};
+
+export type IdentityProviderValues = ConfigValues<typeof identityProviderSchema>;
+
+export function identityProviderPrefix(name: string): string {
+  return `CITIZEN_IDP_${name.toUpperCase().replace(/-/g, "_")}_`;
+}
+
+/**
+ * Returns the keys of the additional profiles listed in `CITIZEN_IDP_PROFILES` of the source, with their prefix.
+ */
+export function identityProviderConfigSchema(source: ConfigSource): ConfigSchema {
+  const names = (source.CITIZEN_IDP_PROFILES ?? "").split(",").map((name) => name.trim()).filter(Boolean);
+  return Object.fromEntries(names.flatMap((name) =>
+    Object.entries(identityProviderSchema).map(([key, configKey]) => [`${identityProviderPrefix(name)}${key}`, configKey])));
+}
+
+/**
+ * Parses the keys of an additional profile from the source.
+ *
+ * @throws {ConfigError} Listing the missing or invalid keys of the profile, with their prefix.
+ */
+export function parseIdentityProvider(name: string, source: ConfigSource): IdentityProviderValues {
+  const prefix = identityProviderPrefix(name);
+  const profileSource = Object.fromEntries(Object.entries(source)
+    .filter(([key]) => key.startsWith(prefix))
+    .map(([key, value]) => [key.slice(prefix.length), value]));
+
+  try {
+    return parseConfig(identityProviderSchema, profileSource);
+  } catch (error) {
+    if (!(error instanceof ConfigError))
+      throw error;
+    throw new ConfigError(error.issues.map((issue) => ({ ...issue, key: `${prefix}${issue.key}` })));
+  }
+}
+
+export function createIdentityProvider(name: string, values: IdentityProviderValues, redirectEndpoint: URL): IdentityProviderConfig {
+  return {
+    name,
+    oidcConfig: new OidcConfig(
+      values.URL,
+      values.CLIENT_ID,
+      values.CLIENT_SECRET,
+      {clientName: values.CLIENT_NAME, loginPath: values.LOGIN_PATH, tokenPath: values.TOKEN_PATH, redirectEndpoint}
+    ),
+    issuerUrl: new URL(`${values.URL.href.replace(/\/$/, "")}${values.LOGIN_PATH}`),
+    scopes: values.SCOPES ?? [],
+    loginHint: values.LOGIN_HINT,
+    switchIdentityLoginHint: values.SWITCH_IDENTITY_LOGIN_HINT,
+    provisionWebId: values.PROVISION_WEB_ID,
+  };
+}
+
+/**
+ * Returns the profile with the given name, or the default (first) profile when no name is given.
+ */
+export function findIdentityProvider(providers: IdentityProviderConfig[], name?: string): IdentityProviderConfig | undefined {
+  return name === undefined ? providers[0] : providers.find((provider) => provider.name === name);
+}
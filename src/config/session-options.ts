@@ -0,0 +1,35 @@
+/**
+ * Creates the options of the express-session middleware from the session configuration, see `loadConfig`.
+ *
+ * The cookie is rolling: every request extends it by the idle timeout. The absolute lifetime is enforced by
+ * `enforceSessionLifetime`. A secure cookie also trusts the `X-Forwarded-Proto` header, so TLS may be terminated by
+ * a reverse proxy.
+ *
+ * Example usage:
+ * ```
+ * app.use(session(createSessionOptions(config.session, services.sessionStore)));
+ * ```
+ */
+import { SessionOptions, Store } from "express-session";
+import { SessionConfig } from "./app-config";
+
+export const SESSION_COOKIE_NAME = "weare-demo-session";
+
+export function createSessionOptions(config: SessionConfig, store: Store): SessionOptions {
+  return {
+    name: SESSION_COOKIE_NAME,
+    resave: false,
+    saveUninitialized: false,
+    rolling: true,
+    secret: config.secrets,
+    store,
+    proxy: config.cookieSecure ? true : undefined,
+    cookie: {
+      httpOnly: true,
+      secure: config.cookieSecure,
+      sameSite: config.cookieSameSite,
+      domain: config.cookieDomain,
+      maxAge: config.idleTimeout,
+    },
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * The service container holds the storage and the services the endpoints use to talk to the We Are, ACM, ESS and
+ * Athumi services.
+ *
+ * The services are created from the configuration by `createServiceContainer`. Any of them can be replaced, for
+ * example by an implementation talking to a local stand-in of the remote service:
+ * ```
+ * const config = loadConfig();
+ * const services = createServiceContainer(config, { athumiAccountService: new AthumiAccountService(new URL("http://localhost:4000"), "/v1/webids") });
+ * const app = createApp(config, services);
+ * ```
+ *
+ * The service container also holds the Prometheus metrics of the application, see `app-metrics.ts`.
+ *
+ * The storage backend is selected with `STORAGE_TYPE`, see `loadConfig`. The time-to-live of all entries is aligned
+ * with the maximum age of a session, except the counters of the rate limits which expire with their window. Expired
+ * entries are removed periodically by a sweeper.
+ *
+ * In the stateless session mode (`SESSION_MODE=stateless`), the Solid session data and the express-session state are
+ * kept in the session cookies instead, by a `CookieSolidStorage` and a `CookieSessionStore`. The storage backend then
+ * only holds the counters of the rate limits, which replicas only share with a shared `file` backend.
+ *
+ * The audit store is selected with `AUDIT_STORE_TYPE`, its entries never expire.
+ *
+ * The notification relay keeps the subscriptions of the event streams in memory, whatever the storage backend.
+ */
+import { IStorage } from "@inrupt/solid-client-authn-node";
+import { AthumiConfig, AthumiService, OidcService, PodService, VcService } from "@vito-nv/weare-core";
+import { Store } from "express-session";
+import log from "loglevel";
+import { AppConfig, AuditConfig, StorageConfig } from "../config/app-config";
+import { AthumiAccountService } from "../service/athumi-account-service";
+import { PodResourceService } from "../service/pod-resource-service";
+import { NotificationService } from "../service/notification-service";
+import { NotificationRelay } from "../event/notification-relay";
+import { createClientCredentialsFetch } from "../service/client-credentials-fetch";
+import { StorageBackend } from "../storage/storage-backend";
+import { MemoryStorageBackend } from "../storage/memory-storage-backend";
+import { FileStorageBackend } from "../storage/file-storage-backend";
+import { SolidStorage } from "../storage/solid-storage";
+import { BackendSessionStore } from "../storage/backend-session-store";
+import { RateLimitStore } from "../storage/rate-limit-store";
+import { CookieSessionStore, CookieSolidStorage } from "../storage/cookie-session-store";
+import { AppMetrics, createAppMetrics } from "../metrics/app-metrics";
+import { AuditStore } from "../audit/audit-trail";
+import { MemoryAuditStore } from "../audit/memory-audit-store";
+import { FileAuditStore } from "../audit/file-audit-store";
+
+export interface ServiceContainer {
+  podService: PodService;
+  vcService: VcService;
+  /**
+   * The OIDC services of the citizen identity provider profiles, by name.
+   */
+  oidcServices: { [provider: string]: OidcService };
+  athumiService: AthumiService;
+  athumiAccountService: AthumiAccountService;
+  /**
+   * Lists containers and manages pod resources with the access grants of the sessions.
+   */
+  podResourceService: PodResourceService;
+  /**
+   * Relays the Solid notifications of the resources of the access grants to the event streams of the sessions.
+   */
+  notificationRelay: NotificationRelay;
+  /**
+   * The key-value backend shared by `solidStorage`, `sessionStore` and `rateLimitStore`.
+   */
+  storageBackend: StorageBackend;
+  /**
+   * The `IStorage` used by the Inrupt Solid client for its session data, in the storage backend or the session cookies.
+   */
+  solidStorage: IStorage;
+  /**
+   * The express-session store, in the storage backend or the session cookies.
+   */
+  sessionStore: Store;
+  /**
+   * The request counters of the rate limits.
+   */
+  rateLimitStore: RateLimitStore;
+  /**
+   * The append-only audit trail of pod operations and credential actions.
+   */
+  auditStore: AuditStore;
+  /**
+   * The Prometheus metrics served by `/metrics`.
+   */
+  metrics: AppMetrics;
+}
+
+const SWEEP_INTERVAL = 1000 * 60 * 5;
+
+export function createServiceContainer(config: AppConfig, services: Partial<ServiceContainer> = {}): ServiceContainer {
+  const maxAge = config.session.maxAge;
+  const stateless = config.session.mode === "stateless";
+  const clientFetch = createClientCredentialsFetch(config.weAreClient);
+  const storageBackend = services.storageBackend ?? createStorageBackend(config.storage);
+  startSweeper(storageBackend, Math.min(SWEEP_INTERVAL, maxAge));
+
+  return {
+    podService: new PodService(config.weAreOidcConfig),
+    vcService: new VcService(config.weAreOidcConfig, config.essVcConfig),
+    oidcServices: Object.fromEntries(config.identityProviders.map(({ name, oidcConfig }) => [name, new OidcService(oidcConfig)])),
+    athumiService: new AthumiService(new AthumiConfig(config.athumiPlatformUrl, config.athumiWebIdPath)),
+    athumiAccountService: new AthumiAccountService(config.athumiPlatformUrl, config.athumiWebIdPath),
+    podResourceService: new PodResourceService(clientFetch),
+    notificationRelay: new NotificationRelay(new NotificationService(clientFetch), config.notifications.webhookUrl),
+    solidStorage: stateless ? new CookieSolidStorage() : new SolidStorage(storageBackend, maxAge),
+    sessionStore: stateless ? new CookieSessionStore() : new BackendSessionStore(storageBackend, maxAge),
+    rateLimitStore: new RateLimitStore(storageBackend),
+    auditStore: createAuditStore(config.audit),
+    metrics: createAppMetrics(),
+    ...services,
+    storageBackend,
+  };
+}
+
+function createStorageBackend(config: StorageConfig): StorageBackend {
+  switch (config.type) {
+    case "memory":
+      return new MemoryStorageBackend();
+    case "file":
+      return new FileStorageBackend(config.fileDirectory);
+  }
+}
+
+function createAuditStore(config: AuditConfig): AuditStore {
+  switch (config.type) {
+    case "memory":
+      return new MemoryAuditStore();
+    case "file":
+      return new FileAuditStore(config.file);
+  }
+}
+
+function startSweeper(storageBackend: StorageBackend, interval: number): void {
+  setInterval(async () => {
+    try {
+      const removed = await storageBackend.sweep();
+      if (removed > 0)
+        log.debug(`Removed ${removed} expired storage entries.`);
+    } catch (error: any) {
+      log.error(`Sweeping expired storage entries failed: ${error.message}`);
+    }
+  }, interval).unref();
+}
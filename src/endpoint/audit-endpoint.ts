@@ -0,0 +1,91 @@
+/**
+ * Defines the `/audit` and `/audit/export` endpoints, with which the logged-in owner reviews the audit trail of their
+ * data: the pod operations, access requests and access grant activations performed through the back end, see
+ * `audit-trail.ts`.
+ *
+ * Only the entries of which the logged-in user is the owner are returned, whoever performed the action. Both endpoints
+ * filter on the date, the resource, the access grant and the action. The routes and their request schemas are
+ * declared in `audit-schema.ts`.
+ *
+ * @param {Express} app - The Express application instance on which the routes are mounted.
+ * @param {AppConfig} config - The configuration of the application.
+ * @param {ServiceContainer} services - The services and storage of the application.
+ */
+import { Express } from "express";
+import log from "loglevel";
+import { getSession } from "@vito-nv/weare-expressjs";
+import { validateRequest } from "../middleware/validate-request";
+import {
+  ExportAuditEntriesQuery,
+  exportAuditEntriesRoute,
+  ListAuditEntriesQuery,
+  listAuditEntriesRoute
+} from "../schema/audit-schema";
+import { AuditQuery } from "../audit/audit-trail";
+import { AUDIT_EXPORT_CONTENT_TYPES, exportAuditEntries } from "../audit/audit-export";
+import { AppConfig } from "../config/app-config";
+import { ServiceContainer } from "../container/service-container";
+
+export function auditEndpoint(app: Express, config: AppConfig, services: ServiceContainer) {
+
+  /**
+   * GET /audit
+   *
+   * Lists the audit entries of the data of the logged-in owner, the most recent first.
+   *
+   * @route {GET} /audit
+   *
+   * @query {string} from - (Optional) Only entries at or after this date.
+   * @query {string} to - (Optional) Only entries before this date.
+   * @query {string} resource - (Optional) Only entries about this resource, or about the resources in this container when it ends with a slash.
+   * @query {string} accessGrantId - (Optional) Only entries under this access grant.
+   * @query {string} action - (Optional) Only entries of this action, e.g. `read` or `issue-access-request`.
+   * @query {number} limit - (Optional) The maximum number of entries, 100 by default and at most 1000.
+   *
+   * @returns {Object} A JSON object with the `items` and whether they were `truncated` to the limit.
+   */
+  app.get(listAuditEntriesRoute.path, (req, res, next) => {
+    log.debug(`Endpoint GET /audit called.`);
+    next();
+  }, validateRequest.bind({schema: listAuditEntriesRoute.schema}), getSession.bind({storage: services.solidStorage}), async (req, res, next) => {
+    try {
+      const {limit, ...filters} = req.query as unknown as ListAuditEntriesQuery;
+      const entries = await services.auditStore.query({...filters, owner: res.locals.session.info.webId} satisfies AuditQuery);
+
+      res.json({items: entries.reverse().slice(0, limit), truncated: entries.length > limit});
+    } catch (error) {
+      // A general error catcher which will, in turn, call the ExpressJS error handler.
+      next(error);
+    }
+  });
+
+  /**
+   * GET /audit/export
+   *
+   * Exports the audit entries of the data of the logged-in owner, in the order they were recorded, as an attachment
+   * for review by compliance.
+   *
+   * @route {GET} /audit/export
+   *
+   * @query {string} format - (Optional) `csv` (default) or `jsonl`.
+   * @query {string} from, to, resource, accessGrantId, action - (Optional) The same filters as `GET /audit`.
+   *
+   * @returns {string} The CSV file or JSON Lines.
+   */
+  app.get(exportAuditEntriesRoute.path, (req, res, next) => {
+    log.debug(`Endpoint GET /audit/export called.`);
+    next();
+  }, validateRequest.bind({schema: exportAuditEntriesRoute.schema}), getSession.bind({storage: services.solidStorage}), async (req, res, next) => {
+    try {
+      const {format, ...filters} = req.query as unknown as ExportAuditEntriesQuery;
+      const entries = await services.auditStore.query({...filters, owner: res.locals.session.info.webId} satisfies AuditQuery);
+
+      res.type(AUDIT_EXPORT_CONTENT_TYPES[format])
+        .attachment(`audit-${new Date().toISOString().slice(0, 10)}.${format}`)
+        .send(exportAuditEntries(entries, format));
+    } catch (error) {
+      // A general error catcher which will, in turn, call the ExpressJS error handler.
+      next(error);
+    }
+  });
+}
@@ -1,75 +1,107 @@
-
 /**
- * Defines the authentication-related endpoints: `/login`, `/logout`, and `/oidc-redirect`.
+ * Defines the authentication-related endpoints: `/login`, `/logout`, `/delete-account` and `/oidc-redirect`.
  *
  * This module provides routes for handling Solid OIDC authentication, including:
  * - `/login`: Initiates the login process with Solid OIDC.
  * - `/logout`: Logs the user out of their session.
- * - `/oidc-redirect`: Handles the OIDC redirect after authentication, including a workaround for missing WebID claims.
+ * - `/delete-account`: Initiates the deletion of the user's WebID and pod, confirmed by re-authenticating.
+ * - `/oidc-redirect`: Handles the OIDC redirect after authentication, according to the login flow started by `/login` or `/delete-account`.
+ *
+ * The login flows and their allowed transitions are defined in `login-flow.ts`, the routes and their request schemas in `authentication-schema.ts`.
  *
  * @param {Express} app - The Express application instance on which the routes are mounted.
+ * @param {AppConfig} config - The configuration of the application.
+ * @param {ServiceContainer} services - The services and storage of the application.
  */
-import {Session} from "@inrupt/solid-client-authn-node";
-import { Express } from "express";
+import {EVENTS, Session} from "@inrupt/solid-client-authn-node";
+import { revokeAccessGrant } from "@inrupt/solid-client-access-grants";
+import { Express, Request, Response } from "express";
 import log from "loglevel";
 import { getSession, getSessionOptional } from "@vito-nv/weare-expressjs";
+import {
+  buildLoginUrl,
+  endLoginFlow,
+  getLoginFlow,
+  LoginFlowError,
+  LoginFlowState,
+  startLoginFlow,
+  transitionLoginFlow
+} from "../flow/login-flow";
+import { clearSessionAccessGrants } from "../vc/session-access-grants";
+import { queryActiveAccessGrants } from "../vc/access-credential";
+import { validateRequest } from "../middleware/validate-request";
+import {
+  deleteAccountRoute,
+  LoginQuery,
+  loginRoute,
+  LogoutQuery,
+  logoutRoute,
+  OidcRedirectQuery,
+  oidcRedirectRoute
+} from "../schema/authentication-schema";
+import { allowedRedirectOrDefault } from "../validate/redirect-validate";
+import { startSessionLifetime } from "../middleware/enforce-session-lifetime";
+import { validateRedirectUrl } from "../middleware/validate-redirect-url";
+import { SESSION_COOKIE_NAME } from "../config/session-options";
+import { AppConfig } from "../config/app-config";
+import { findIdentityProvider, IdentityProviderConfig } from "../config/identity-providers";
+import { Problem } from "../error/problem";
+import { ServiceContainer } from "../container/service-container";
+import { checkRateLimit, rateLimitIdentity } from "../middleware/rate-limit";
+
+type LoginFlowHandler = (req: Request, res: Response) => Promise<void>;
 
-export function authenticationEndpoint(app: Express) {
+export function authenticationEndpoint(app: Express, config: AppConfig, services: ServiceContainer) {
 
    /**
    * GET /login
    *
    * Initiates the Solid OIDC login flow. A session is created, and the user is redirected to the Solid OIDC provider's login page.
-   * The login URL is modified to include additional OAuth scopes (e.g., `rrn`) and identity switching when needed.
+   * The login URL is modified to include the additional OAuth scopes (e.g., `rrn`) and login hint of the identity
+   * provider profile, and identity switching when needed.
    *
    * @route {GET} /login
    *
-   * @query {string} redirectUrl - (Optional) A URL to redirect the user to after successful login.
+   * @query {string} redirectUrl - (Optional) A URL to redirect the user to after successful login, which must be on the redirect allowlist.
    * @query {boolean} switchIdentity - (Optional) If `true`, includes a login hint to switch the user's identity during authentication.
+   * @query {boolean} saveTokens - (Optional) If `true`, the OIDC tokens are captured on the session instead of logging in.
+   * @query {string} provider - (Optional) The name of the identity provider profile to log in with, the default profile when missing.
    *
+   * @throws {Problem} `validation-failed` (400) when the identity provider profile is unknown.
    * @throws {Error} If an error occurs during the login process, it will be passed to the Express error handler.
    */
-  app.get("/login", (req, res, next) => {
+  app.get(loginRoute.path, (req, res, next) => {
     log.debug(`Endpoint GET /login called.`);
     next();
-  }, getSessionOptional.bind({storage: globalThis.solidStorage}), async (req, res, next) => {
+  }, validateRequest.bind({schema: loginRoute.schema}), validateRedirectUrl.bind({allowlist: config.redirectAllowlist}), getSessionOptional.bind({storage: services.solidStorage}), async (req, res, next) => {
     try {
+      const query = req.query as LoginQuery;
+      const provider = findIdentityProvider(config.identityProviders, query.provider);
+      if (!provider) {
+        const errors = [{ location: "query", field: "provider", message: "Unknown identity provider" }];
+        throw new Problem("validation-failed", 400, "Invalid request", "Invalid fields: query.provider", { errors });
+      }
       let session = res.locals.session;
 
       if(session?.info.isLoggedIn)
         await session.logout({logoutType: 'app'});
 
+      // The session of a request can't refresh itself in the background, `refreshSolidSession` refreshes it instead.
       if (!session)
-        session = new Session( {storage: globalThis.solidStorage!, keepAlive: false});
+        session = new Session( {storage: services.solidStorage, keepAlive: false});
 
       if(!req.session.solidSid)
         req.session.solidSid = session.info.sessionId;
 
-      if (req.query.redirectUrl)
-        req.session.redirectUrl = (new URL(req.query.redirectUrl as string)).href;
-
-      await globalThis.oidcService.login(session, (url: string) => {
-        // Todo: workaround for adding scopes to OAuth flow, should be provided by Inrupt SDK.
-        const loginUrl = new URL(url);
-        let scope = loginUrl.searchParams.get('scope');
-        if (scope)
-          scope += " rrn";
-        else
-          scope = "rrn";
-        loginUrl.searchParams.set('scope', scope);
-
-        if(req.query.switchIdentity) {
-          // Static string to switch identity, see https://vlaamseoverheid.atlassian.net/wiki/spaces/IKPubliek/pages/6336381158/Wisselen+van+account+doelgroepen
-          loginUrl.searchParams.set('login_hint', 'eyJzd2l0Y2hfaWQiOiB0cnVlfQ==');
-        }
-
-        if(req.query.saveTokens) {
-          // @ts-ignore
-          req.session.workaroundActive = "save_tokens";
-        }
+      let state: LoginFlowState = "login";
+      if (query.saveTokens)
+        state = "save_tokens";
+      else if (query.switchIdentity)
+        state = "switch_identity";
 
-        res.redirect(loginUrl.href);
-      });
+      startLoginFlow(req.session, state, {redirectUrl: query.redirectUrl, provider: provider.name});
+      startSessionLifetime(req.session);
+      await redirectToLogin(services, provider, session, res, {switchIdentity: query.switchIdentity});
     } catch (error) {
       // A general error catcher which will, in turn, call the ExpressJS error handler.
       next(error);
@@ -83,144 +115,281 @@ export function authenticationEndpoint(app: Express) {
    *
    * @route {GET} /logout
    *
+   * @query {string} redirectUrl - (Optional) A URL to redirect the user to after logout instead of the frontend, which must be on the redirect allowlist.
+   *
    * @returns {string} A URL redirecting to the logout success page or an error page in case of failure.
    *
    * @throws {Error} If an error occurs during the logout process, it will be passed to the Express error handler.
    */
-  app.get("/logout", (req, res, next) => {
+  app.get(logoutRoute.path, (req, res, next) => {
       log.debug(`Endpoint GET /logout called.`);
       next();
-    }, getSession.bind({storage: globalThis.solidStorage}), async (req, res, next) => {
+    }, validateRequest.bind({schema: logoutRoute.schema}), validateRedirectUrl.bind({allowlist: config.redirectAllowlist}), getSession.bind({storage: services.solidStorage}), async (req, res, next) => {
+      const query = req.query as LogoutQuery;
       try {
         log.debug(`[GET /logout] Log out for Web ID [${res.locals.session.info.webId}]`);
         await res.locals.session.logout();
 
-        delete req.session.accessGrant;
-        delete req.session.accessGrantExpirationDate;
+        clearSessionAccessGrants(req.session);
+        await services.notificationRelay.removeSession(req.sessionID);
         delete req.session.pods;
         delete req.session.locale;
-        delete req.session.workaroundActive;
+        endLoginFlow(req.session);
+        delete req.session.webId;
+        delete req.session.identityProvider;
+        delete req.session.tokenExpiresAt;
 
-        const successUrl = new URL(globalThis.frontendUrl);
+        const successUrl = allowedRedirectOrDefault(query.redirectUrl, config.redirectAllowlist, config.frontendUrl);
         successUrl.searchParams.set("logout", "success");
         res.redirect(successUrl.href);
       } catch (error: any) {
-        const errorUrl = new URL(globalThis.frontendUrl);
+        const errorUrl = allowedRedirectOrDefault(query.redirectUrl, config.redirectAllowlist, config.frontendUrl);
         errorUrl.searchParams.set("logout", "error");
         res.redirect(errorUrl.href);
       }
     }
   );
 
+  /**
+   * GET /delete-account
+   *
+   * Initiates the deletion of the logged in user's WebID and pod. The user is redirected to the OIDC provider to
+   * authenticate again with the identity provider profile of the login, which confirms the deletion. The deletion itself is performed when the OIDC provider redirects
+   * back to `/oidc-redirect`, after which the user is redirected to the frontend with `delete-account=success` or
+   * `delete-account=failed`.
+   *
+   * @route {GET} /delete-account
+   *
+   * @throws {Error} If an error occurs while initiating the re-authentication, it will be passed to the Express error handler.
+   */
+  app.get(deleteAccountRoute.path, (req, res, next) => {
+    log.debug(`Endpoint GET /delete-account called.`);
+    next();
+  }, validateRequest.bind({schema: deleteAccountRoute.schema}), getSession.bind({storage: services.solidStorage}), async (req, res, next) => {
+    try {
+      const provider = findIdentityProvider(config.identityProviders, req.session.identityProvider) ?? config.identityProviders[0];
+      startLoginFlow(req.session, "delete_pod", {webId: res.locals.session.info.webId, provider: provider.name});
+      await redirectToLogin(services, provider, res.locals.session, res, {forceAuthentication: true});
+    } catch (error) {
+      // A general error catcher which will, in turn, call the ExpressJS error handler.
+      next(error);
+    }
+  });
+
+  /**
+   * Handlers for the redirect back from the OIDC provider, one for every state of the login flow.
+   */
+  const loginFlowHandlers: Record<LoginFlowState, LoginFlowHandler> = {
+    login: (req, res) => completeLogin(req, res, config, services),
+    switch_identity: (req, res) => completeLogin(req, res, config, services),
+
+    /**
+     * The previous login returned a token without WebID: provision a WebID with Athumi and log in again, switching
+     * identity to refresh the session so it includes the provisioned WebID. Provisioning is limited by
+     * `RATE_LIMIT_WEBID_PROVISIONING`.
+     */
+    create_web_id: async (req, res) => {
+      if (config.rateLimit.enabled)
+        await checkRateLimit(services.rateLimitStore, config.rateLimit.webIdProvisioning, rateLimitIdentity(req), services.metrics);
+      const data = await exchangeAuthorizationCode(req, config, services);
+      try {
+        await services.athumiService.provisionWebId(data.id_token);
+        services.metrics.webIdProvisioning.inc({operation: "create", result: "success"});
+      } catch (error) {
+        services.metrics.webIdProvisioning.inc({operation: "create", result: "failure"});
+        throw error;
+      }
+      transitionLoginFlow(req.session, "switch_identity");
+      await redirectToLogin(services, flowIdentityProvider(req, config), res.locals.session!, res, {switchIdentity: true});
+    },
+
+    save_tokens: async (req, res) => {
+      const data = await exchangeAuthorizationCode(req, config, services);
+      endLoginFlow(req.session);
+      req.session.tokens = {idToken: data.id_token, accessToken: data.access_token};
+      const redirectUrl = new URL(config.frontendLoginUrl.href);
+      redirectUrl.searchParams.set('save_tokens', 'success');
+      res.redirect(redirectUrl.href);
+    },
+
+    delete_pod: (req, res) => deleteAccount(req, res, config, services),
+  };
+
    /**
    * GET /oidc-redirect
    *
    * Handles the OIDC redirect after the user has authenticated with the Solid OIDC provider.
-   * Includes a workaround to provision a WebID if the token lacks a 'webid' claim, meaning the pod and webId don't exist yet.
+   * The redirect is handled by the handler of the login flow state stored on the session. When no valid login flow is
+   * active, the user is redirected to the frontend with `login=failed` and the reason.
    *
    * @route {GET} /oidc-redirect
    *
    * @query {string} code - The authorization code from the OIDC provider.
    * @query {string} state - The OIDC state parameter for session management.
    *
-   * @returns {string} A redirect to the frontend on successful login or a retry mechanism in case of missing claims.
+   * @returns {string} A redirect to the frontend on successful login or to the OIDC provider when the flow continues.
    *
    * @throws {Error} If an error occurs during the redirect handling, it will be passed to the Express error handler.
    */
-  app.get("/oidc-redirect", getSessionOptional.bind({storage: globalThis.solidStorage}), (req, res, next) => {
+  app.get(oidcRedirectRoute.path, getSessionOptional.bind({storage: services.solidStorage}), (req, res, next) => {
       log.debug(`Endpoint GET /oidc-redirect called.`);
       next();
-    }, async (req, res, next) => {
+    }, validateRequest.bind({schema: oidcRedirectRoute.schema}), async (req, res, next) => {
       try {
-        const fullUrl = `${process.env['PROTOCOL']}://${req.get("host")}${req.originalUrl}`;
-
-        log.debug(`Full URL [${fullUrl}].`);
-
-        if(!req.session.workaroundActive) {
-          try {
-            log.debug(`Handling incoming redirect for URL [${fullUrl}], checking if web id is present.`);
-            await res.locals.session!.handleIncomingRedirect(fullUrl);
-
-            if (!res.locals.session || !res.locals.session.info.isLoggedIn) {
-              const errorUrl = globalThis.frontendUrl;
-              errorUrl.searchParams.set("login", "failed");
-              res.redirect(errorUrl.href);
-              return;
-            }
-
-            if(req.session.redirectUrl) {
-              const successUrl = new URL(req.session.redirectUrl);
-              successUrl.searchParams.set('login', 'success');
-              res.redirect(successUrl.href);
-              delete req.session.redirectUrl;
-            } else {
-              const successUrl = new URL(globalThis.frontendUrl)
-              successUrl.searchParams.set('login', 'success');
-              res.redirect(successUrl.href);
-            }
-            return;
-          } catch (error: any) {
-            if (error.message.startsWith("The token has no 'webid' claim")) {
-              req.session.workaroundActive = "create_web_id";
-              await globalThis.oidcService.login(res.locals.session!, (url: string) => {
-                // Todo: workaround for adding scopes to OAuth flow, should be provided by Inrupt SDK.
-                const loginUrl = new URL(url);
-                let scope = loginUrl.searchParams.get('scope');
-                if (scope)
-                  scope += " rrn";
-                else
-                  scope = "rrn";
-                loginUrl.searchParams.set('scope', scope);
-
-                res.redirect(loginUrl.href);
-              });
-              return; // Login redirects the user away from the application.
-            }
-
-            throw error;
-          }
-        } else if (req.session.workaroundActive === "create_web_id") {
-          const solidSession = JSON.parse((await globalThis.solidStorage.get(`solidClientAuthenticationUser:${req.session.solidSid}`))!);
-          const codeVerifier = solidSession.codeVerifier
-          const data = await globalThis.oidcService.getToken(req.query.code as string, codeVerifier, req.query.state as string)
-          const idToken = data.id_token;
-          await globalThis.athumiService.provisionWebId(idToken);
-          delete req.session.workaroundActive;
-          await globalThis.oidcService.login(res.locals.session!, (url: string) => {
-            // In this case also switch identity to refresh the session to include the provided web id.
-            // Todo: workaround for adding scopes to OAuth flow, should be provided by Inrupt SDK.
-            const loginUrl =  new URL(url);
-            let scope = loginUrl.searchParams.get('scope');
-            if(scope)
-              scope += " rrn";
-            else
-              scope = "rrn";
-            loginUrl.searchParams.set('scope', scope);
-
-            // Static string to switch identity, see https://vlaamseoverheid.atlassian.net/wiki/spaces/IKPubliek/pages/6336381158/Wisselen+van+account+doelgroepen
-            loginUrl.searchParams.set('login_hint', 'eyJzd2l0Y2hfaWQiOiB0cnVlfQ==');
-
-            res.redirect(loginUrl.href);
-          });
-        } else if(req.session.workaroundActive == 'delete_pod') {
-
-        } else if(req.session.workaroundActive == 'save_tokens') {
-          delete req.session.workaroundActive;
-          const solidSession = JSON.parse((await globalThis.solidStorage.get(`solidClientAuthenticationUser:${req.session.solidSid}`))!);
-          const codeVerifier = solidSession.codeVerifier
-          const data = await globalThis.oidcService.getToken(req.query.code as string, codeVerifier, req.query.state as string)
-          const idToken = data.id_token;
-          const accessToken = data.access_token;
-          // @ts-ignore
-          req.session.tokens = {idToken, accessToken};
-          const redirectUrl = new URL(globalThis.frontendLoginUrl.href);
-          redirectUrl.searchParams.set('save_tokens', 'success');
-          res.redirect(redirectUrl.href);
-        }
+        const flow = getLoginFlow(req.session);
+        log.debug(`Handling incoming redirect for login flow [${flow.state}].`);
+        await loginFlowHandlers[flow.state](req, res);
       } catch (error) {
+        services.metrics.logins.inc({result: "failure"});
+        if (error instanceof LoginFlowError) {
+          log.warn(error.message);
+          endLoginFlow(req.session);
+          const errorUrl = new URL(config.frontendUrl);
+          errorUrl.searchParams.set("login", "failed");
+          errorUrl.searchParams.set("reason", error.reason);
+          res.redirect(errorUrl.href);
+          return;
+        }
+
         // A general error catcher which will, in turn, call the ExpressJS error handler.
         next(error);
       }
     }
   );
 }
+
+/**
+ * Completes a regular login with the Solid session. When the token lacks a 'webid' claim, meaning the pod and WebID
+ * don't exist yet, the flow moves to `create_web_id` and the user is sent to the OIDC provider again. A profile that
+ * doesn't provision WebIDs fails the login with the reason `web_id_missing` instead.
+ */
+async function completeLogin(req: Request, res: Response, config: AppConfig, services: ServiceContainer): Promise<void> {
+  const fullUrl = incomingRedirectUrl(req, config);
+
+  try {
+    log.debug(`Handling incoming redirect for URL [${fullUrl}], checking if web id is present.`);
+    await res.locals.session!.handleIncomingRedirect(fullUrl);
+  } catch (error: any) {
+    if (error.message.startsWith("The token has no 'webid' claim")) {
+      const provider = flowIdentityProvider(req, config);
+      if (!provider.provisionWebId)
+        throw new LoginFlowError(`The token of identity provider [${provider.name}] has no WebID and it doesn't provision WebIDs`, "web_id_missing");
+      transitionLoginFlow(req.session, "create_web_id");
+      await redirectToLogin(services, provider, res.locals.session!, res);
+      return; // Login redirects the user away from the application.
+    }
+
+    throw error;
+  }
+
+  const flow = getLoginFlow(req.session);
+  endLoginFlow(req.session);
+
+  if (!res.locals.session || !res.locals.session.info.isLoggedIn) {
+    services.metrics.logins.inc({result: "failure"});
+    const errorUrl = new URL(config.frontendUrl);
+    errorUrl.searchParams.set("login", "failed");
+    res.redirect(errorUrl.href);
+    return;
+  }
+
+  services.metrics.logins.inc({result: "success"});
+  req.session.webId = res.locals.session.info.webId;
+  req.session.tokenExpiresAt = res.locals.session.info.expirationDate;
+  req.session.identityProvider = flow.provider ?? config.identityProviders[0].name;
+  const successUrl = allowedRedirectOrDefault(flow.redirectUrl, config.redirectAllowlist, config.frontendUrl);
+  successUrl.searchParams.set('login', 'success');
+  res.redirect(successUrl.href);
+}
+
+/**
+ * Deletes the account of the user after re-authenticating: all active access grants owned by the user are revoked, the
+ * WebID and pod are deleted at Athumi, and both the Solid and the express session are cleared.
+ * The redirect is handled by the Solid session, which verifies the ID token. The re-authenticated WebID of the session
+ * must be the WebID that started the deletion. The grants are read from every result page of the ESS query, see
+ * `queryActiveAccessGrants`, and revoked with the fetch of the session, as `/access-grant/revoke` does.
+ */
+async function deleteAccount(req: Request, res: Response, config: AppConfig, services: ServiceContainer): Promise<void> {
+  const resultUrl = new URL(config.frontendUrl);
+
+  try {
+    const flow = getLoginFlow(req.session);
+    const session = res.locals.session as Session | undefined;
+    if (!session)
+      throw new Error("No Solid session to re-authenticate");
+
+    let idToken: string | undefined;
+    session.events.on(EVENTS.NEW_TOKENS, (tokens) => idToken = tokens.idToken);
+    await session.handleIncomingRedirect(incomingRedirectUrl(req, config));
+
+    const webId = session.info.webId;
+    if (!session.info.isLoggedIn || !idToken || !flow.webId || webId !== flow.webId)
+      throw new Error(`Re-authenticated Web ID [${webId}] does not match Web ID [${flow.webId}] requesting the deletion`);
+
+    log.info(`Deleting account of Web ID [${flow.webId}].`);
+    const accessGrants = await queryActiveAccessGrants(flow.webId, {fetch: session.fetch, queryEndpoint: config.essVcQueryUrl});
+    for (const accessGrant of accessGrants) {
+      log.debug(`Revoking access grant [${accessGrant.id}].`);
+      await revokeAccessGrant(accessGrant.id, {fetch: session.fetch});
+    }
+
+    try {
+      await services.athumiAccountService.deleteWebId(idToken);
+      services.metrics.webIdProvisioning.inc({operation: "delete", result: "success"});
+    } catch (error) {
+      services.metrics.webIdProvisioning.inc({operation: "delete", result: "failure"});
+      throw error;
+    }
+    await session.logout();
+
+    resultUrl.searchParams.set("delete-account", "success");
+  } catch (error: any) {
+    log.error(`Deleting account failed: ${error.message}`);
+    endLoginFlow(req.session);
+    resultUrl.searchParams.set("delete-account", "failed");
+    res.redirect(resultUrl.href);
+    return;
+  }
+
+  await services.notificationRelay.removeSession(req.sessionID);
+  req.session.destroy((error) => {
+    if (error)
+      log.error(`Destroying the session after deleting the account failed: ${error.message}`);
+    res.clearCookie(SESSION_COOKIE_NAME);
+    res.redirect(resultUrl.href);
+  });
+}
+
+/**
+ * Returns the full URL of the redirect back from the OIDC provider, as the Solid session expects it.
+ */
+function incomingRedirectUrl(req: Request, config: AppConfig): string {
+  return `${config.backendUrl.protocol}//${req.get("host")}${req.originalUrl}`;
+}
+
+/**
+ * Returns the identity provider profile of the active login flow. A flow started before the profile was removed from
+ * the configuration falls back to the default profile.
+ */
+function flowIdentityProvider(req: Request, config: AppConfig): IdentityProviderConfig {
+  return findIdentityProvider(config.identityProviders, getLoginFlow(req.session).provider) ?? config.identityProviders[0];
+}
+
+/**
+ * Starts a login with the citizen OIDC provider of the profile for the given Solid session and redirects the user to it.
+ */
+async function redirectToLogin(services: ServiceContainer, provider: IdentityProviderConfig, session: Session, res: Response, options: { switchIdentity?: boolean; forceAuthentication?: boolean } = {}): Promise<void> {
+  await services.oidcServices[provider.name].login(session, (url: string) => {
+    res.redirect(buildLoginUrl(url, provider, options).href);
+  });
+}
+
+/**
+ * Exchanges the authorization code of the redirect for the OIDC tokens, using the code verifier kept by the Solid session.
+ */
+async function exchangeAuthorizationCode(req: Request, config: AppConfig, services: ServiceContainer) {
+  const solidSession = JSON.parse((await services.solidStorage.get(`solidClientAuthenticationUser:${req.session.solidSid}`))!);
+  const codeVerifier = solidSession.codeVerifier;
+  const query = req.query as OidcRedirectQuery;
+  return services.oidcServices[flowIdentityProvider(req, config).name].getToken(query.code!, codeVerifier, query.state!);
+}
@@ -0,0 +1,70 @@
+/**
+ * Defines the `/health`, `/ready` and `/metrics` endpoints used to monitor the back end.
+ *
+ * - `/health`: Liveness, answers as long as the process is up.
+ * - `/ready`: Readiness, runs the checks of `readiness-checks.ts` and answers 503 when one of them fails.
+ * - `/metrics`: The Prometheus metrics of `app-metrics.ts`.
+ *
+ * The endpoints don't use the session, so they are registered before the session middleware and probes don't create
+ * sessions or depend on the session store.
+ *
+ * @param {Express} app - The Express application instance on which the routes are mounted.
+ * @param {AppConfig} config - The configuration of the application.
+ * @param {ServiceContainer} services - The services and storage of the application.
+ */
+import { Express } from "express";
+import log from "loglevel";
+import { healthRoute, metricsRoute, ReadinessResponse, readyRoute } from "../schema/health-schema";
+import { createReadinessChecks, runReadinessChecks } from "../health/readiness-checks";
+import { AppConfig } from "../config/app-config";
+import { ServiceContainer } from "../container/service-container";
+
+export function healthEndpoint(app: Express, config: AppConfig, services: ServiceContainer) {
+  const readinessChecks = createReadinessChecks(config, services);
+
+  /**
+   * GET /health
+   *
+   * Responds with `{ "status": "up" }` as long as the process is running.
+   *
+   * @route {GET} /health
+   */
+  app.get(healthRoute.path, (req, res) => {
+    res.json({ status: "up" });
+  });
+
+  /**
+   * GET /ready
+   *
+   * Runs the readiness checks and responds with their results, with status 200 when all checks passed and 503 otherwise:
+   * ```
+   * { "status": "not_ready", "checks": { "sessionStore": { "status": "up" }, "ess": { "status": "down", "detail": "fetch failed" }, ... } }
+   * ```
+   *
+   * @route {GET} /ready
+   */
+  app.get(readyRoute.path, async (req, res, next) => {
+    try {
+      const report = await runReadinessChecks(readinessChecks);
+      if (!report.ready)
+        log.warn(`Readiness checks failed: ${JSON.stringify(report.checks)}`);
+
+      const response: ReadinessResponse = { status: report.ready ? "ready" : "not_ready", checks: report.checks };
+      res.status(report.ready ? 200 : 503).json(response);
+    } catch (error) {
+      // A general error catcher which will, in turn, call the ExpressJS error handler.
+      next(error);
+    }
+  });
+
+  /**
+   * GET /metrics
+   *
+   * Responds with the metrics in the Prometheus text exposition format.
+   *
+   * @route {GET} /metrics
+   */
+  app.get(metricsRoute.path, (req, res) => {
+    res.type("text/plain; version=0.0.4").send(services.metrics.registry.render());
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Defines the `/notifications/webhook` endpoint receiving the Solid notifications of the pod resources the sessions
+ * subscribed to, which `notification-relay.ts` relays to the `/session/events` streams of the sessions.
+ *
+ * The notification servers of the pods post to the endpoint without session or CSRF token, so it is registered before
+ * the session middleware, and only when `NOTIFICATIONS_ENABLED` is set. The random 256-bit token of the subscription in
+ * the webhook URL authenticates the notification: a notification with an unknown token is not relayed.
+ *
+ * @param {Express} app - The Express application instance on which the routes are mounted.
+ * @param {AppConfig} config - The configuration of the application.
+ * @param {ServiceContainer} services - The services and storage of the application.
+ */
+import express, { Express } from "express";
+import log from "loglevel";
+import { NotificationWebhookBody, NotificationWebhookQuery, notificationWebhookRoute } from "../schema/notification-schema";
+import { validateRequest } from "../middleware/validate-request";
+import { Problem } from "../error/problem";
+import { AppConfig } from "../config/app-config";
+import { ServiceContainer } from "../container/service-container";
+
+export function notificationEndpoint(app: Express, config: AppConfig, services: ServiceContainer) {
+
+  /**
+   * POST /notifications/webhook
+   *
+   * Relays a notification to the event streams of the session that subscribed to the resource.
+   *
+   * @route {POST} /notifications/webhook
+   *
+   * @query {string} subscription - The webhook token of the subscription, given in the webhook URL of the subscription.
+   * @body {Object} The Activity Streams notification, with the `type` of the change and the changed resource as `object`.
+   *
+   * @returns Status 202, or a `not-found` problem (404) when the subscription is unknown, so the notification server
+   *   can end the subscription.
+   */
+  app.post(notificationWebhookRoute.path, (req, res, next) => {
+    log.debug(`Endpoint POST /notifications/webhook called.`);
+    next();
+  }, express.json({ type: notificationWebhookRoute.bodyContentType, limit: config.upload.maxBodySize }),
+    validateRequest.bind({schema: notificationWebhookRoute.schema}), (req, res, next) => {
+    const {subscription} = req.query as NotificationWebhookQuery;
+    if (!services.notificationRelay.receive(subscription, req.body as NotificationWebhookBody)) {
+      next(new Problem("not-found", 404, "Subscription not found", `No subscription [${subscription}]`));
+      return;
+    }
+
+    res.sendStatus(202);
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Defines the `/openapi.json` and `/docs` routes describing the API of the back end.
+ *
+ * The OpenAPI document is generated once from the route definitions the endpoints are registered with, see
+ * `openapi-document.ts`. It can be used to generate a typed client for the We Are Demo Front-End.
+ *
+ * @param {Express} app - The Express application instance on which the routes are mounted.
+ * @param {AppConfig} config - The configuration of the application.
+ */
+import { Express } from "express";
+import log from "loglevel";
+import swaggerUi from "swagger-ui-express";
+import { generateOpenApiDocument } from "../openapi/openapi-document";
+import { authenticationRoutes } from "../schema/authentication-schema";
+import { podRoutes } from "../schema/pod-schema";
+import { sessionRoutes } from "../schema/session-schema";
+import { vcRoutes } from "../schema/vc-schema";
+import { healthRoutes } from "../schema/health-schema";
+import { auditRoutes } from "../schema/audit-schema";
+import { notificationRoutes } from "../schema/notification-schema";
+import { AppConfig } from "../config/app-config";
+
+export function openApiEndpoint(app: Express, config: AppConfig) {
+  const document = generateOpenApiDocument(
+    [...authenticationRoutes, ...sessionRoutes, ...vcRoutes, ...podRoutes, ...auditRoutes, ...notificationRoutes, ...healthRoutes],
+    config.backendUrl
+  );
+
+  /**
+   * GET /openapi.json
+   *
+   * Returns the OpenAPI 3 document of the back end.
+   *
+   * @route {GET} /openapi.json
+   */
+  app.get("/openapi.json", (req, res) => {
+    log.debug(`Endpoint GET /openapi.json called.`);
+    res.json(document);
+  });
+
+  /**
+   * GET /docs
+   *
+   * Serves interactive documentation of the OpenAPI document.
+   *
+   * @route {GET} /docs
+   */
+  app.use("/docs", swaggerUi.serve, swaggerUi.setup(document));
+}
@@ -1,54 +1,164 @@
 /**
- * Defines the `/read` and `/write` endpoints for interacting with resources in a Solid Pod.
+ * Defines the endpoints for interacting with resources in a Solid Pod.
  *
- * The `podEndpoint` function sets up two endpoints for reading and writing data to a Solid Pod:
- * - `/read`: Retrieves a resource from the Solid Pod and returns it as Turtle.
+ * The `podEndpoint` function sets up endpoints for reading and writing data to a Solid Pod:
+ * - `/read`: Retrieves a resource from the Solid Pod and returns it in the media type negotiated with the `Accept` header.
+ * - `/read-file`: Streams a file from the Solid Pod with its content type, length and ETag, supporting `Range` requests.
  * - `/write`: Writes a new resource to the Solid Pod.
+ * - `/write-file`: Streams a file to the Solid Pod.
+ * - `/write-files`: Streams the files of a `multipart/form-data` upload to a container of the Solid Pod.
+ * - `/container`: Lists (`GET`) or creates (`POST`) a container.
+ * - `/resource`: Deletes a resource or an empty container (`DELETE`), or partially updates an RDF resource (`PATCH`).
+ * - `/resource/copy`, `/resource/move`: Copies or moves a resource within the pods covered by the access grant.
+ * - `/resource/metadata`: Retrieves the type, content type, size, modified date and ETag of a resource.
  *
- * Both endpoints make use of session management, access grant validation, and resource management functionality.
+ * Files are streamed between the client and the pod without buffering them in memory. Uploads are limited by
+ * `UPLOAD_MAX_FILE_SIZE` and `UPLOAD_MAX_FILES`, and a missing or generic content type is detected from the content
+ * and name of the file, see `detect-content-type.ts`.
+ *
+ * Reads and writes are counted in the pod request metrics, see `recordPodRequest`, and appended to the audit trail,
+ * see `recordAudit`.
+ * All endpoints make use of request validation (routes declared in `pod-schema.ts`), session management, access grant validation, and resource management functionality.
+ * The access grant is selected from the grants on the session: the grant covering the requested resource, or the
+ * grant passed in the optional `accessGrantId` query parameter.
  *
  * @param {Express} app - The Express application instance on which the routes are mounted.
+ * @param {AppConfig} config - The configuration of the back end, holding the upload limits.
+ * @param {ServiceContainer} services - The services and storage of the application.
  */
-import { solidDatasetAsTurtle } from "@inrupt/solid-client";
-import { Express } from "express";
+import { Express, Request, Response } from "express";
 import log from "loglevel";
+import path from "path";
+import { pipeline as pipelineStreams, Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { ReadableStream } from "stream/web";
 import {
   validateAccessGrant,
   getSession,
   getResource,
-  writeFile, getFile, writeResource
+  writeResource
 } from "@vito-nv/weare-expressjs"
+import { selectAccessGrant } from "../middleware/select-access-grant";
+import { validateRequest } from "../middleware/validate-request";
+import {
+  copyResourceRoute,
+  CopyResourceQuery,
+  createContainerRoute,
+  CreateContainerQuery,
+  deleteResourceRoute,
+  DeleteResourceQuery,
+  listContainerRoute,
+  ListContainerQuery,
+  moveResourceRoute,
+  MoveResourceQuery,
+  PATCH_MEDIA_TYPES,
+  patchResourceRoute,
+  PatchResourceBody,
+  PatchResourceQuery,
+  ReadFileQuery,
+  readFileRoute,
+  readRoute,
+  resourceMetadataRoute,
+  ResourceMetadataQuery,
+  WriteFileQuery,
+  writeFileRoute,
+  WriteFilesQuery,
+  writeFilesRoute,
+  writeRoute
+} from "../schema/pod-schema";
+import { ServiceContainer } from "../container/service-container";
+import { AppConfig } from "../config/app-config";
+import { Problem } from "../error/problem";
+import { recordPodRequest } from "../middleware/record-metrics";
+import { recordAudit } from "../middleware/record-audit";
+import { negotiateContentType, notAcceptable, requireContentType } from "../middleware/negotiate-content-type";
+import { jsonPatchToSparqlUpdate } from "../rdf/json-patch";
+import { DEFAULT_CONTENT_TYPE, withContentType } from "../file/detect-content-type";
+import { limitSize, payloadTooLarge, sliceBytes } from "../file/byte-streams";
+import { parseMultipart } from "../file/multipart-parser";
+import { RDF_MEDIA_TYPES, serializeDataset } from "../rdf/rdf-serializer";
+
+export default function podEndpoint(app: Express, config: AppConfig, services: ServiceContainer) {
+
+  /**
+   * Streams a file to the pod, limited to `UPLOAD_MAX_FILE_SIZE` and with a detected content type when the client
+   * declares none.
+   */
+  async function writeFileStream(fileUrl: string, content: Readable, declaredContentType: string | undefined, accessGrant: string): Promise<string> {
+    let streamError: Error | undefined;
+    // A client dropping the upload or a file exceeding the limit destroys the limited stream and so aborts the upload
+    // to the pod. When the pod fails first, the stream closes prematurely, which is not the cause.
+    const limited = pipelineStreams(content, limitSize(config.upload.maxFileSize), (error) => {
+      if (error && (error as NodeJS.ErrnoException).code !== "ERR_STREAM_PREMATURE_CLOSE")
+        streamError = error;
+    });
+
+    const { contentType, stream } = await withContentType(limited, declaredContentType, path.basename(new URL(fileUrl).pathname));
+    try {
+      await services.podResourceService.writeFile(fileUrl, stream, contentType, accessGrant);
+    } catch (error) {
+      throw streamError ?? error;
+    }
+    return contentType;
+  }
 
-export default function podEndpoint(app: Express) {
 
   /**
    * GET /read
    *
    * This endpoint reads a resource from the Solid Pod based on the provided `resourceUrl` query parameter.
-   * The resource is retrieved and returned in Turtle format.
+   * The media type is negotiated with the `Accept` header before the resource is retrieved: Turtle (the default),
+   * JSON-LD, N-Triples, N-Quads or a simplified JSON view of the Things, see `rdf-serializer.ts`.
    *
    * @route {GET} /read
    *
    * @query {string} resourceUrl - The URL of the resource to read from the Solid Pod.
+   * @query {string} accessGrantId - (Optional) The id of the access grant on the session to use.
    *
-   * @returns {string} The resource in Turtle format.
+   * @returns {string} The resource in the negotiated media type, or a `not-acceptable` problem (406) when none of the media types is accepted.
    *
    * @throws {Error} If an error occurs during resource retrieval, it will be passed to the Express error handler.
    */
   // @ts-ignore
-  app.get("/read", async (req, res, next) => {
+  app.get(readRoute.path, async (req, res, next) => {
     log.debug("Endpoint '/read' called");
     next();
-  }, getSession.bind({ storage: globalThis.solidStorage }), validateAccessGrant, getResource.bind({ resourceUrlParameterKey: "resourceUrl", podService: globalThis.podService }), async (req, res, next) => {
-    const turtle = await solidDatasetAsTurtle(res.locals.solidDataset);
-    res.send(turtle);
+  }, recordPodRequest.bind({ metrics: services.metrics, operation: "read" }), recordAudit.bind({ auditStore: services.auditStore, action: "read", resourceUrlParameterKeys: ["resourceUrl"] }), validateRequest.bind({ schema: readRoute.schema }), negotiateContentType.bind({ mediaTypes: RDF_MEDIA_TYPES }), getSession.bind({ storage: services.solidStorage }), selectAccessGrant.bind({ resourceUrlParameterKey: "resourceUrl" }), validateAccessGrant, getResource.bind({ resourceUrlParameterKey: "resourceUrl", podService: services.podService }), async (req, res, next) => {
+    try {
+      const body = await serializeDataset(res.locals.solidDataset, res.locals.mediaType);
+      res.type(res.locals.mediaType).send(body);
+    } catch (error) {
+      // A general error catcher which will, in turn, call the ExpressJS error handler.
+      next(error);
+    }
   });
 
-  app.get("/read-file", async (req, res, next) => {
-    log.debug("Endpoint '/read' called");
+  /**
+   * GET /read-file
+   *
+   * This endpoint streams a file from the Solid Pod based on the provided `fileUrl` query parameter.
+   * The file is returned with the content type, length and ETag of the pod. A request with a matching `If-None-Match`
+   * header gets a 304 without body. A request with a single byte range in its `Range` header gets that part of the file
+   * (206), or a `range-not-satisfiable` problem (416) when the range lies outside the file.
+   *
+   * @route {GET} /read-file
+   *
+   * @query {string} fileUrl - The URL of the file to read from the Solid Pod.
+   * @query {string} accessGrantId - (Optional) The id of the access grant on the session to use.
+   *
+   * @returns {Stream} The file, or a `not-acceptable` problem (406) when the `Accept` header excludes its content type.
+   */
+  app.get(readFileRoute.path, async (req, res, next) => {
+    log.debug("Endpoint '/read-file' called");
     next();
-  }, getSession.bind({ storage: globalThis.solidStorage }), validateAccessGrant, getFile.bind({ fileUrlParameterKey: "fileUrl", podService: globalThis.podService }), async (req, res, next) => {
-    res.send(res.locals.payload);
+  }, recordPodRequest.bind({ metrics: services.metrics, operation: "read" }), recordAudit.bind({ auditStore: services.auditStore, action: "read-file", resourceUrlParameterKeys: ["fileUrl"] }), validateRequest.bind({ schema: readFileRoute.schema }), getSession.bind({ storage: services.solidStorage }), selectAccessGrant.bind({ resourceUrlParameterKey: "fileUrl" }), validateAccessGrant, async (req, res, next) => {
+    try {
+      const { fileUrl } = req.query as ReadFileQuery;
+      await sendFile(req, res, await services.podResourceService.readFile(fileUrl, req.session.accessGrant!));
+    } catch (error) {
+      // A general error catcher which will, in turn, call the ExpressJS error handler.
+      next(error);
+    }
   });
 
   /**
@@ -60,6 +170,7 @@ export default function podEndpoint(app: Express) {
    * @route {POST} /write
    *
    * @query {string} resourceUrl - The URL of the resource to write to the Solid Pod.
+   * @query {string} accessGrantId - (Optional) The id of the access grant on the session to use.
    *
    * @body {any} The data to write to the resource. This should be in RDF/turtle format.
    *
@@ -67,19 +178,345 @@ export default function podEndpoint(app: Express) {
    *
    * @throws {Error} If an error occurs during resource creation, it will be passed to the Express error handler.
    */
-  app.post("/write", async (req, res, next) => {
+  app.post(writeRoute.path, async (req, res, next) => {
     log.debug("Endpoint '/write' called");
     next();
-  }, getSession.bind({ storage: globalThis.solidStorage }), validateAccessGrant, writeResource.bind({ resourceUrlParameterKey: "resourceUrl", podService: globalThis.podService! }), async (req, res, next) => {
+  }, recordPodRequest.bind({ metrics: services.metrics, operation: "write" }), recordAudit.bind({ auditStore: services.auditStore, action: "write", resourceUrlParameterKeys: ["resourceUrl"] }), validateRequest.bind({ schema: writeRoute.schema }), getSession.bind({ storage: services.solidStorage }), selectAccessGrant.bind({ resourceUrlParameterKey: "resourceUrl" }), validateAccessGrant, writeResource.bind({ resourceUrlParameterKey: "resourceUrl", podService: services.podService }), async (req, res, next) => {
     res.send("Resource created");
   });
 
-  // @ts-ignore
-  app.post("/write-file", async (req, res, next) => {
+  /**
+   * POST /write-file
+   *
+   * This endpoint streams the request body to a file in the Solid Pod, based on the provided `fileUrl` query parameter.
+   * The file gets the content type of the request; when it is missing or `application/octet-stream`, the content type
+   * is detected from the content and name of the file.
+   *
+   * @route {POST} /write-file
+   *
+   * @query {string} fileUrl - The URL of the file to write to the Solid Pod.
+   * @query {string} accessGrantId - (Optional) The id of the access grant on the session to use.
+   *
+   * @body {Stream} The content of the file, at most `UPLOAD_MAX_FILE_SIZE` bytes.
+   *
+   * @returns {string} A success message confirming file creation, or a `payload-too-large` problem (413).
+   */
+  app.post(writeFileRoute.path, async (req, res, next) => {
     log.debug("Endpoint '/write-file' called");
     next();
-  }, getSession.bind({ storage: globalThis.solidStorage }), validateAccessGrant, writeFile.bind({ fileUrlParameterKey: "fileUrl", podService: globalThis.podService! }), async (req, res, next) => {
-    res.send("File created");
+  }, recordPodRequest.bind({ metrics: services.metrics, operation: "write" }), recordAudit.bind({ auditStore: services.auditStore, action: "write-file", resourceUrlParameterKeys: ["fileUrl"] }), validateRequest.bind({ schema: writeFileRoute.schema }), getSession.bind({ storage: services.solidStorage }), selectAccessGrant.bind({ resourceUrlParameterKey: "fileUrl" }), validateAccessGrant, async (req, res, next) => {
+    try {
+      const { fileUrl } = req.query as WriteFileQuery;
+      if (Number(req.get("Content-Length") ?? 0) > config.upload.maxFileSize)
+        throw payloadTooLarge(config.upload.maxFileSize);
+
+      const contentType = await writeFileStream(fileUrl, req, req.get("Content-Type"), req.session.accessGrant!);
+      res.set("Content-Location", fileUrl).type("text/plain").send(`File created as ${contentType}`);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /write-files
+   *
+   * This endpoint streams the files of a `multipart/form-data` upload to a container in the Solid Pod, one after the
+   * other. Every file is written under its file name in the container, with the content type of its part or a
+   * detected content type.
+   *
+   * @route {POST} /write-files
+   *
+   * @query {string} containerUrl - The URL of the container to write the files to, ending with a slash.
+   * @query {string} accessGrantId - (Optional) The id of the access grant on the session to use.
+   *
+   * @body {multipart/form-data} At most `UPLOAD_MAX_FILES` files of at most `UPLOAD_MAX_FILE_SIZE` bytes each.
+   *
+   * @returns {object} The URL and content type of every written file.
+   */
+  app.post(writeFilesRoute.path, async (req, res, next) => {
+    log.debug("Endpoint '/write-files' called");
+    next();
+  }, recordPodRequest.bind({ metrics: services.metrics, operation: "write" }), recordAudit.bind({ auditStore: services.auditStore, action: "write-files", resourceUrlParameterKeys: ["containerUrl"] }), validateRequest.bind({ schema: writeFilesRoute.schema }), getSession.bind({ storage: services.solidStorage }), selectAccessGrant.bind({ resourceUrlParameterKey: "containerUrl" }), validateAccessGrant, async (req, res, next) => {
+    try {
+      const { containerUrl } = req.query as WriteFilesQuery;
+      if (!req.is("multipart/form-data"))
+        throw new Problem("unsupported-media-type", 415, "Unsupported media type", "The request body must be multipart/form-data", { supported: ["multipart/form-data"] });
+
+      const files: { url: string; contentType: string }[] = [];
+      // The audit trail lists every file written to the container, also when a later file fails.
+      const audited = { resources: [containerUrl] };
+      res.locals.audit = audited;
+      await parseMultipart(req, req.get("Content-Type")!, {
+        maxFiles: config.upload.maxFiles,
+        onFile: async (file) => {
+          const url = fileUrlInContainer(containerUrl, file.fileName);
+          audited.resources.push(url);
+          files.push({ url, contentType: await writeFileStream(url, file.stream, file.contentType, req.session.accessGrant!) });
+        },
+      });
+      res.status(201).json({ files });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /container
+   *
+   * This endpoint lists the resources in a container of the Solid Pod, with their type (`container` or `resource`) and,
+   * when the pod describes them, their size in bytes and modified date.
+   *
+   * @route {GET} /container
+   *
+   * @query {string} containerUrl - The URL of the container, ending with a slash.
+   * @query {string} accessGrantId - (Optional) The id of the access grant on the session to use.
+   *
+   * @returns {ContainerListing} The URL of the container and the resources it contains.
+   */
+  app.get(listContainerRoute.path, async (req, res, next) => {
+    log.debug("Endpoint '/container' called");
+    next();
+  }, recordPodRequest.bind({ metrics: services.metrics, operation: "read" }), recordAudit.bind({ auditStore: services.auditStore, action: "list-container", resourceUrlParameterKeys: ["containerUrl"] }), validateRequest.bind({ schema: listContainerRoute.schema }), getSession.bind({ storage: services.solidStorage }), selectAccessGrant.bind({ resourceUrlParameterKey: "containerUrl" }), validateAccessGrant, async (req, res, next) => {
+    try {
+      const { containerUrl } = req.query as ListContainerQuery;
+      res.json(await services.podResourceService.listContainer(containerUrl, req.session.accessGrant!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /container
+   *
+   * This endpoint creates a container in the Solid Pod, including its missing parent containers.
+   *
+   * @route {POST} /container
+   *
+   * @query {string} containerUrl - The URL of the container, ending with a slash.
+   * @query {string} accessGrantId - (Optional) The id of the access grant on the session to use.
+   *
+   * @returns {string} A success message confirming the container creation.
+   */
+  app.post(createContainerRoute.path, async (req, res, next) => {
+    log.debug("Endpoint '/container' called");
+    next();
+  }, recordPodRequest.bind({ metrics: services.metrics, operation: "write" }), recordAudit.bind({ auditStore: services.auditStore, action: "create-container", resourceUrlParameterKeys: ["containerUrl"] }), validateRequest.bind({ schema: createContainerRoute.schema }), getSession.bind({ storage: services.solidStorage }), selectAccessGrant.bind({ resourceUrlParameterKey: "containerUrl" }), validateAccessGrant, async (req, res, next) => {
+    try {
+      const { containerUrl } = req.query as CreateContainerQuery;
+      await services.podResourceService.createContainer(containerUrl, req.session.accessGrant!);
+      res.status(201).send("Container created");
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /resource
+   *
+   * This endpoint deletes a resource or an empty container from the Solid Pod. Deleting a container that still holds
+   * resources results in a `pod-conflict` problem (409).
+   *
+   * @route {DELETE} /resource
+   *
+   * @query {string} resourceUrl - The URL of the resource or container to delete.
+   * @query {string} accessGrantId - (Optional) The id of the access grant on the session to use.
+   *
+   * @returns {string} A success message confirming the deletion.
+   */
+  app.delete(deleteResourceRoute.path, async (req, res, next) => {
+    log.debug("Endpoint '/resource' called");
+    next();
+  }, recordPodRequest.bind({ metrics: services.metrics, operation: "write" }), recordAudit.bind({ auditStore: services.auditStore, action: "delete", resourceUrlParameterKeys: ["resourceUrl"] }), validateRequest.bind({ schema: deleteResourceRoute.schema }), getSession.bind({ storage: services.solidStorage }), selectAccessGrant.bind({ resourceUrlParameterKey: "resourceUrl" }), validateAccessGrant, async (req, res, next) => {
+    try {
+      const { resourceUrl } = req.query as DeleteResourceQuery;
+      await services.podResourceService.deleteResource(resourceUrl, req.session.accessGrant!);
+      res.send("Resource deleted");
+    } catch (error) {
+      next(error);
+    }
   });
 
+  /**
+   * PATCH /resource
+   *
+   * This endpoint partially updates an RDF resource in the Solid Pod, without the read-modify-write of `/write`. The body
+   * is one of:
+   * - `application/sparql-update`: A SPARQL Update, applied by the pod.
+   * - `text/n3`: An N3 Patch, applied by the pod.
+   * - `application/json`: The values to add and remove per Thing, converted into a SPARQL Update, see `json-patch.ts`.
+   *
+   * With an `If-Match` header, the patch is only applied when the resource still has that ETag (see
+   * `/resource/metadata`). Otherwise a `pod-precondition-failed` problem (412) is returned, and the client can read the
+   * resource again and retry.
+   *
+   * @route {PATCH} /resource
+   *
+   * @query {string} resourceUrl - The URL of the resource to update.
+   * @query {string} accessGrantId - (Optional) The id of the access grant on the session to use.
+   *
+   * @header {string} If-Match - (Optional) The ETag the resource must have.
+   *
+   * @returns {string} A success message confirming the update, with the new ETag of the resource in the `ETag` header.
+   */
+  app.patch(patchResourceRoute.path, async (req, res, next) => {
+    log.debug("Endpoint '/resource' called");
+    next();
+  }, recordPodRequest.bind({ metrics: services.metrics, operation: "write" }), recordAudit.bind({ auditStore: services.auditStore, action: "patch", resourceUrlParameterKeys: ["resourceUrl"] }), requireContentType.bind({ mediaTypes: PATCH_MEDIA_TYPES }), validateRequest.bind({ schema: patchResourceRoute.schema }), getSession.bind({ storage: services.solidStorage }), selectAccessGrant.bind({ resourceUrlParameterKey: "resourceUrl" }), validateAccessGrant, async (req, res, next) => {
+    try {
+      const { resourceUrl } = req.query as PatchResourceQuery;
+      const body = req.body as PatchResourceBody;
+      const patch = typeof body === "string"
+        ? { contentType: req.is("text/n3") ? "text/n3" : "application/sparql-update", body }
+        : { contentType: "application/sparql-update", body: jsonPatchToSparqlUpdate(body) };
+
+      const etag = await services.podResourceService.patchResource(resourceUrl, patch, req.session.accessGrant!, req.get("If-Match"));
+      if (etag)
+        res.set("ETag", etag);
+      res.send("Resource updated");
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /resource/copy
+   *
+   * This endpoint copies a resource to a destination in the Solid Pod, overwriting an existing destination. The access
+   * grant must cover both the resource and the destination.
+   *
+   * @route {POST} /resource/copy
+   *
+   * @query {string} resourceUrl - The URL of the resource to copy.
+   * @query {string} destinationUrl - The URL of the copy.
+   * @query {string} accessGrantId - (Optional) The id of the access grant on the session to use.
+   *
+   * @returns {string} A success message confirming the copy.
+   */
+  app.post(copyResourceRoute.path, async (req, res, next) => {
+    log.debug("Endpoint '/resource/copy' called");
+    next();
+  }, recordPodRequest.bind({ metrics: services.metrics, operation: "write" }), recordAudit.bind({ auditStore: services.auditStore, action: "copy", resourceUrlParameterKeys: ["resourceUrl", "destinationUrl"] }), validateRequest.bind({ schema: copyResourceRoute.schema }), getSession.bind({ storage: services.solidStorage }), selectAccessGrant.bind({ resourceUrlParameterKey: "resourceUrl", destinationUrlParameterKey: "destinationUrl" }), validateAccessGrant, async (req, res, next) => {
+    try {
+      const { resourceUrl, destinationUrl } = req.query as CopyResourceQuery;
+      await services.podResourceService.copyResource(resourceUrl, destinationUrl, req.session.accessGrant!);
+      res.status(201).location(destinationUrl).send("Resource copied");
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /resource/move
+   *
+   * This endpoint moves a resource to a destination in the Solid Pod: the resource is copied and then deleted. The
+   * access grant must cover both the resource and the destination. When the delete fails, the copy is kept and a
+   * `pod-move-incomplete` problem (502) tells that the resource still exists.
+   *
+   * @route {POST} /resource/move
+   *
+   * @query {string} resourceUrl - The URL of the resource to move.
+   * @query {string} destinationUrl - The new URL of the resource.
+   * @query {string} accessGrantId - (Optional) The id of the access grant on the session to use.
+   *
+   * @returns {string} A success message confirming the move.
+   */
+  app.post(moveResourceRoute.path, async (req, res, next) => {
+    log.debug("Endpoint '/resource/move' called");
+    next();
+  }, recordPodRequest.bind({ metrics: services.metrics, operation: "write" }), recordAudit.bind({ auditStore: services.auditStore, action: "move", resourceUrlParameterKeys: ["resourceUrl", "destinationUrl"] }), validateRequest.bind({ schema: moveResourceRoute.schema }), getSession.bind({ storage: services.solidStorage }), selectAccessGrant.bind({ resourceUrlParameterKey: "resourceUrl", destinationUrlParameterKey: "destinationUrl" }), validateAccessGrant, async (req, res, next) => {
+    try {
+      const { resourceUrl, destinationUrl } = req.query as MoveResourceQuery;
+      await services.podResourceService.moveResource(resourceUrl, destinationUrl, req.session.accessGrant!);
+      res.status(201).location(destinationUrl).send("Resource moved");
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /resource/metadata
+   *
+   * This endpoint reads the metadata of a resource in the Solid Pod without its content: its type, content type,
+   * size, modified date and ETag, as far as the pod provides them.
+   *
+   * @route {GET} /resource/metadata
+   *
+   * @query {string} resourceUrl - The URL of the resource.
+   * @query {string} accessGrantId - (Optional) The id of the access grant on the session to use.
+   *
+   * @returns {ResourceMetadata} The metadata of the resource.
+   */
+  app.get(resourceMetadataRoute.path, async (req, res, next) => {
+    log.debug("Endpoint '/resource/metadata' called");
+    next();
+  }, recordPodRequest.bind({ metrics: services.metrics, operation: "read" }), recordAudit.bind({ auditStore: services.auditStore, action: "read-metadata", resourceUrlParameterKeys: ["resourceUrl"] }), validateRequest.bind({ schema: resourceMetadataRoute.schema }), getSession.bind({ storage: services.solidStorage }), selectAccessGrant.bind({ resourceUrlParameterKey: "resourceUrl" }), validateAccessGrant, async (req, res, next) => {
+    try {
+      const { resourceUrl } = req.query as ResourceMetadataQuery;
+      res.json(await services.podResourceService.getMetadata(resourceUrl, req.session.accessGrant!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+}
+
+/**
+ * Streams a file read from the pod with its content type, length and ETag. Answers 304 when the ETag matches the
+ * `If-None-Match` header of the request, and serves a single byte range of the `Range` header (unless an `If-Range`
+ * header holds another ETag) with 206.
+ */
+async function sendFile(req: Request, res: Response, response: globalThis.Response): Promise<void> {
+  const contentType = response.headers.get("Content-Type") ?? DEFAULT_CONTENT_TYPE;
+  const contentLength = response.headers.get("Content-Length");
+  const size = contentLength !== null ? Number(contentLength) : undefined;
+  const etag = response.headers.get("ETag");
+
+  res.vary("Accept");
+  if (!req.accepts(contentType.split(";")[0].trim())) {
+    await response.body?.cancel();
+    throw notAcceptable([contentType]);
+  }
+
+  res.set({ "Content-Type": contentType, "Accept-Ranges": "bytes" });
+  if (etag)
+    res.set("ETag", etag);
+  if (response.headers.get("Last-Modified"))
+    res.set("Last-Modified", response.headers.get("Last-Modified")!);
+
+  if (req.fresh) {
+    await response.body?.cancel();
+    res.status(304).end();
+    return;
+  }
+
+  const body = response.body ? Readable.fromWeb(response.body as ReadableStream<Uint8Array>) : Readable.from([]);
+  const ifRange = req.get("If-Range");
+  const ranges = size !== undefined && req.get("Range") && (!ifRange || ifRange === etag) ? req.range(size, { combine: true }) : undefined;
+  if (ranges === -1) {
+    body.destroy();
+    res.set("Content-Range", `bytes */${size}`);
+    throw new Problem("range-not-satisfiable", 416, "Range not satisfiable", `The file has ${size} bytes`);
+  }
+
+  // Malformed ranges and multiple ranges are answered with the complete file.
+  if (Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1) {
+    const [{ start, end }] = ranges;
+    res.status(206).set({ "Content-Range": `bytes ${start}-${end}/${size}`, "Content-Length": String(end - start + 1) });
+    await pipeline(body, sliceBytes(start, end), res);
+    return;
+  }
+
+  if (size !== undefined)
+    res.set("Content-Length", String(size));
+  await pipeline(body, res);
+}
+
+/**
+ * Returns the URL of an uploaded file in the container, keeping only the last segment of its file name.
+ */
+function fileUrlInContainer(containerUrl: string, fileName: string): string {
+  const name = fileName.split(/[\\/]/).at(-1)!;
+  if (!name || name === "." || name === "..")
+    throw new Problem("bad-request", 400, "Bad request", `Invalid file name [${fileName}]`);
+  return new URL(encodeURIComponent(name), containerUrl).href;
 }
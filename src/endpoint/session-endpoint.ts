@@ -1,19 +1,37 @@
 /**
- * Defines the `/session-information` route to provide details about the user's session.
+ * Defines the `/session-information` route to provide details about the user's session, and the `/session/keep-alive`
+ * and `/session/events` routes keeping the session alive and warning the frontend before it expires.
  *
- * The `sessionEndpoint` function sets up a single endpoint to return information about the current
+ * The `sessionEndpoint` function sets up the endpoint returning information about the current
  * session, including whether the user is logged in, the session expiration date, WebID, pods, and
- * any access grants associated with the session.
+ * the active access grants associated with the session.
  *
  * @param {Express} app - The Express application instance on which the route is mounted.
+ * @param {AppConfig} config - The configuration of the application.
+ * @param {ServiceContainer} services - The services and storage of the application.
  */
 
 import { Express } from "express";
+import { SessionData } from "express-session";
 import log from "loglevel";
-import {getPodsOptional, getSessionOptional} from "@vito-nv/weare-expressjs";
+import {getPodsOptional, getSession, getSessionOptional} from "@vito-nv/weare-expressjs";
 import { AccessGrant } from "@inrupt/solid-client-access-grants";
+import { getSessionAccessGrants } from "../vc/session-access-grants";
+import {
+  keepAliveRoute,
+  sessionEventsRoute,
+  SessionExpiryResponse,
+  SessionInformation,
+  sessionInformationRoute
+} from "../schema/session-schema";
+import { validateRequest } from "../middleware/validate-request";
+import { EventStream } from "../event/event-stream";
+import { getSessionExpiry, streamSessionExpiry } from "../event/session-expiry";
+import { getCsrfToken } from "../middleware/verify-csrf-token";
+import { AppConfig } from "../config/app-config";
+import { ServiceContainer } from "../container/service-container";
 
-export function sessionEndpoint(app: Express) {
+export function sessionEndpoint(app: Express, config: AppConfig, services: ServiceContainer) {
 
   /**
    * GET /session-information
@@ -23,7 +41,7 @@ export function sessionEndpoint(app: Express) {
    * - The expiration date of the session.
    * - The user's WebID (if logged in).
    * - The user's associated pods (if any).
-   * - Any access grants associated with the session.
+   * - The active access grants associated with the session, expired grants are removed.
    *
    * The session data is retrieved using `getSessionOptional` and `getPodsOptional` middleware, allowing
    * the retrieval of session and pod data without requiring that the user is logged in.
@@ -33,30 +51,25 @@ export function sessionEndpoint(app: Express) {
    * @returns {Object} A JSON object containing session information:
    *   - isLoggedIn: {boolean} Whether the user is logged in.
    *   - expirationDate: {string} The expiration date of the session (if logged in).
-   *   - accessGrantId: {string} The ID of the access grant associated with the session (if available).
-   *   - accessGrantExpirationDate: {string} The expiration date of the access grant (if available).
+   *   - accessGrantId: {string} The ID of the access grant last used by the session (if available).
+   *   - accessGrantExpirationDate: {string} The expiration date of the access grant last used (if available).
+   *   - accessGrants: {Object[]} The active access grants of the session, with their id, expiration date, resources and purposes.
    *   - webId: {string} The user's WebID (if available).
+   *   - identityProvider: {string} The name of the identity provider profile the user logged in with (if logged in).
    *   - pods: {string[]} An array of pod URLs associated with the user (if available).
+   *   - tokens: {Object} The OIDC tokens captured by the `save_tokens` flow (if available and `SESSION_EXPOSE_TOKENS` is `true`).
+   *   - csrfToken: {string} The token to send in the `X-CSRF-Token` header of state-changing requests (if logged in).
+   *
+   * The shape of the response is declared in `session-schema.ts`.
    *
    * @throws {Error} Any error that occurs during the retrieval of session data is passed to the Express error handler.
    */
-  app.get("/session-information", (req, res, next) => {
+  app.get(sessionInformationRoute.path, (req, res, next) => {
       log.debug(`Endpoint GET /session-information called.`);
       next();
-    }, getSessionOptional.bind({storage: globalThis.solidStorage}), getPodsOptional, async (req, res, next) => {
+    }, getSessionOptional.bind({storage: services.solidStorage}), getPodsOptional, async (req, res, next) => {
       try {
-        const sessionInformation: {
-          isLoggedIn: boolean;
-          expirationDate?: string;
-          accessGrantId?: string;
-          accessGrantExpirationDate?: string;
-          webId?: string;
-          pods?: string[];
-          tokens?: {
-            accessToken: any;
-            idToken: any;
-          }
-        } = { isLoggedIn: false };
+        const sessionInformation: SessionInformation = { isLoggedIn: false, accessGrants: [] };
 
         if (res.locals.session) {
           sessionInformation.isLoggedIn = res.locals.session.info.isLoggedIn;
@@ -72,8 +85,15 @@ export function sessionEndpoint(app: Express) {
           if(res.locals.pods) {
             sessionInformation.pods = res.locals.pods;
           }
+
+          if(sessionInformation.isLoggedIn && req.session.identityProvider) {
+            sessionInformation.identityProvider = req.session.identityProvider;
+          }
         }
 
+        sessionInformation.accessGrants = getSessionAccessGrants(req.session)
+          .map(({id, expirationDate, resources, purposes}) => ({id, expirationDate, resources, purposes}));
+
         if(req.session.accessGrant) {
           const accessGrant = JSON.parse(req.session.accessGrant!) as AccessGrant;
           if (accessGrant.id) {
@@ -85,12 +105,14 @@ export function sessionEndpoint(app: Express) {
           sessionInformation.accessGrantExpirationDate = req.session.accessGrantExpirationDate;
         }
 
-        // @ts-ignore
-        if(req.session.tokens) {
-          // @ts-ignore
+        if(req.session.tokens && config.session.exposeTokens) {
           sessionInformation.tokens = req.session.tokens;
         }
 
+        if(sessionInformation.isLoggedIn) {
+          sessionInformation.csrfToken = getCsrfToken(req.session);
+        }
+
         res.json(sessionInformation);
       } catch (error: any) {
         // A general error catcher which will, in turn, call the ExpressJS error handler.
@@ -98,4 +120,72 @@ export function sessionEndpoint(app: Express) {
       }
     }
   );
+  /**
+   * POST /session/keep-alive
+   *
+   * Keeps the session of the logged in user alive: the request extends the session by the idle timeout, and the
+   * tokens of the Solid session are refreshed by `refreshSolidSession` when they are about to expire. The frontend
+   * calls it when `/session/events` warns that the session expires.
+   *
+   * @route {POST} /session/keep-alive
+   *
+   * @returns {Object} When the session expires, in `expirationDate`, and the expiration dates of its active access grants.
+   *
+   * @throws {Error} Any error that occurs while keeping the session alive is passed to the Express error handler.
+   */
+  app.post(keepAliveRoute.path, (req, res, next) => {
+      log.debug(`Endpoint POST /session/keep-alive called.`);
+      next();
+    }, validateRequest.bind({schema: keepAliveRoute.schema}), getSession.bind({storage: services.solidStorage}), (req, res, next) => {
+      try {
+        req.session.touch();
+        getSessionAccessGrants(req.session);
+        const expiry = getSessionExpiry(req.session, config.session.maxAge);
+        const response: SessionExpiryResponse = {
+          expirationDate: expiry?.expiresAt !== undefined ? new Date(expiry.expiresAt).toISOString() : undefined,
+          accessGrants: (expiry?.accessGrants ?? []).map(({id, expiresAt}) => ({id, expirationDate: new Date(expiresAt).toISOString()})),
+        };
+        res.json(response);
+      } catch (error: any) {
+        // A general error catcher which will, in turn, call the ExpressJS error handler.
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /session/events
+   *
+   * Streams Server-Sent Events to the logged in user, warning before the session or an access grant expires and
+   * telling when they have expired, see `session-expiry.ts`. The stream reads the session from the session store
+   * every `SESSION_EVENTS_INTERVAL`, and ends once the session expired.
+   *
+   * With `NOTIFICATIONS_ENABLED`, the stream also relays the changes of the resources of the active access grants of
+   * the session as `resource-changed` events, see `notification-relay.ts`.
+   *
+   * @route {GET} /session/events
+   *
+   * @throws {Error} Any error that occurs before the stream started is passed to the Express error handler.
+   */
+  app.get(sessionEventsRoute.path, (req, res, next) => {
+      log.debug(`Endpoint GET /session/events called.`);
+      next();
+    }, validateRequest.bind({schema: sessionEventsRoute.schema}), getSession.bind({storage: services.solidStorage}), (req, res, next) => {
+      try {
+        const loadSession = () => new Promise<SessionData | null | undefined>((resolve, reject) =>
+          req.sessionStore.get(req.sessionID, (error, session) => error ? reject(error) : resolve(session)));
+        const stream = new EventStream(res);
+        streamSessionExpiry(stream, loadSession, {
+          maxAge: config.session.maxAge,
+          warning: config.session.expiryWarning,
+          interval: config.session.eventsInterval,
+        });
+        if (config.notifications.enabled)
+          services.notificationRelay.listen(req.sessionID, stream, getSessionAccessGrants(req.session));
+      } catch (error: any) {
+        // A general error catcher which will, in turn, call the ExpressJS error handler.
+        next(error);
+      }
+    }
+  );
 }
@@ -2,27 +2,76 @@
  * This module defines routes for handling access requests and access grants using Verifiable Credentials (VC).
  *
  * The `vcEndpoint` function sets up the following endpoints:
- * 1. `/access-request`: Allows clients to request access credentials based on provided data.
- * 2. `/access-grant`: Retrieves an access grant and stores it in the session for future use.
+ * 1. `POST /access-request`: Allows clients to request access credentials based on provided data.
+ * 2. `GET /access-request`: Lists the access requests of the logged-in user, with filters and pagination.
+ * 3. `POST /access-request/approve` and `POST /access-request/deny`: Approve or deny a pending access request on behalf of the logged-in owner.
+ * 4. `POST /access-grant`: Retrieves an access grant and adds it to the active grants of the session for future use.
+ * 5. `GET /access-grant`: Lists the access grants of the logged-in user, with filters and pagination.
+ * 6. `POST /access-grant/revoke`: Revokes an access grant on behalf of the logged-in owner.
+ * 7. `DELETE /access-grant`: Removes an access grant from the active grants of the session.
  *
- * The function integrates with session management, logging, and error handling.
- * It uses the global `vcService` to interact with the VC backend, and `solidStorage` for session storage.
+ * The function integrates with request validation, session management, logging, and error handling.
+ * Issuing an access request and activating an access grant are appended to the audit trail, see `recordAudit`.
+ * The notification relay subscribes to and unsubscribes from the resources of the grants added to and removed from the
+ * session, see `notification-relay.ts`.
+ * The routes and their request schemas are declared in `vc-schema.ts`.
+ * It uses the `vcService` of the service container to interact with the VC backend, and `solidStorage` for session storage.
+ * Actions on behalf of the owner and the listings use the authenticated fetch of the user's Solid session.
  *
  * @param {Express} app - The Express application instance on which the routes are mounted.
+ * @param {AppConfig} config - The configuration of the application.
+ * @param {ServiceContainer} services - The services and storage of the application.
  */
 
-import {Express} from "express";
+import {Express, NextFunction, Response} from "express";
 import log from "loglevel";
 import { getSession, getPods } from "@vito-nv/weare-expressjs";
-import httpContext from "express-http-context";
+import { getCorrelationId } from "../middleware/correlation-id";
+import {
+  approveAccessRequest,
+  denyAccessRequest,
+  revokeAccessGrant
+} from "@inrupt/solid-client-access-grants";
+import {
+  normalizeAccessCredential,
+  queryAccessCredentials,
+  toAccessCredentialQuery
+} from "../vc/access-credential";
+import { addSessionAccessGrant, removeSessionAccessGrant } from "../vc/session-access-grants";
+import { validateRequest } from "../middleware/validate-request";
+import { AuditDetails, recordAudit } from "../middleware/record-audit";
+import {
+  ApproveAccessRequestBody,
+  approveAccessRequestRoute,
+  DenyAccessRequestBody,
+  denyAccessRequestRoute,
+  IssueAccessRequestBody,
+  issueAccessRequestRoute,
+  ListAccessGrantsQuery,
+  listAccessGrantsRoute,
+  ListAccessRequestsQuery,
+  listAccessRequestsRoute,
+  RemoveAccessGrantQuery,
+  removeAccessGrantRoute,
+  RevokeAccessGrantBody,
+  revokeAccessGrantRoute,
+  SetAccessGrantBody,
+  setAccessGrantRoute
+} from "../schema/vc-schema";
+import { AppConfig } from "../config/app-config";
+import { ServiceContainer } from "../container/service-container";
 
-export default function vcEndpoint(app: Express) {
-    app.post('/access-request', (req, res, next) => {
+export default function vcEndpoint(app: Express, config: AppConfig, services: ServiceContainer) {
+    app.post(issueAccessRequestRoute.path, (req, res, next) => {
       log.debug(`Calling POST /access-request`);
       next();
-    }, getSession.bind({storage: globalThis.solidStorage}), getPods, async (req, res, next) => {
+    }, recordAudit.bind({auditStore: services.auditStore, action: "issue-access-request"}), validateRequest.bind({schema: issueAccessRequestRoute.schema}), getSession.bind({storage: services.solidStorage}), getPods, async (req, res, next) => {
       try {
-        const accessRequest = await globalThis.vcService.issueAccessRequest(req.body.data, req.body.webId, req.body.purpose, new Date(req.body.expirationDate), req.body.access, httpContext.get('correlationId'))
+        const body = req.body as IssueAccessRequestBody;
+        const audit: AuditDetails = {owner: body.webId, resources: [body.data].flat(), purposes: [body.purpose].flat()};
+        res.locals.audit = audit;
+        const accessRequest = await services.vcService.issueAccessRequest(body.data, body.webId, body.purpose, body.expirationDate, body.access, getCorrelationId())
+        audit.accessRequestId = accessRequest.id;
 
         res.status(201).send(accessRequest);
       } catch(error) {
@@ -31,15 +80,93 @@ export default function vcEndpoint(app: Express) {
       }
     });
 
-  app.post('/access-grant', (req, res, next) => {
-    log.debug(`Calling GET /access-grant`);
+  /**
+   * GET /access-request
+   *
+   * Lists the access requests visible to the logged-in user.
+   *
+   * @query {string} status - (Optional) One of `Pending`, `Denied`, `Granted`, `Canceled` or `Expired`.
+   * @query {string} purpose - (Optional) The URL of the purpose of the requests.
+   * @query {string} resource - (Optional) The URL of a resource featured in the requests.
+   * @query {string} issuedWithin - (Optional) One of `P1D`, `P7D`, `P1M` or `P3M`.
+   * @query {string} expiresBefore - (Optional) Only requests expiring before this date.
+   * @query {string} expiresAfter - (Optional) Only requests expiring after this date.
+   * @query {string} page - (Optional) A page token from the `pagination` of a previous response.
+   * @query {number} pageSize - (Optional) The number of requests per page, at most 100. With an expiry filter, a page may
+   *   hold fewer or more requests, see `queryAccessCredentials`.
+   *
+   * @returns {Object} A JSON object with the normalized `items` and the `pagination` page tokens.
+   */
+  app.get(listAccessRequestsRoute.path, (req, res, next) => {
+    log.debug(`Calling GET /access-request`);
+    next();
+  }, validateRequest.bind({schema: listAccessRequestsRoute.schema}), getSession.bind({storage: services.solidStorage}), async (req, res, next) => {
+    await listAccessCredentials("SolidAccessRequest", req.query as ListAccessRequestsQuery, config.essVcQueryUrl, res, next);
+  });
+
+  /**
+   * POST /access-request/approve
+   *
+   * Approves a pending access request on behalf of the logged-in owner, issuing an access grant.
+   *
+   * @body {string} accessRequestId - The URL of the access request.
+   * @body {string} expirationDate - (Optional) Overrides the expiration date of the issued access grant.
+   *
+   * @returns {Object} The normalized access grant.
+   */
+  app.post(approveAccessRequestRoute.path, (req, res, next) => {
+    log.debug(`Calling POST /access-request/approve`);
+    next();
+  }, validateRequest.bind({schema: approveAccessRequestRoute.schema}), getSession.bind({storage: services.solidStorage}), async (req, res, next) => {
+    try {
+      const {accessRequestId, expirationDate} = req.body as ApproveAccessRequestBody;
+      const overrides = expirationDate ? {expirationDate} : {};
+      const accessGrant = await approveAccessRequest(accessRequestId, overrides, {fetch: res.locals.session.fetch, returnLegacyJsonld: false});
+      log.debug(`Access request [${accessRequestId}] approved by Web ID [${res.locals.session.info.webId}].`);
+
+      res.status(201).json(normalizeAccessCredential(accessGrant));
+    } catch(error) {
+      // A general error catcher which will, in turn, call the ExpressJS error handler.
+      next(error);
+    }
+  });
+
+  /**
+   * POST /access-request/deny
+   *
+   * Denies a pending access request on behalf of the logged-in owner.
+   *
+   * @body {string} accessRequestId - The URL of the access request.
+   *
+   * @returns {Object} The normalized access denial.
+   */
+  app.post(denyAccessRequestRoute.path, (req, res, next) => {
+    log.debug(`Calling POST /access-request/deny`);
+    next();
+  }, validateRequest.bind({schema: denyAccessRequestRoute.schema}), getSession.bind({storage: services.solidStorage}), async (req, res, next) => {
+    try {
+      const {accessRequestId} = req.body as DenyAccessRequestBody;
+      const accessDenial = await denyAccessRequest(accessRequestId, {fetch: res.locals.session.fetch, returnLegacyJsonld: false});
+      log.debug(`Access request [${accessRequestId}] denied by Web ID [${res.locals.session.info.webId}].`);
+
+      res.status(201).json(normalizeAccessCredential(accessDenial));
+    } catch(error) {
+      // A general error catcher which will, in turn, call the ExpressJS error handler.
+      next(error);
+    }
+  });
+
+  app.post(setAccessGrantRoute.path, (req, res, next) => {
+    log.debug(`Calling POST /access-grant`);
     next();
-  }, getSession.bind({storage: globalThis.solidStorage}), async (req, res, next) => {
+  }, recordAudit.bind({auditStore: services.auditStore, action: "activate-access-grant"}), validateRequest.bind({schema: setAccessGrantRoute.schema}), getSession.bind({storage: services.solidStorage}), async (req, res, next) => {
     try {
-      const accessGrantId = req.body.accessGrantId as string;
-      const accessGrant = await globalThis.vcService.fetchAccessGrant(accessGrantId, httpContext.get('correlationId'))
-      req.session.accessGrant = JSON.stringify(accessGrant);
-      req.session.accessGrantExpirationDate = new Date(accessGrant.expirationDate!).toISOString();
+      const {accessGrantId} = req.body as SetAccessGrantBody;
+      res.locals.audit = {accessGrantId} satisfies AuditDetails;
+      const accessGrant = await services.vcService.fetchAccessGrant(accessGrantId, getCorrelationId())
+      const sessionAccessGrant = addSessionAccessGrant(req.session, accessGrant);
+      services.notificationRelay.addAccessGrant(req.sessionID, sessionAccessGrant);
+      res.locals.audit = {accessGrantId, owner: sessionAccessGrant.owner, resources: sessionAccessGrant.resources, purposes: sessionAccessGrant.purposes} satisfies AuditDetails;
 
       res.status(200).send('Access grant set on session');
     } catch(error) {
@@ -48,16 +175,92 @@ export default function vcEndpoint(app: Express) {
     }
   });
 
-  app.get('/access-grant', (req, res, next) => {
+  /**
+   * GET /access-grant
+   *
+   * Lists the access grants visible to the logged-in user.
+   *
+   * @query {string} status - (Optional) One of `Active`, `Expired` or `Revoked`.
+   * @query {string} purpose - (Optional) The URL of the purpose of the grants.
+   * @query {string} resource - (Optional) The URL of a resource featured in the grants.
+   * @query {string} issuedWithin - (Optional) One of `P1D`, `P7D`, `P1M` or `P3M`.
+   * @query {string} expiresBefore - (Optional) Only grants expiring before this date.
+   * @query {string} expiresAfter - (Optional) Only grants expiring after this date.
+   * @query {string} page - (Optional) A page token from the `pagination` of a previous response.
+   * @query {number} pageSize - (Optional) The number of grants per page, at most 100. With an expiry filter, a page may
+   *   hold fewer or more grants, see `queryAccessCredentials`.
+   *
+   * @returns {Object} A JSON object with the normalized `items` and the `pagination` page tokens.
+   */
+  app.get(listAccessGrantsRoute.path, (req, res, next) => {
     log.debug(`Calling GET /access-grant`);
     next();
-  }, getSession.bind({storage: globalThis.solidStorage}), async (req, res, next) => {
+  }, validateRequest.bind({schema: listAccessGrantsRoute.schema}), getSession.bind({storage: services.solidStorage}), async (req, res, next) => {
+    await listAccessCredentials("SolidAccessGrant", req.query as ListAccessGrantsQuery, config.essVcQueryUrl, res, next);
+  });
+
+  /**
+   * POST /access-grant/revoke
+   *
+   * Revokes an access grant on behalf of the logged-in owner. When the grant is active on the session, it is removed from the session.
+   *
+   * @body {string} accessGrantId - The URL of the access grant.
+   */
+  app.post(revokeAccessGrantRoute.path, (req, res, next) => {
+    log.debug(`Calling POST /access-grant/revoke`);
+    next();
+  }, validateRequest.bind({schema: revokeAccessGrantRoute.schema}), getSession.bind({storage: services.solidStorage}), async (req, res, next) => {
+    try {
+      const {accessGrantId} = req.body as RevokeAccessGrantBody;
+      await revokeAccessGrant(accessGrantId, {fetch: res.locals.session.fetch});
+      log.debug(`Access grant [${accessGrantId}] revoked by Web ID [${res.locals.session.info.webId}].`);
+      removeSessionAccessGrant(req.session, accessGrantId);
+      await services.notificationRelay.removeAccessGrant(req.sessionID, accessGrantId);
+
+      res.status(200).send('Access grant revoked');
+    } catch(error) {
+      // A general error catcher which will, in turn, call the ExpressJS error handler.
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /access-grant
+   *
+   * Removes an access grant from the active grants of the session, without revoking it.
+   *
+   * @query {string} accessGrantId - The id of the access grant.
+   */
+  app.delete(removeAccessGrantRoute.path, (req, res, next) => {
+    log.debug(`Calling DELETE /access-grant`);
+    next();
+  }, validateRequest.bind({schema: removeAccessGrantRoute.schema}), getSession.bind({storage: services.solidStorage}), async (req, res, next) => {
     try {
-      const accessGrants = await globalThis.vcService.fetchAccessGrants(httpContext.get('correlationId'), {ownerWebId: res.locals.session.info.webId});
-      res.status(200).send(JSON.stringify(accessGrants));
+      const {accessGrantId} = req.query as RemoveAccessGrantQuery;
+      removeSessionAccessGrant(req.session, accessGrantId);
+      await services.notificationRelay.removeAccessGrant(req.sessionID, accessGrantId);
+
+      res.status(200).send('Access grant removed from session');
     } catch(error) {
       // A general error catcher which will, in turn, call the ExpressJS error handler.
       next(error);
     }
   });
 }
+
+/**
+ * Queries ESS for the access credentials of the given type matching the query parameters, using the authenticated
+ * fetch of the user's Solid session, and responds with a normalized page, see `queryAccessCredentials` for the expiry
+ * filters.
+ */
+async function listAccessCredentials(type: "SolidAccessGrant" | "SolidAccessRequest", parameters: ListAccessGrantsQuery | ListAccessRequestsQuery, queryEndpoint: URL, res: Response, next: NextFunction) {
+  try {
+    const credentialQuery = toAccessCredentialQuery(type, parameters);
+    const page = await queryAccessCredentials(credentialQuery, {fetch: res.locals.session.fetch, queryEndpoint});
+
+    res.status(200).json(page);
+  } catch(error) {
+    // A general error catcher which will, in turn, call the ExpressJS error handler.
+    next(error);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Express handlers turning errors and unknown routes into RFC 7807 `application/problem+json` responses.
+ *
+ * - `notFoundHandler`: Registered after all routes, answers unknown routes with a 404 problem.
+ * - `errorHandler`: Registered last, maps any error passed to `next()` to a problem:
+ *   - `Problem` errors are returned as is. A `too-many-requests` problem gets a `Retry-After` header.
+ *   - Errors of pod requests (the Inrupt `FetchError` and `PodRequestError`) are mapped on their status: 401, 403,
+ *     404, 409 and 412 from the pod become `pod-unauthorized`, `pod-forbidden`, `pod-not-found`, `pod-conflict` and
+ *     `pod-precondition-failed`. Their detail is fixed, the response of the pod is only logged.
+ *   - Errors of the OIDC client (`OPError`, `RPError`) become `authentication-failed`.
+ *   - Errors about an expired access grant become `access-grant-expired`.
+ *   - Errors of Express itself with a 4xx status (e.g. a malformed JSON body) keep their status, a body exceeding
+ *     `BODY_MAX_SIZE` becomes `payload-too-large`.
+ *   - Everything else becomes a 500 `internal-error`, without exposing the underlying message.
+ *
+ * The correlation id of the request is added to every problem, and the underlying cause is logged.
+ */
+import { FetchError } from "@inrupt/solid-client";
+import { NextFunction, Request, Response } from "express";
+import log from "loglevel";
+import { Problem } from "./problem";
+import { getCorrelationId } from "../middleware/correlation-id";
+import { PodRequestError } from "../service/pod-resource-service";
+
+export function notFoundHandler(req: Request, res: Response, next: NextFunction) {
+  next(new Problem("not-found", 404, "Not found", `No route matches [${req.method} ${req.path}]`));
+}
+
+export function errorHandler(error: any, req: Request, res: Response, next: NextFunction) {
+  const problem = toProblem(error);
+  const correlationId = getCorrelationId();
+
+  if (problem.status >= 500)
+    log.error(`[${req.method} ${req.path}] failed with [${problem.type}]:`, problem.cause ?? error);
+  else
+    log.warn(`[${req.method} ${req.path}] failed with [${problem.type}]: ${describe(problem.cause ?? error)}`);
+
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  if (problem.type === "too-many-requests" && typeof problem.extensions.retryAfter === "number")
+    res.set("Retry-After", String(problem.extensions.retryAfter));
+
+  res.status(problem.status)
+    .type("application/problem+json")
+    .send(JSON.stringify(problem.toDetails(req.originalUrl, correlationId)));
+}
+
+function toProblem(error: any): Problem {
+  if (error instanceof Problem)
+    return error;
+
+  if (error?.name === "OPError" || error?.name === "RPError")
+    return new Problem("authentication-failed", 401, "Authentication failed", error.error_description ?? error.message, {}, error);
+
+  if (typeof error?.message === "string" && /access grant.*expired/i.test(error.message))
+    return new Problem("access-grant-expired", 403, "Access grant expired", error.message, {}, error);
+
+  if (error?.type === "entity.too.large")
+    return new Problem("payload-too-large", 413, "Payload too large", `The request body exceeds the limit of ${error.limit} bytes`, { limit: error.limit }, error);
+
+  // Errors created by Express and its body parsers (http-errors) tell whether their message can be exposed.
+  if (typeof error?.expose === "boolean" && typeof error.status === "number" && error.status >= 400 && error.status < 500)
+    return new Problem("bad-request", error.status, "Bad request", error.expose ? error.message : undefined, {}, error);
+
+  if (error instanceof PodRequestError || error instanceof FetchError) {
+    switch (error.statusCode) {
+      case 401:
+        return new Problem("pod-unauthorized", 401, "Not authorized to access the pod", "The pod refused the credentials of the request", {}, error);
+      case 403:
+        return new Problem("pod-forbidden", 403, "Access to the pod resource is forbidden", "The access grant doesn't allow this access to the pod resource", {}, error);
+      case 404:
+        return new Problem("pod-not-found", 404, "Pod resource not found", "The pod resource doesn't exist", {}, error);
+      case 409:
+        return new Problem("pod-conflict", 409, "Conflict with the state of the pod resource", "The request conflicts with the current state of the pod resource", {}, error);
+      case 412:
+        return new Problem("pod-precondition-failed", 412, "The pod resource was changed", "The pod resource no longer matches the precondition of the request", {}, error);
+      default:
+        return new Problem("pod-request-failed", 502, "Request to the pod failed", `The pod responded with status [${error.statusCode}]`, {}, error);
+    }
+  }
+
+  return new Problem("internal-error", 500, "Internal server error", undefined, {}, error);
+}
+
+function describe(error: any): string {
+  return error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+}
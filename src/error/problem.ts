@@ -0,0 +1,82 @@
+/**
+ * Defines the RFC 7807 problem details returned by the back end for every error response.
+ *
+ * Handlers and middleware signal an error by passing a `Problem` (or any other error) to `next()`. The error handler
+ * in `error-handler.ts` turns it into an `application/problem+json` response:
+ * ```
+ * {
+ *   "type": "urn:weare-demo:problem:access-grant-expired",
+ *   "title": "Access grant expired",
+ *   "status": 403,
+ *   "detail": "Access grant [https://vc.example/123] expired",
+ *   "instance": "/read",
+ *   "correlationId": "b4d1..."
+ * }
+ * ```
+ */
+
+export type ProblemType =
+  | "not-found"
+  | "validation-failed"
+  | "access-grant-missing"
+  | "access-grant-expired"
+  | "pod-unauthorized"
+  | "pod-forbidden"
+  | "pod-not-found"
+  | "pod-conflict"
+  | "pod-precondition-failed"
+  | "pod-request-failed"
+  | "pod-move-incomplete"
+  | "authentication-failed"
+  | "csrf-token-invalid"
+  | "not-acceptable"
+  | "unsupported-media-type"
+  | "payload-too-large"
+  | "range-not-satisfiable"
+  | "too-many-requests"
+  | "bad-request"
+  | "internal-error";
+
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  correlationId?: string;
+  [extension: string]: unknown;
+}
+
+export function problemTypeUri(type: ProblemType): string {
+  return `urn:weare-demo:problem:${type}`;
+}
+
+/**
+ * An error carrying the problem details to respond with. Additional members (e.g. the failing fields of a validation
+ * problem) are passed as extensions.
+ */
+export class Problem extends Error {
+  constructor(
+    readonly type: ProblemType,
+    readonly status: number,
+    readonly title: string,
+    readonly detail?: string,
+    readonly extensions: { [extension: string]: unknown } = {},
+    readonly cause?: unknown
+  ) {
+    super(detail ?? title);
+    this.name = "Problem";
+  }
+
+  toDetails(instance?: string, correlationId?: string): ProblemDetails {
+    return {
+      ...this.extensions,
+      type: problemTypeUri(this.type),
+      title: this.title,
+      status: this.status,
+      detail: this.detail,
+      instance,
+      correlationId,
+    };
+  }
+}
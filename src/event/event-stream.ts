@@ -0,0 +1,76 @@
+/**
+ * A Server-Sent Events stream to the frontend, written to the response of a long-lived `GET` request:
+ * ```
+ * const stream = new EventStream(res);
+ * stream.send("session-expiring", { expirationDate: "2025-01-01T12:00:00.000Z" });
+ * stream.onClose(() => clearInterval(timer));
+ * ```
+ * The frontend reads it with an `EventSource` (with `withCredentials`, so the session cookie is sent) and listens to
+ * the event types it is interested in. Every event carries its data as JSON.
+ *
+ * A comment is written every `HEARTBEAT_INTERVAL` milliseconds, so proxies don't close an idle connection. The stream
+ * ends when the client disconnects or `close` is called.
+ */
+import { Response } from "express";
+
+const HEARTBEAT_INTERVAL = 15000;
+
+/**
+ * The delay in milliseconds after which an `EventSource` reconnects when the connection is lost.
+ */
+const RETRY_DELAY = 5000;
+
+export class EventStream {
+  private readonly closeListeners: (() => void)[] = [];
+  private readonly heartbeat: NodeJS.Timeout;
+  private ended = false;
+
+  constructor(private readonly res: Response) {
+    res.status(200);
+    res.set({
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      // Disables the response buffering of nginx, which would hold back the events.
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_DELAY}\n\n`);
+
+    this.heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL);
+    res.on("close", () => this.end());
+  }
+
+  get closed(): boolean {
+    return this.ended;
+  }
+
+  send(event: string, data: unknown): void {
+    if (!this.ended)
+      this.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Calls the listener once the stream has ended, or immediately when it already has.
+   */
+  onClose(listener: () => void): void {
+    if (this.ended)
+      listener();
+    else
+      this.closeListeners.push(listener);
+  }
+
+  close(): void {
+    if (!this.ended)
+      this.res.end();
+    this.end();
+  }
+
+  private end(): void {
+    if (this.ended)
+      return;
+    this.ended = true;
+    clearInterval(this.heartbeat);
+    this.closeListeners.splice(0).forEach((listener) => listener());
+  }
+}
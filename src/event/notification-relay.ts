@@ -0,0 +1,219 @@
+/**
+ * Relays the Solid Notifications of the pod resources a session has an access grant for to the event streams of the
+ * session, as `resource-changed` events:
+ * ```
+ * event: resource-changed
+ * data: {"resource":"https://pod.example/citizen/data/profile.ttl","type":"Update","published":"2025-01-01T12:00:00Z","accessGrantId":"https://vc.example/vc/8d3e..."}
+ * ```
+ *
+ * Once a session listens with `listen`, the relay subscribes to the resources of every active access grant of the
+ * session, see `notification-service.ts`, and to the resources of the grants added later. Every subscription gets a
+ * webhook URL of its own, with a random 256-bit token as id, which the notification server posts the notifications to
+ * and `receive` relays them from. A notification posted with any other token is not relayed.
+ *
+ * The subscriptions are removed:
+ * - When the access grant is removed from the session or revoked, with `removeAccessGrant`.
+ * - When the session logs out or is deleted, with `removeSession`, which also closes its event streams.
+ * - When the last event stream of the session closes, as nobody listens anymore. The frontend listens again when it
+ *   reconnects.
+ * - When the access grant expires. The subscription ends at the expiry of the grant at the notification server as
+ *   well, and the expired grant can't authorize its deletion anymore, so it is only forgotten.
+ *
+ * The subscriptions are kept in memory: the notifications must reach the instance that holds the event stream.
+ */
+import crypto from "crypto";
+import log from "loglevel";
+import { EventStream } from "./event-stream";
+import { NotificationChannel, NotificationService } from "../service/notification-service";
+import { SessionAccessGrant } from "../vc/session-access-grants";
+
+/**
+ * The longest delay `setTimeout` supports, about 24.8 days.
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * A notification of the Solid Notifications Protocol, an Activity Streams activity.
+ */
+export interface ResourceNotification {
+  type: string;
+  /**
+   * The changed resource.
+   */
+  object: string;
+  /**
+   * The container a resource was added to or removed from.
+   */
+  target?: string;
+  published?: string;
+}
+
+export interface ResourceChangedEvent {
+  resource: string;
+  type: string;
+  published?: string;
+  accessGrantId: string;
+}
+
+interface Subscription {
+  webhookId: string;
+  sessionId: string;
+  accessGrant: SessionAccessGrant;
+  topic: string;
+  channel?: NotificationChannel;
+}
+
+interface SessionListeners {
+  streams: Set<EventStream>;
+  subscriptions: Map<string, Subscription[]>;
+  expiryTimers: Map<string, NodeJS.Timeout>;
+}
+
+export class NotificationRelay {
+  private readonly sessions = new Map<string, SessionListeners>();
+  private readonly webhooks = new Map<string, Subscription>();
+
+  /**
+   * @param notificationService Subscribes to the notifications of the pods.
+   * @param webhookUrl The URL of the webhook endpoint, the id of a subscription is added as `subscription` parameter.
+   */
+  constructor(private readonly notificationService: NotificationService, private readonly webhookUrl: URL) {
+  }
+
+  /**
+   * Relays the notifications of the resources of the access grants to the stream, until it closes.
+   */
+  listen(sessionId: string, stream: EventStream, accessGrants: SessionAccessGrant[]): void {
+    let listeners = this.sessions.get(sessionId);
+    if (!listeners) {
+      listeners = { streams: new Set(), subscriptions: new Map(), expiryTimers: new Map() };
+      this.sessions.set(sessionId, listeners);
+    }
+    listeners.streams.add(stream);
+    stream.onClose(() => this.removeStream(sessionId, stream));
+
+    accessGrants.forEach((accessGrant) => this.addAccessGrant(sessionId, accessGrant));
+  }
+
+  /**
+   * Subscribes to the resources of an access grant added to the session, when the session listens.
+   */
+  addAccessGrant(sessionId: string, accessGrant: SessionAccessGrant): void {
+    const listeners = this.sessions.get(sessionId);
+    if (!listeners || listeners.subscriptions.has(accessGrant.id))
+      return;
+
+    const subscriptions = accessGrant.resources.map((topic) =>
+      ({ webhookId: crypto.randomBytes(32).toString("base64url"), sessionId, accessGrant, topic }));
+    listeners.subscriptions.set(accessGrant.id, subscriptions);
+    this.scheduleExpiry(listeners, sessionId, accessGrant);
+    subscriptions.forEach((subscription) => {
+      this.webhooks.set(subscription.webhookId, subscription);
+      void this.subscribe(subscription);
+    });
+  }
+
+  /**
+   * Unsubscribes from the resources of an access grant removed from the session.
+   */
+  async removeAccessGrant(sessionId: string, accessGrantId: string): Promise<void> {
+    const listeners = this.sessions.get(sessionId);
+    if (!listeners)
+      return;
+
+    clearTimeout(listeners.expiryTimers.get(accessGrantId));
+    listeners.expiryTimers.delete(accessGrantId);
+    const subscriptions = listeners.subscriptions.get(accessGrantId) ?? [];
+    listeners.subscriptions.delete(accessGrantId);
+    await Promise.all(subscriptions.map((subscription) => this.unsubscribe(subscription)));
+  }
+
+  /**
+   * Unsubscribes from all resources of a session that logged out, and closes its event streams.
+   */
+  async removeSession(sessionId: string): Promise<void> {
+    const listeners = this.sessions.get(sessionId);
+    if (!listeners)
+      return;
+
+    this.sessions.delete(sessionId);
+    listeners.expiryTimers.forEach((timer) => clearTimeout(timer));
+    listeners.streams.forEach((stream) => stream.close());
+    await Promise.all([...listeners.subscriptions.values()].flat().map((subscription) => this.unsubscribe(subscription)));
+  }
+
+  /**
+   * Relays a notification posted to the webhook of a subscription. Returns `false` when the subscription is unknown,
+   * e.g. because it was removed or was made by another instance.
+   */
+  receive(webhookId: string, notification: ResourceNotification): boolean {
+    const subscription = this.webhooks.get(webhookId);
+    if (!subscription)
+      return false;
+
+    if (notification.object !== subscription.topic && notification.target !== subscription.topic) {
+      log.warn(`Ignoring a notification about [${notification.object}] for the subscription to [${subscription.topic}].`);
+      return true;
+    }
+
+    const event: ResourceChangedEvent = {
+      resource: notification.object,
+      type: notification.type,
+      published: notification.published,
+      accessGrantId: subscription.accessGrant.id,
+    };
+    this.sessions.get(subscription.sessionId)?.streams.forEach((stream) => stream.send("resource-changed", event));
+    return true;
+  }
+
+  private async subscribe(subscription: Subscription): Promise<void> {
+    const sendTo = new URL(this.webhookUrl);
+    sendTo.searchParams.set("subscription", subscription.webhookId);
+    try {
+      const channel = await this.notificationService.subscribe(subscription.topic, subscription.accessGrant.accessGrant,
+        sendTo, new Date(subscription.accessGrant.expirationDate));
+      subscription.channel = channel;
+      // The subscription was removed while subscribing.
+      if (!this.webhooks.has(subscription.webhookId))
+        await this.unsubscribe(subscription);
+    } catch (error: any) {
+      log.warn(`Subscribing to the notifications of [${subscription.topic}] failed: ${error.message}`);
+    }
+  }
+
+  private async unsubscribe(subscription: Subscription): Promise<void> {
+    this.webhooks.delete(subscription.webhookId);
+    const channel = subscription.channel;
+    if (!channel)
+      return;
+
+    delete subscription.channel;
+    try {
+      await this.notificationService.unsubscribe(channel, subscription.accessGrant.accessGrant);
+    } catch (error: any) {
+      log.warn(`Unsubscribing from the notifications of [${subscription.topic}] failed: ${error.message}`);
+    }
+  }
+
+  private removeStream(sessionId: string, stream: EventStream): void {
+    const listeners = this.sessions.get(sessionId);
+    listeners?.streams.delete(stream);
+    if (listeners?.streams.size === 0)
+      void this.removeSession(sessionId);
+  }
+
+  private scheduleExpiry(listeners: SessionListeners, sessionId: string, accessGrant: SessionAccessGrant): void {
+    const delay = new Date(accessGrant.expirationDate).getTime() - Date.now();
+    const timer = setTimeout(() => {
+      if (delay > MAX_TIMER_DELAY) {
+        this.scheduleExpiry(listeners, sessionId, accessGrant);
+        return;
+      }
+      listeners.expiryTimers.delete(accessGrant.id);
+      (listeners.subscriptions.get(accessGrant.id) ?? []).forEach(({ webhookId }) => this.webhooks.delete(webhookId));
+      listeners.subscriptions.delete(accessGrant.id);
+    }, Math.min(Math.max(delay, 0), MAX_TIMER_DELAY));
+    timer.unref();
+    listeners.expiryTimers.set(accessGrant.id, timer);
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Warns the frontend over an `EventStream` before the login session or an active access grant expires, and tells it
+ * when they have expired, so it can ask the user to log in again or to request a new grant:
+ * ```
+ * event: session-expiring
+ * data: {"expirationDate":"2025-01-01T12:00:00.000Z"}
+ *
+ * event: access-grant-expired
+ * data: {"id":"https://vc.example/vc/1","expirationDate":"2025-01-01T11:00:00.000Z"}
+ * ```
+ * The login session expires at the end of its lifetime (`SESSION_MAX_AGE`), after the idle timeout or when the tokens
+ * of the Solid session expire, whichever comes first. The `-expiring` events are sent `SESSION_EXPIRY_WARNING` before
+ * the expiry, and again when the expiry moved, e.g. after `POST /session/keep-alive` refreshed the tokens. The stream
+ * ends after `session-expired`.
+ *
+ * The stream checks the session every `SESSION_EVENTS_INTERVAL` by reading it from the session store, so it notices
+ * changes made by other requests. In the stateless session mode, the session can only be read from the cookies of
+ * the stream request itself: the frontend has to reconnect to see later changes.
+ */
+import { SessionData } from "express-session";
+import log from "loglevel";
+import { EventStream } from "./event-stream";
+
+export type SessionExpiryEventType = "session-expiring" | "session-expired" | "access-grant-expiring" | "access-grant-expired";
+
+export interface SessionExpiryEvent {
+  type: SessionExpiryEventType;
+  /**
+   * The id of the access grant, for the `access-grant-*` events.
+   */
+  id?: string;
+  expirationDate: string;
+}
+
+export interface SessionExpiry {
+  /**
+   * The moment (in milliseconds since epoch) the login session expires, or `undefined` when it doesn't.
+   */
+  expiresAt?: number;
+  accessGrants: { id: string; expiresAt: number }[];
+}
+
+/**
+ * Returns when the login session and its access grants expire, or `undefined` when the session is not logged in.
+ *
+ * @param session The express-session state, as stored.
+ * @param maxAge The absolute lifetime of a session in milliseconds.
+ */
+export function getSessionExpiry(session: Partial<SessionData> | null | undefined, maxAge: number): SessionExpiry | undefined {
+  if (!session?.webId)
+    return undefined;
+
+  const expiries = [
+    session.startedAt !== undefined ? session.startedAt + maxAge : undefined,
+    session.cookie?.expires ? new Date(session.cookie.expires).getTime() : undefined,
+    session.tokenExpiresAt,
+  ].filter((expiry): expiry is number => expiry !== undefined);
+
+  return {
+    expiresAt: expiries.length > 0 ? Math.min(...expiries) : undefined,
+    accessGrants: Object.values(session.accessGrants ?? {})
+      .map(({ id, expirationDate }) => ({ id, expiresAt: new Date(expirationDate).getTime() })),
+  };
+}
+
+/**
+ * Keeps track of the events sent on a stream, so every event is sent only once for the same expiry.
+ */
+export class SessionExpiryTracker {
+  private readonly sent = new Set<string>();
+  private accessGrants = new Map<string, number>();
+
+  /**
+   * @param warning How long in milliseconds before the expiry the `-expiring` events are due.
+   */
+  constructor(private readonly warning: number) {
+  }
+
+  /**
+   * Returns the events that became due since the previous check. A session that is no longer logged in has expired.
+   * An access grant that was removed from the session after it expired, e.g. when another request read the active
+   * grants, is still reported as expired.
+   */
+  check(expiry: SessionExpiry | undefined, now: number = Date.now()): SessionExpiryEvent[] {
+    const events: SessionExpiryEvent[] = [];
+    if (!expiry || (expiry.expiresAt !== undefined && expiry.expiresAt <= now)) {
+      this.due(events, "session-expired", expiry?.expiresAt ?? now);
+      return events;
+    }
+    if (expiry.expiresAt !== undefined && expiry.expiresAt - this.warning <= now)
+      this.due(events, "session-expiring", expiry.expiresAt);
+
+    const accessGrants = new Map(expiry.accessGrants.map(({ id, expiresAt }) => [id, expiresAt]));
+    const removed = [...this.accessGrants].filter(([id, expiresAt]) => !accessGrants.has(id) && expiresAt <= now);
+    [...accessGrants, ...removed].forEach(([id, expiresAt]) => {
+      if (expiresAt <= now)
+        this.due(events, "access-grant-expired", expiresAt, id);
+      else if (expiresAt - this.warning <= now)
+        this.due(events, "access-grant-expiring", expiresAt, id);
+    });
+    this.accessGrants = accessGrants;
+    return events;
+  }
+
+  private due(events: SessionExpiryEvent[], type: SessionExpiryEventType, expiresAt: number, id?: string): void {
+    const key = `${type} ${id ?? ""} ${expiresAt}`;
+    if (this.sent.has(key))
+      return;
+    this.sent.add(key);
+    events.push({ type, ...(id !== undefined ? { id } : {}), expirationDate: new Date(expiresAt).toISOString() });
+  }
+}
+
+/**
+ * Sends the expiry events of the session on the stream, checking the session read by `loadSession` right away and
+ * then every `interval` milliseconds until the session expired or the stream closed.
+ */
+export function streamSessionExpiry(
+  stream: EventStream,
+  loadSession: () => Promise<Partial<SessionData> | null | undefined>,
+  options: { maxAge: number; warning: number; interval: number }
+): void {
+  const tracker = new SessionExpiryTracker(options.warning);
+
+  const check = async () => {
+    let session: Partial<SessionData> | null | undefined;
+    try {
+      session = await loadSession();
+    } catch (error: any) {
+      log.warn(`Reading the session for its expiry events failed: ${error.message}`);
+      return;
+    }
+
+    const events = tracker.check(getSessionExpiry(session, options.maxAge));
+    events.forEach(({ type, ...data }) => stream.send(type, data));
+    if (events.some(({ type }) => type === "session-expired"))
+      stream.close();
+  };
+
+  const timer = setInterval(check, options.interval);
+  stream.onClose(() => clearInterval(timer));
+  void check();
+}
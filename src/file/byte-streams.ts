@@ -0,0 +1,47 @@
+/**
+ * Transform streams for the files streamed between the client and the pod, so they are never buffered in memory:
+ * - `limitSize`: Fails with a `payload-too-large` problem (413) as soon as more bytes pass than allowed.
+ * - `sliceBytes`: Passes only a range of bytes, for downloads with a `Range` header.
+ *
+ * Example usage:
+ * ```
+ * await pipeline(req, limitSize(config.upload.maxFileSize), upload);
+ * await pipeline(Readable.fromWeb(response.body), sliceBytes(0, 1023), res);
+ * ```
+ */
+import { Transform } from "stream";
+import { Problem } from "../error/problem";
+
+export function limitSize(maxSize: number): Transform {
+  let size = 0;
+  return new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      size += chunk.length;
+      if (size > maxSize)
+        callback(payloadTooLarge(maxSize));
+      else
+        callback(null, chunk);
+    },
+  });
+}
+
+export function payloadTooLarge(maxSize: number): Problem {
+  return new Problem("payload-too-large", 413, "Payload too large", `A file exceeds the limit of ${maxSize} bytes`, { limit: maxSize });
+}
+
+/**
+ * Passes the bytes from `start` up to and including `end`, the bounds of a byte range.
+ */
+export function sliceBytes(start: number, end: number): Transform {
+  let position = 0;
+  return new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      const chunkStart = position;
+      position += chunk.length;
+      if (position <= start || chunkStart > end)
+        callback();
+      else
+        callback(null, chunk.subarray(Math.max(start - chunkStart, 0), end - chunkStart + 1));
+    },
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * Detects the content type of a file written to a pod when the client doesn't declare one, or only declares the
+ * generic `application/octet-stream`.
+ *
+ * The content type is detected from the signature in the first bytes of the file (PDF, PNG, JPEG, GIF, WebP, ZIP),
+ * then from the extension of its name, falling back to `application/octet-stream`.
+ *
+ * Example usage:
+ * ```
+ * const { contentType, stream } = await withContentType(req, req.get("Content-Type"), "scan.pdf");
+ * ```
+ */
+import path from "path";
+import { Readable } from "stream";
+
+export const DEFAULT_CONTENT_TYPE = "application/octet-stream";
+
+const SIGNATURES: { contentType: string; bytes: (number | undefined)[] }[] = [
+  { contentType: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { contentType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { contentType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { contentType: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+  // RIFF....WEBP, the size in between is skipped.
+  { contentType: "image/webp", bytes: [0x52, 0x49, 0x46, 0x46, undefined, undefined, undefined, undefined, 0x57, 0x45, 0x42, 0x50] },
+  { contentType: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+];
+
+const EXTENSIONS: { [extension: string]: string } = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".html": "text/html",
+  ".xml": "application/xml",
+  ".json": "application/json",
+  ".ttl": "text/turtle",
+  ".jsonld": "application/ld+json",
+  ".nt": "application/n-triples",
+  ".nq": "application/n-quads",
+  ".zip": "application/zip",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".mp4": "video/mp4",
+};
+
+/**
+ * Returns the content type of a file from its first bytes and its name.
+ */
+export function detectContentType(head: Buffer, fileName?: string): string {
+  const signature = SIGNATURES.find(({ bytes }) =>
+    head.length >= bytes.length && bytes.every((byte, index) => byte === undefined || head[index] === byte));
+  if (signature)
+    return signature.contentType;
+
+  return (fileName && EXTENSIONS[path.extname(fileName).toLowerCase()]) || DEFAULT_CONTENT_TYPE;
+}
+
+/**
+ * Returns the declared content type of a stream, or detects it from its first chunk. The returned stream yields the
+ * complete content, including the chunk read for the detection.
+ */
+export async function withContentType(stream: Readable, declared: string | undefined, fileName?: string): Promise<{ contentType: string; stream: Readable }> {
+  if (declared && declared.split(";")[0].trim().toLowerCase() !== DEFAULT_CONTENT_TYPE)
+    return { contentType: declared, stream };
+
+  const chunks = stream[Symbol.asyncIterator]();
+  const first = await chunks.next();
+  const head: Buffer = first.done ? Buffer.alloc(0) : Buffer.from(first.value);
+  return {
+    contentType: detectContentType(head, fileName),
+    stream: Readable.from((async function* () {
+      if (head.length > 0)
+        yield head;
+      for await (const chunk of { [Symbol.asyncIterator]: () => chunks })
+        yield chunk;
+    })(), { objectMode: false }),
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Streams the files of a `multipart/form-data` body, one after the other, without buffering them in memory. The body
+ * is parsed by busboy.
+ *
+ * Every file part is passed to `onFile` with a stream of its content. The next part is only read once the stream is
+ * consumed, e.g. by writing it to a pod. Parts without a file name (plain form fields) and parts whose
+ * `Content-Disposition` header can't be parsed are skipped. A body with more than `maxFiles` files is refused with a
+ * `payload-too-large` problem (413), a malformed body with a `bad-request` problem (400). When the body fails, e.g.
+ * because the client drops the request, the stream of the current file fails with it.
+ *
+ * Example usage:
+ * ```
+ * const count = await parseMultipart(req, req.get("Content-Type")!, {
+ *   maxFiles: 10,
+ *   onFile: async (file) => podResourceService.writeFile(new URL(file.fileName, containerUrl).href, file.stream, ...),
+ * });
+ * ```
+ */
+import busboy from "busboy";
+import { finished, Readable } from "stream";
+import { Problem } from "../error/problem";
+
+export interface MultipartFile {
+  fieldName: string;
+  fileName: string;
+  /**
+   * The content type declared for the part, `text/plain` when it declares none, as RFC 7578 defines.
+   */
+  contentType: string;
+  stream: Readable;
+}
+
+export interface MultipartOptions {
+  maxFiles: number;
+  onFile: (file: MultipartFile) => Promise<void>;
+}
+
+/**
+ * Parses the body and returns the number of files passed to `onFile`.
+ */
+export async function parseMultipart(body: Readable, contentType: string, options: MultipartOptions): Promise<number> {
+  let parser: busboy.Busboy;
+  try {
+    parser = busboy({ headers: { "content-type": contentType }, limits: { files: options.maxFiles }, defParamCharset: "utf8" });
+  } catch (error) {
+    throw malformed((error as Error).message);
+  }
+
+  return new Promise<number>((resolve, reject) => {
+    const uploads: Promise<void>[] = [];
+    let failed = false;
+
+    const fail = (error: unknown) => {
+      if (failed)
+        return;
+      failed = true;
+      body.unpipe(parser);
+      // The rest of the body is read, so the problem can still be sent to the client.
+      body.resume();
+      parser.destroy(error as Error);
+      reject(error);
+    };
+
+    parser.on("file", (fieldName, stream, info) => {
+      if (!info.filename) {
+        stream.resume();
+        return;
+      }
+      const upload = options.onFile({ fieldName, fileName: info.filename, contentType: info.mimeType, stream });
+      uploads.push(upload);
+      upload.catch((error) => {
+        stream.resume();
+        fail(error);
+      });
+    });
+    parser.on("filesLimit", () => fail(new Problem("payload-too-large", 413, "Too many files", `At most ${options.maxFiles} files can be uploaded at once`, { maxFiles: options.maxFiles })));
+    parser.on("error", (error: Error) => fail(malformed(error.message)));
+    parser.on("close", () => Promise.all(uploads).then(() => failed || resolve(uploads.length), fail));
+    finished(body, (error) => error && fail(error));
+
+    body.pipe(parser);
+  });
+}
+
+function malformed(detail: string): Problem {
+  return new Problem("bad-request", 400, "Malformed multipart body", detail);
+}
@@ -0,0 +1,175 @@
+/**
+ * Models the OIDC login flows of the back end as an explicit state machine.
+ *
+ * Every login starts a flow in one of the states below and stores it on the express session. When the OIDC provider
+ * redirects back to `/oidc-redirect`, the state of the flow determines how the redirect is handled:
+ * - `login`: A regular login, completed by the Solid session.
+ * - `switch_identity`: A regular login in which the user is asked to switch identity.
+ * - `create_web_id`: The token had no WebID claim, so a WebID is provisioned with Athumi before logging in again.
+ * - `save_tokens`: The raw OIDC tokens are captured on the session instead of logging in the Solid session.
+ * - `delete_pod`: The user re-authenticated to confirm the deletion of their WebID and pod, started by `/delete-account`.
+ *
+ * Every flow remembers the identity provider profile it started with, so the redirect is handled with the same
+ * provider, see `identity-providers.ts`.
+ *
+ * A flow may only move to one of the states listed in its transitions, and it expires when the redirect does not
+ * arrive within the timeout of its current state. A flow provisions at most one WebID: it moves to `create_web_id` only
+ * once, so a token that still lacks a WebID after provisioning fails the flow instead of provisioning again. Unknown,
+ * expired or invalid flows raise a `LoginFlowError`, which the endpoints turn into an error redirect to the frontend.
+ *
+ * Example usage:
+ * ```
+ * startLoginFlow(req.session, "login");
+ * // ... redirect to the OIDC provider and back to /oidc-redirect ...
+ * const flow = getLoginFlow(req.session);
+ * transitionLoginFlow(req.session, "create_web_id");
+ * ```
+ */
+import { Session, SessionData } from "express-session";
+import { IdentityProviderConfig } from "../config/identity-providers";
+
+export type LoginFlowState = "login" | "switch_identity" | "create_web_id" | "save_tokens" | "delete_pod";
+
+export interface LoginFlow {
+  state: LoginFlowState;
+  startedAt: number;
+  /**
+   * The WebID of the logged in user that started the flow, for flows acting on an existing account.
+   */
+  webId?: string;
+  /**
+   * The URL to redirect to when the flow completes, bound to this login attempt.
+   */
+  redirectUrl?: string;
+  /**
+   * The name of the identity provider profile of the flow, the default profile when missing.
+   */
+  provider?: string;
+  /**
+   * Whether the flow already moved to `create_web_id`.
+   */
+  webIdProvisioned?: boolean;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    loginFlow?: LoginFlow;
+    /**
+     * The raw OIDC tokens captured by the `save_tokens` flow.
+     */
+    tokens?: { idToken: string; accessToken: string };
+    /**
+     * The name of the identity provider profile the session logged in with.
+     */
+    identityProvider?: string;
+  }
+}
+
+type LoginFlowSession = Session & Partial<SessionData>;
+
+const LOGIN_FLOW_TIMEOUT = 1000 * 60 * 10;
+
+const LOGIN_FLOW_DEFINITIONS: Record<LoginFlowState, { transitions: LoginFlowState[]; timeout: number }> = {
+  login: { transitions: ["create_web_id"], timeout: LOGIN_FLOW_TIMEOUT },
+  switch_identity: { transitions: ["create_web_id"], timeout: LOGIN_FLOW_TIMEOUT },
+  create_web_id: { transitions: ["switch_identity"], timeout: LOGIN_FLOW_TIMEOUT },
+  save_tokens: { transitions: [], timeout: LOGIN_FLOW_TIMEOUT },
+  delete_pod: { transitions: [], timeout: LOGIN_FLOW_TIMEOUT },
+};
+
+/**
+ * Raised when the login flow on the session is missing, expired or asked to perform a transition it does not allow.
+ * The `reason` is passed to the frontend in the error redirect.
+ */
+export class LoginFlowError extends Error {
+  constructor(message: string, readonly reason: "unknown" | "expired" | "invalid_transition" | "web_id_missing") {
+    super(message);
+    this.name = "LoginFlowError";
+  }
+}
+
+export function isLoginFlowState(state: unknown): state is LoginFlowState {
+  return typeof state === "string" && Object.keys(LOGIN_FLOW_DEFINITIONS).includes(state);
+}
+
+/**
+ * Starts a new login flow on the session, replacing any flow that was still active.
+ */
+export function startLoginFlow(session: LoginFlowSession, state: LoginFlowState, options: { webId?: string; redirectUrl?: string; provider?: string; webIdProvisioned?: boolean } = {}): void {
+  session.loginFlow = { state, startedAt: Date.now(), ...options };
+}
+
+/**
+ * Returns the active login flow of the session.
+ *
+ * @throws {LoginFlowError} If no valid flow is active or the flow exceeded the timeout of its state.
+ */
+export function getLoginFlow(session: LoginFlowSession): LoginFlow {
+  const flow = session.loginFlow;
+  if (!flow || !isLoginFlowState(flow.state))
+    throw new LoginFlowError(`No known login flow active on the session [${flow?.state}]`, "unknown");
+
+  if (Date.now() - flow.startedAt > LOGIN_FLOW_DEFINITIONS[flow.state].timeout) {
+    delete session.loginFlow;
+    throw new LoginFlowError(`Login flow [${flow.state}] expired`, "expired");
+  }
+
+  return flow;
+}
+
+/**
+ * Moves the active login flow to the next state, restarting its timeout.
+ *
+ * @throws {LoginFlowError} If no valid flow is active, the transition is not allowed from the current state, or the
+ *   flow moves to `create_web_id` a second time.
+ */
+export function transitionLoginFlow(session: LoginFlowSession, next: LoginFlowState): void {
+  const flow = getLoginFlow(session);
+  if (!LOGIN_FLOW_DEFINITIONS[flow.state].transitions.includes(next))
+    throw new LoginFlowError(`Login flow transition from [${flow.state}] to [${next}] is not allowed`, "invalid_transition");
+  if (next === "create_web_id" && flow.webIdProvisioned)
+    throw new LoginFlowError("The token still has no WebID after provisioning one in this login flow", "web_id_missing");
+
+  startLoginFlow(session, next, {
+    webId: flow.webId,
+    redirectUrl: flow.redirectUrl,
+    provider: flow.provider,
+    webIdProvisioned: flow.webIdProvisioned || next === "create_web_id",
+  });
+}
+
+/**
+ * Ends the active login flow, if any.
+ */
+export function endLoginFlow(session: LoginFlowSession): void {
+  delete session.loginFlow;
+}
+
+/**
+ * Adapts the login URL generated by the OIDC service to the identity provider profile: adds its scopes (e.g. `rrn`)
+ * and its login hint or, when requested, the login hint to switch identity. A provider without such a hint is asked
+ * to authenticate the user again instead. With `forceAuthentication`, the OIDC provider is asked to authenticate the
+ * user again even when they still have a session there.
+ */
+export function buildLoginUrl(
+  url: string,
+  provider: Pick<IdentityProviderConfig, "scopes" | "loginHint" | "switchIdentityLoginHint">,
+  options: { switchIdentity?: boolean; forceAuthentication?: boolean } = {}
+): URL {
+  // Todo: workaround for adding scopes to OAuth flow, should be provided by Inrupt SDK.
+  const loginUrl = new URL(url);
+  const scopes = loginUrl.searchParams.get("scope")?.split(" ").filter(Boolean) ?? [];
+  provider.scopes.filter((scope) => !scopes.includes(scope)).forEach((scope) => scopes.push(scope));
+  if (scopes.length > 0)
+    loginUrl.searchParams.set("scope", scopes.join(" "));
+
+  if (options.switchIdentity && provider.switchIdentityLoginHint)
+    loginUrl.searchParams.set("login_hint", provider.switchIdentityLoginHint);
+  else if (provider.loginHint)
+    loginUrl.searchParams.set("login_hint", provider.loginHint);
+
+  if (options.forceAuthentication || (options.switchIdentity && !provider.switchIdentityLoginHint))
+    loginUrl.searchParams.set("prompt", "login");
+
+  return loginUrl;
+}
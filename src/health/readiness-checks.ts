@@ -0,0 +1,92 @@
+/**
+ * The checks deciding whether the back end is ready to serve requests, reported by the `/ready` endpoint.
+ *
+ * The configuration is validated before the application is created, so it is always reported as valid. The other
+ * checks verify the dependencies the back end needs at runtime:
+ * - `sessionStore`: An entry can be written to, read from and removed from the storage backend.
+ * - `weAreOidc`, `citizenOidc`: The OIDC discovery document of the provider can be fetched. Additional citizen
+ *   identity provider profiles are checked as `citizenOidc:<name>`.
+ * - `ess`, `athumi`: The base URL answers with any HTTP response, only network errors and timeouts fail.
+ *
+ * All checks run in parallel, each with a timeout of `CHECK_TIMEOUT` milliseconds.
+ *
+ * Example usage:
+ * ```
+ * const report = await runReadinessChecks(createReadinessChecks(config, services));
+ * report.ready; // true when all checks passed
+ * ```
+ */
+import { randomUUID } from "crypto";
+import { AppConfig } from "../config/app-config";
+import { ServiceContainer } from "../container/service-container";
+
+export interface ReadinessCheck {
+  name: string;
+  check(signal: AbortSignal): Promise<void>;
+}
+
+export interface CheckResult {
+  status: "up" | "down";
+  detail?: string;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checks: { [name: string]: CheckResult };
+}
+
+export const CHECK_TIMEOUT = 5000;
+
+export function createReadinessChecks(config: AppConfig, services: ServiceContainer): ReadinessCheck[] {
+  return [
+    { name: "configuration", check: async () => {} },
+    {
+      name: "sessionStore",
+      check: async () => {
+        const key = `readiness:${randomUUID()}`;
+        await services.storageBackend.set(key, "ready", CHECK_TIMEOUT);
+        const value = await services.storageBackend.get(key);
+        await services.storageBackend.delete(key);
+        if (value !== "ready")
+          throw new Error("Stored entry could not be read back");
+      },
+    },
+    { name: "weAreOidc", check: (signal) => checkOidcDiscovery(config.weAreOidcIssuerUrl, signal) },
+    ...config.identityProviders.map(({ name, issuerUrl }, index): ReadinessCheck =>
+      ({ name: index === 0 ? "citizenOidc" : `citizenOidc:${name}`, check: (signal) => checkOidcDiscovery(issuerUrl, signal) })),
+    { name: "ess", check: (signal) => checkReachable(config.essUrl, signal) },
+    { name: "athumi", check: (signal) => checkReachable(config.athumiPlatformUrl, signal) },
+  ];
+}
+
+export async function runReadinessChecks(checks: ReadinessCheck[], timeout: number = CHECK_TIMEOUT): Promise<ReadinessReport> {
+  const results = await Promise.all(checks.map(async ({ name, check }): Promise<[string, CheckResult]> => {
+    try {
+      await check(AbortSignal.timeout(timeout));
+      return [name, { status: "up" }];
+    } catch (error: any) {
+      return [name, { status: "down", detail: error.cause?.message ? `${error.message}: ${error.cause.message}` : error.message }];
+    }
+  }));
+
+  return {
+    ready: results.every(([, result]) => result.status === "up"),
+    checks: Object.fromEntries(results),
+  };
+}
+
+async function checkOidcDiscovery(issuerUrl: URL, signal: AbortSignal): Promise<void> {
+  const discoveryUrl = `${issuerUrl.href.replace(/\/$/, "")}/.well-known/openid-configuration`;
+  const response = await fetch(discoveryUrl, { signal });
+  if (!response.ok)
+    throw new Error(`OIDC discovery [${discoveryUrl}] responded with status ${response.status}`);
+
+  const discovery = await response.json();
+  if (!discovery.issuer)
+    throw new Error(`OIDC discovery [${discoveryUrl}] has no issuer`);
+}
+
+async function checkReachable(url: URL, signal: AbortSignal): Promise<void> {
+  const response = await fetch(url, { method: "HEAD", signal });
+  await response.body?.cancel();
+}
@@ -0,0 +1,38 @@
+/**
+ * Redacts personal data from log output: the logs must allow following a user's requests without revealing who the
+ * user is.
+ *
+ * - WebIDs (URLs with a `#me` fragment) are replaced by their hash, see `hashWebId`, so the requests of one user can
+ *   still be correlated.
+ * - JSON Web Tokens and `Bearer` credentials are replaced by `[REDACTED_TOKEN]`.
+ * - E-mail addresses are replaced by `[REDACTED_EMAIL]`.
+ * - Belgian national register numbers (RRN) are replaced by `[REDACTED_RRN]`.
+ *
+ * Example usage:
+ * ```
+ * redactPii("Log out for Web ID [https://pod.example/citizen/profile/card#me]"); // "Log out for Web ID [webid:3f2a9c0d1e4b]"
+ * ```
+ */
+import { createHash } from "crypto";
+
+const WEB_ID = /https?:\/\/[^\s"'<>[\]]+#me\b/g;
+const JWT = /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g;
+const BEARER = /\bBearer\s+[\w\-.~+/]+=*/gi;
+const EMAIL = /\b[\w.%+-]+@[\w.-]+\.[A-Za-z]{2,}\b/g;
+const RRN = /\b\d{2}\.?\d{2}\.?\d{2}-?\d{3}\.?\d{2}\b/g;
+
+export function redactPii(text: string): string {
+  return text
+    .replace(WEB_ID, (webId) => `webid:${hashWebId(webId)}`)
+    .replace(JWT, "[REDACTED_TOKEN]")
+    .replace(BEARER, "Bearer [REDACTED_TOKEN]")
+    .replace(EMAIL, "[REDACTED_EMAIL]")
+    .replace(RRN, "[REDACTED_RRN]");
+}
+
+/**
+ * Returns a short, stable hash of a WebID identifying the user in the logs.
+ */
+export function hashWebId(webId: string): string {
+  return createHash("sha256").update(webId).digest("hex").slice(0, 12);
+}
@@ -0,0 +1,100 @@
+/**
+ * Configures `loglevel` to write structured log records, one JSON object per line:
+ * ```
+ * {"timestamp":"2025-01-20T10:00:00.000Z","level":"info","message":"request","correlationId":"b4d1...","method":"GET","route":"/read","status":200,"durationMs":12.3,"webIdHash":"3f2a9c0d1e4b"}
+ * ```
+ *
+ * The modules keep logging through `loglevel` as before. The arguments of a log call are turned into a record:
+ * - Strings and other values form the `message`.
+ * - Plain objects are merged into the record as fields, e.g. `log.info("request", { status: 200 })`.
+ * - Errors are added as the `error` field with their name, message and stack.
+ * The correlation id of the current request is added to every record logged while handling a request.
+ *
+ * The logging is configured with the `LOG_LEVEL`, `LOG_FORMAT` and `LOG_REDACT_PII` keys, see `loadConfig`:
+ * - `level`: The minimum level logged, `info` by default.
+ * - `format`: `json` for the records above, or `text` for a human-readable line per record during development.
+ * - `redactPii`: Whether personal data is removed from the records, see `redactPii`. Enabled by default.
+ *
+ * Example usage:
+ * ```
+ * configureLogging(config.logging);
+ * ```
+ */
+import log, { LogLevelNames } from "loglevel";
+import { getCorrelationId } from "../middleware/correlation-id";
+import { redactPii } from "./redact-pii";
+
+export type LogLevel = LogLevelNames | "silent";
+
+export type LogFormat = "json" | "text";
+
+export interface LoggingConfig {
+  level: LogLevel;
+  format: LogFormat;
+  redactPii: boolean;
+}
+
+export interface LogRecord {
+  timestamp: string;
+  level: string;
+  message: string;
+  correlationId?: string;
+  [field: string]: unknown;
+}
+
+export function configureLogging(config: LoggingConfig): void {
+  log.methodFactory = (methodName) => (...args: unknown[]) => {
+    const record = createLogRecord(methodName, args, config.redactPii);
+    const line = config.format === "json" ? JSON.stringify(record) : formatText(record);
+    if (methodName === "error" || methodName === "warn")
+      process.stderr.write(`${line}\n`);
+    else
+      process.stdout.write(`${line}\n`);
+  };
+  log.setLevel(config.level);
+  log.rebuild();
+}
+
+export function createLogRecord(level: string, args: unknown[], redact: boolean = true): LogRecord {
+  const messages: string[] = [];
+  const fields: { [field: string]: unknown } = {};
+
+  args.forEach((arg) => {
+    if (arg instanceof Error)
+      fields.error = { name: arg.name, message: arg.message, stack: arg.stack };
+    else if (isPlainObject(arg))
+      Object.assign(fields, arg);
+    else
+      messages.push(typeof arg === "string" ? arg : JSON.stringify(arg));
+  });
+
+  const record: LogRecord = {
+    timestamp: new Date().toISOString(),
+    level,
+    message: messages.join(" "),
+    correlationId: getCorrelationId(),
+    ...fields,
+  };
+  return redact ? redactRecord(record) : record;
+}
+
+function redactRecord<T>(value: T): T {
+  if (typeof value === "string")
+    return redactPii(value) as T;
+  if (Array.isArray(value))
+    return value.map(redactRecord) as T;
+  if (isPlainObject(value))
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, redactRecord(field)])) as T;
+  return value;
+}
+
+function formatText(record: LogRecord): string {
+  const { timestamp, level, message, correlationId, ...fields } = record;
+  const context = correlationId ? ` [${correlationId}]` : "";
+  const details = Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : "";
+  return `${timestamp} ${level.toUpperCase()}${context} ${message}${details}`;
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
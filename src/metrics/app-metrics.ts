@@ -0,0 +1,38 @@
+/**
+ * The Prometheus metrics of the back end, served by the `/metrics` endpoint:
+ * - `http_requests_total` and `http_request_duration_seconds`: Requests and their latency per method, route and status.
+ *   The route is the registered route pattern, or `unmatched` for requests that matched no route.
+ * - `weare_logins_total`: Completed logins per result (`success` or `failure`).
+ * - `weare_webid_provisioning_total`: WebIDs created and deleted at Athumi per operation and result.
+ * - `weare_pod_requests_total`: Reads and writes of pod resources per operation and result (`success` or `error`).
+ * - `weare_rate_limited_requests_total`: Requests refused by a rate limit per rule and exhausted scope, see `rate-limit.ts`.
+ *
+ * Every service container creates its own metrics with `createAppMetrics`, so the metrics of several applications
+ * in one process (e.g. in the tests) don't mix.
+ */
+import { Counter, Histogram, MetricsRegistry } from "./metrics-registry";
+
+export type Result = "success" | "failure";
+
+export interface AppMetrics {
+  registry: MetricsRegistry;
+  httpRequests: Counter<"method" | "route" | "status">;
+  httpRequestDuration: Histogram<"method" | "route" | "status">;
+  logins: Counter<"result">;
+  webIdProvisioning: Counter<"operation" | "result">;
+  podRequests: Counter<"operation" | "result">;
+  rateLimitedRequests: Counter<"rule" | "scope">;
+}
+
+export function createAppMetrics(): AppMetrics {
+  const registry = new MetricsRegistry();
+  return {
+    registry,
+    httpRequests: registry.counter("http_requests_total", "Number of HTTP requests", ["method", "route", "status"]),
+    httpRequestDuration: registry.histogram("http_request_duration_seconds", "Duration of HTTP requests in seconds", ["method", "route", "status"]),
+    logins: registry.counter("weare_logins_total", "Number of completed logins", ["result"]),
+    webIdProvisioning: registry.counter("weare_webid_provisioning_total", "Number of WebIDs created or deleted at Athumi", ["operation", "result"]),
+    podRequests: registry.counter("weare_pod_requests_total", "Number of reads and writes of pod resources", ["operation", "result"]),
+    rateLimitedRequests: registry.counter("weare_rate_limited_requests_total", "Number of requests refused by a rate limit", ["rule", "scope"]),
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * A minimal registry of Prometheus counters and histograms, rendered in the Prometheus text exposition format by
+ * `render()` for the `/metrics` endpoint.
+ *
+ * Every metric declares its label names. Each combination of label values is a separate series, so label values must
+ * come from a small set (e.g. the route pattern instead of the request path).
+ *
+ * Example usage:
+ * ```
+ * const registry = new MetricsRegistry();
+ * const requests = registry.counter("http_requests_total", "Number of HTTP requests", ["method", "status"]);
+ * requests.inc({ method: "GET", status: "200" });
+ * registry.render(); // # HELP http_requests_total ...\nhttp_requests_total{method="GET",status="200"} 1
+ * ```
+ */
+
+export type Labels<L extends string> = { [label in L]: string };
+
+interface Metric {
+  render(): string[];
+}
+
+abstract class LabeledMetric<L extends string, S> implements Metric {
+  private readonly series = new Map<string, { labels: Labels<L>; value: S }>();
+
+  constructor(readonly name: string, readonly help: string, readonly labelNames: L[], private readonly type: string) {}
+
+  protected abstract initial(): S;
+
+  protected abstract renderSeries(labels: Labels<L>, value: S): string[];
+
+  protected seriesOf(labels: Labels<L>): S {
+    const key = this.keyOf(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, value: this.initial() };
+      this.series.set(key, series);
+    }
+    return series.value;
+  }
+
+  protected findSeries(labels: Labels<L>): S | undefined {
+    return this.series.get(this.keyOf(labels))?.value;
+  }
+
+  private keyOf(labels: Labels<L>): string {
+    return this.labelNames.map((name) => labels[name]).join("\u0000");
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`];
+    this.series.forEach(({ labels, value }) => lines.push(...this.renderSeries(labels, value)));
+    return lines;
+  }
+
+  protected formatLabels(labels: { [label: string]: string }): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0)
+      return "";
+    return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+  }
+}
+
+export class Counter<L extends string = never> extends LabeledMetric<L, { count: number }> {
+  constructor(name: string, help: string, labelNames: L[] = []) {
+    super(name, help, labelNames, "counter");
+  }
+
+  inc(labels: Labels<L>, amount: number = 1): void {
+    this.seriesOf(labels).count += amount;
+  }
+
+  /**
+   * Returns the current value of the series with the given labels, 0 when nothing was counted yet.
+   */
+  get(labels: Labels<L>): number {
+    return this.findSeries(labels)?.count ?? 0;
+  }
+
+  protected initial() {
+    return { count: 0 };
+  }
+
+  protected renderSeries(labels: Labels<L>, value: { count: number }): string[] {
+    return [`${this.name}${this.formatLabels(labels)} ${value.count}`];
+  }
+}
+
+interface HistogramSeries {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export class Histogram<L extends string = never> extends LabeledMetric<L, HistogramSeries> {
+  constructor(name: string, help: string, labelNames: L[] = [], private readonly buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames, "histogram");
+  }
+
+  observe(labels: Labels<L>, value: number): void {
+    const series = this.seriesOf(labels);
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound)
+        series.buckets[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  protected initial(): HistogramSeries {
+    return { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  protected renderSeries(labels: Labels<L>, value: HistogramSeries): string[] {
+    return [
+      ...this.buckets.map((bound, index) =>
+        `${this.name}_bucket${this.formatLabels({ ...labels, le: String(bound) })} ${value.buckets[index]}`),
+      `${this.name}_bucket${this.formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+      `${this.name}_sum${this.formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${this.formatLabels(labels)} ${value.count}`,
+    ];
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  counter<L extends string = never>(name: string, help: string, labelNames: L[] = []): Counter<L> {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  histogram<L extends string = never>(name: string, help: string, labelNames: L[] = [], buckets?: number[]): Histogram<L> {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  render(): string {
+    return this.metrics.map((metric) => metric.render().join("\n")).join("\n\n") + "\n";
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, "\\\"");
+}
@@ -0,0 +1,165 @@
+/**
+ * Session middleware of the stateless mode (`SESSION_MODE=stateless`), replacing express-session. It keeps the
+ * express-session state (`solidSid`, the access grants, the login flow, ...) and the Solid client session data in the
+ * session cookie itself instead of in a storage backend, so any replica of the back end can serve any request of the
+ * session:
+ * ```
+ * app.use(cookieSession(config.session, services.sessionStore));
+ * ```
+ * The store must be a `CookieSessionStore`, and the Solid client must use a `CookieSolidStorage`, see
+ * `service-container.ts`.
+ *
+ * The data is sealed by a `CookieSealer`: compressed, encrypted and authenticated with a key derived from the first of
+ * `SESSION_SECRETS`, so the client can neither read nor change it. As a cookie holds about 4 KB, the sealed data is
+ * split over the cookies `weare-demo-session.0`, `weare-demo-session.1`, ... and may be at most
+ * `SESSION_COOKIE_MAX_SIZE` bytes in total. A session outgrowing it is logged and dropped, the user then has to log in
+ * again.
+ *
+ * `req.session` behaves as with express-session: handlers change it in place, and `regenerate` and `destroy` replace or
+ * remove it. The cookies are written just before the response headers, on every response of a session holding data,
+ * which extends the session by the idle timeout. The sealed data expires with the cookie, so a copy of an idle cookie
+ * can't be replayed later. A copy of a cookie taken before logout however stays valid until it expires, as there is
+ * no server-side state to revoke it.
+ *
+ * Only the sessions are stateless. The counters of the rate limits stay in the storage backend, so with the `memory`
+ * backend every replica keeps its own budgets and a client gets the budgets once per replica. The subscriptions of the
+ * notification relay are kept in the memory of the replica serving the `/session/events` stream.
+ */
+import crypto from "crypto";
+import { CookieOptions, NextFunction, Request, RequestHandler, Response } from "express";
+import { SessionData, Store } from "express-session";
+import log from "loglevel";
+import { SessionConfig } from "../config/app-config";
+import { SESSION_COOKIE_NAME } from "../config/session-options";
+import { CookieSealer } from "../storage/cookie-sealer";
+import { CookieSessionData, setCookieSessionData } from "../storage/cookie-session-store";
+
+/**
+ * The size of the sealed data per cookie, leaving room for the name and attributes within the 4096 bytes of a cookie.
+ */
+const CHUNK_SIZE = 3800;
+const CHUNK_COOKIE_NAME = new RegExp(`^${SESSION_COOKIE_NAME.replace(/[.-]/g, "\\$&")}\\.(\\d+)$`);
+
+interface CookieSessionPayload extends CookieSessionData {
+  /**
+   * The moment (in milliseconds since epoch) the sealed data expires, the end of the idle timeout.
+   */
+  expiresAt: number;
+}
+
+export function cookieSession(config: SessionConfig, store: Store): RequestHandler {
+  const sealer = new CookieSealer(config.secrets);
+  const cookieOptions: CookieOptions = {
+    httpOnly: true,
+    secure: config.cookieSecure,
+    sameSite: config.cookieSameSite,
+    domain: config.cookieDomain,
+    path: "/",
+  };
+
+  const createSession = (req: Request, sessionData?: SessionData) =>
+    store.createSession(req, sessionData ?? {
+      cookie: { ...cookieOptions, originalMaxAge: config.idleTimeout, maxAge: config.idleTimeout },
+    });
+  // Like express-session, provide the `generate` used by `regenerate` to the store.
+  const sessionStore: Express.SessionStore = Object.assign(store, {
+    generate: (req: Express.Request) => {
+      req.sessionID = crypto.randomUUID();
+      createSession(req as Request);
+    },
+  });
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const chunks = readChunks(req, Math.ceil(config.cookieMaxSize / CHUNK_SIZE));
+    const payload = openPayload(sealer, chunks, config.cookieMaxSize);
+    const data: CookieSessionData = { id: payload?.id ?? crypto.randomUUID(), session: payload?.session, solid: payload?.solid ?? {} };
+    setCookieSessionData(data);
+
+    req.sessionStore = sessionStore;
+    req.sessionID = data.id;
+    createSession(req, data.session);
+
+    onHeaders(res, () => {
+      const sealed = sealPayload(sealer, req, data, config);
+      const written = sealed ? splitChunks(sealed) : [];
+      written.forEach((chunk, index) => res.cookie(`${SESSION_COOKIE_NAME}.${index}`, chunk, { ...cookieOptions, maxAge: config.idleTimeout }));
+      for (let index = written.length; index < chunks.length; index++)
+        res.clearCookie(`${SESSION_COOKIE_NAME}.${index}`, cookieOptions);
+    });
+    next();
+  };
+}
+
+/**
+ * Returns the values of the session cookies of the request by the index in their name. The sealed data is base64url
+ * encoded, so the values need no decoding.
+ */
+function readChunks(req: Request, maxChunks: number): (string | undefined)[] {
+  const chunks: (string | undefined)[] = [];
+  (req.headers.cookie ?? "").split(";").forEach((pair) => {
+    const separator = pair.indexOf("=");
+    const index = CHUNK_COOKIE_NAME.exec(pair.slice(0, separator).trim())?.[1];
+    if (separator > 0 && index !== undefined && Number(index) < maxChunks)
+      chunks[Number(index)] = pair.slice(separator + 1).trim();
+  });
+  return chunks;
+}
+
+function openPayload(sealer: CookieSealer, chunks: (string | undefined)[], maxSize: number): CookieSessionPayload | undefined {
+  if (chunks.length === 0)
+    return undefined;
+
+  const sealed = chunks.join("");
+  const opened = chunks.every((chunk) => chunk !== undefined) && sealed.length <= maxSize ? sealer.open(sealed) : undefined;
+  const payload: CookieSessionPayload | undefined = opened ? JSON.parse(opened) : undefined;
+  if (!payload || payload.expiresAt <= Date.now()) {
+    log.debug("Ignoring a session cookie which is incomplete, expired, too large or not sealed with one of the session secrets.");
+    return undefined;
+  }
+  return payload;
+}
+
+/**
+ * Seals the session and Solid client data of the request, or returns `undefined` when there is nothing to keep or the
+ * sealed data is too large.
+ */
+function sealPayload(sealer: CookieSealer, req: Request, data: CookieSessionData, config: SessionConfig): string | undefined {
+  data.id = req.sessionID;
+  data.session = req.session ? JSON.parse(JSON.stringify(req.session)) : undefined;
+  const hasSessionData = Object.keys(data.session ?? {}).some((key) => key !== "cookie");
+  if (!hasSessionData && Object.keys(data.solid).length === 0)
+    return undefined;
+
+  const sealed = sealer.seal(JSON.stringify({ ...data, expiresAt: Date.now() + config.idleTimeout } satisfies CookieSessionPayload));
+  if (sealed.length > config.cookieMaxSize) {
+    log.error(`The sealed session of ${sealed.length} bytes exceeds SESSION_COOKIE_MAX_SIZE of ${config.cookieMaxSize} bytes, the session is dropped.`);
+    return undefined;
+  }
+  return sealed;
+}
+
+function splitChunks(sealed: string): string[] {
+  const chunks: string[] = [];
+  for (let start = 0; start < sealed.length; start += CHUNK_SIZE)
+    chunks.push(sealed.slice(start, start + CHUNK_SIZE));
+  return chunks;
+}
+
+/**
+ * Calls the listener once, just before the response headers are written.
+ */
+function onHeaders(res: Response, listener: () => void): void {
+  const writeHead = res.writeHead;
+  let called = false;
+  res.writeHead = function (this: Response, ...args: unknown[]) {
+    if (!called) {
+      called = true;
+      try {
+        listener();
+      } catch (error: any) {
+        log.error(`Writing the session cookies failed: ${error.message}`);
+      }
+    }
+    return (writeHead as (...args: unknown[]) => Response).apply(this, args);
+  } as typeof res.writeHead;
+}
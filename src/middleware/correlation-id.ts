@@ -0,0 +1,61 @@
+/**
+ * Middleware and helpers giving every request a correlation id, to follow a request through the logs of the back end
+ * and the services it calls.
+ *
+ * `assignCorrelationId` accepts the id of the `X-Correlation-ID` request header, e.g. set by the frontend or a gateway,
+ * or generates one when the header is missing or not a valid id. It starts the request context of
+ * `express-http-context`, keeps the id in it and returns it in the `X-Correlation-ID` response header. It is
+ * registered before all middleware that logs or calls other services:
+ * ```
+ * app.use(assignCorrelationId);
+ * ```
+ *
+ * `getCorrelationId` returns the id of the current request, e.g. to pass it to the We Are Core services.
+ * `propagateCorrelationId` adds the header to every outgoing `fetch` made while handling a request, so the pod, OIDC,
+ * ESS and Athumi requests made by the We Are and Inrupt libraries carry it as well.
+ */
+import { randomUUID } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import httpContext from "express-http-context";
+
+export const CORRELATION_ID_HEADER = "X-Correlation-ID";
+
+const VALID_CORRELATION_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+const PROPAGATING = Symbol("propagatesCorrelationId");
+
+export function assignCorrelationId(req: Request, res: Response, next: NextFunction) {
+  const requested = req.get(CORRELATION_ID_HEADER);
+  const correlationId = requested && VALID_CORRELATION_ID.test(requested) ? requested : randomUUID();
+
+  httpContext.middleware(req, res, () => {
+    httpContext.set("correlationId", correlationId);
+    res.set(CORRELATION_ID_HEADER, correlationId);
+    next();
+  });
+}
+
+export function getCorrelationId(): string | undefined {
+  return httpContext.get("correlationId");
+}
+
+/**
+ * Wraps the global `fetch` to add the `X-Correlation-ID` header of the current request to outgoing requests that
+ * don't set it themselves. Calling it again has no effect.
+ */
+export function propagateCorrelationId(): void {
+  const fetch = globalThis.fetch as typeof globalThis.fetch & { [PROPAGATING]?: boolean };
+  if (fetch[PROPAGATING])
+    return;
+
+  const propagatingFetch: typeof globalThis.fetch = (input, init) => {
+    const correlationId = getCorrelationId();
+    if (!correlationId)
+      return fetch(input, init);
+
+    const headers = new Headers(init?.headers ?? (input instanceof globalThis.Request ? input.headers : undefined));
+    if (!headers.has(CORRELATION_ID_HEADER))
+      headers.set(CORRELATION_ID_HEADER, correlationId);
+    return fetch(input, { ...init, headers });
+  };
+  globalThis.fetch = Object.assign(propagatingFetch, { [PROPAGATING]: true });
+}
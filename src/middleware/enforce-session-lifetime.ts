@@ -0,0 +1,51 @@
+/**
+ * Middleware limiting the absolute lifetime of a session to `SESSION_MAX_AGE`, bound with the maximum age in milliseconds
+ * and the Solid client storage.
+ *
+ * The session cookie is rolling: every request extends it by the idle timeout, so an idle session expires on its own.
+ * An active session however could be extended forever. This middleware therefore tracks when the session started,
+ * by `startSessionLifetime` at login, and regenerates the session once its absolute lifetime has passed:
+ * ```
+ * app.use(session(createSessionOptions(config.session, services.sessionStore)));
+ * app.use(enforceSessionLifetime.bind({ maxAge: config.session.maxAge, storage: services.solidStorage }));
+ * ```
+ *
+ * Regenerating replaces the express-session state, the user then has to log in again. The Solid session of the expired
+ * session is logged out first, as `/logout` does, so its tokens are removed from the Solid client storage.
+ */
+import { getSessionFromStorage, IStorage } from "@inrupt/solid-client-authn-node";
+import { NextFunction, Request, Response } from "express";
+import log from "loglevel";
+
+declare module "express-session" {
+  interface SessionData {
+    /**
+     * The moment (in milliseconds since epoch) the session started, set at login.
+     */
+    startedAt?: number;
+  }
+}
+
+export function startSessionLifetime(session: { startedAt?: number }): void {
+  session.startedAt = Date.now();
+}
+
+export async function enforceSessionLifetime(this: { maxAge: number; storage: IStorage }, req: Request, res: Response, next: NextFunction) {
+  const startedAt = req.session?.startedAt;
+  if (startedAt === undefined || Date.now() - startedAt < this.maxAge) {
+    next();
+    return;
+  }
+
+  log.debug(`Session started at ${new Date(startedAt).toISOString()} exceeded its lifetime, regenerating it.`);
+  const solidSid = req.session.solidSid;
+  if (solidSid) {
+    try {
+      const session = await getSessionFromStorage(solidSid, { storage: this.storage, refreshSession: false });
+      await session?.logout();
+    } catch (error: any) {
+      log.warn(`Logging out the Solid session of the expired session failed: ${error.message}`);
+    }
+  }
+  req.session.regenerate((error) => next(error));
+}
@@ -0,0 +1,40 @@
+/**
+ * Middleware logging a structured record for every request once its response is finished:
+ * ```
+ * {"level":"info","message":"request","method":"GET","path":"/read","route":"/read","status":200,"durationMs":12.3,"webIdHash":"3f2a9c0d1e4b",...}
+ * ```
+ *
+ * The query string is left out as it may contain personal data, and the WebID of the Solid session is only logged as
+ * its hash. Responses with a 5xx status are logged as errors, 4xx as warnings.
+ *
+ * Example usage:
+ * ```
+ * app.use(logRequest);
+ * ```
+ */
+import { NextFunction, Request, Response } from "express";
+import log from "loglevel";
+import { hashWebId } from "../logging/redact-pii";
+
+export function logRequest(req: Request, res: Response, next: NextFunction) {
+  const start = process.hrtime.bigint();
+  res.on("finish", () => {
+    const webId: string | undefined = res.locals.session?.info?.webId;
+    const fields = {
+      method: req.method,
+      path: req.baseUrl + req.path,
+      route: req.route?.path,
+      status: res.statusCode,
+      durationMs: Number(process.hrtime.bigint() - start) / 1e6,
+      webIdHash: webId ? hashWebId(webId) : undefined,
+    };
+
+    if (res.statusCode >= 500)
+      log.error("request", fields);
+    else if (res.statusCode >= 400)
+      log.warn("request", fields);
+    else
+      log.info("request", fields);
+  });
+  next();
+}
@@ -0,0 +1,45 @@
+/**
+ * Middleware negotiating the media type of the response with the `Accept` header of the request.
+ *
+ * It is bound with the media types the route can respond with, the first one being the default for requests
+ * accepting any type, and must run before the resource is fetched:
+ * ```
+ * app.get("/read", negotiateContentType.bind({ mediaTypes: ["text/turtle", "application/ld+json"] }), ...);
+ * ```
+ *
+ * The selected media type is kept in `res.locals.mediaType`. When the request accepts none of the media types, a
+ * `not-acceptable` problem (406) listing them is passed to the error handler.
+ *
+ * `requireContentType` checks the media type of the request body in the same way, passing an
+ * `unsupported-media-type` problem (415) when the body has none of the media types:
+ * ```
+ * app.patch("/resource", requireContentType.bind({ mediaTypes: ["application/sparql-update", "text/n3"] }), ...);
+ * ```
+ */
+import { NextFunction, Request, Response } from "express";
+import { Problem } from "../error/problem";
+
+export function negotiateContentType(this: { mediaTypes: readonly string[] }, req: Request, res: Response, next: NextFunction) {
+  res.vary("Accept");
+  const mediaType = req.accepts([...this.mediaTypes]);
+  if (!mediaType) {
+    next(notAcceptable(this.mediaTypes));
+    return;
+  }
+
+  res.locals.mediaType = mediaType;
+  next();
+}
+
+export function requireContentType(this: { mediaTypes: readonly string[] }, req: Request, res: Response, next: NextFunction) {
+  if (!req.is([...this.mediaTypes])) {
+    next(new Problem("unsupported-media-type", 415, "Unsupported media type", `The request body must be one of ${this.mediaTypes.join(", ")}`, { supported: this.mediaTypes }));
+    return;
+  }
+
+  next();
+}
+
+export function notAcceptable(mediaTypes: readonly string[]): Problem {
+  return new Problem("not-acceptable", 406, "Not acceptable", `The resource is available as ${mediaTypes.join(", ")}`, { available: mediaTypes });
+}
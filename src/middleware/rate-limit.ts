@@ -0,0 +1,166 @@
+/**
+ * Rate limits protecting the back end and the services behind it (the OIDC providers, ESS and Athumi) against clients
+ * hammering its routes.
+ *
+ * A `RateLimitRule` allows a number of requests per window to every client, counted separately per IP address, per
+ * session and per WebID of the logged in user. A client exceeding any of these budgets gets a `too-many-requests`
+ * problem (429) with a `Retry-After` header, until the window ends. The counters are kept by a `RateLimitStore` in the
+ * storage backend of the sessions.
+ *
+ * `rateLimit` applies the global rule to every request and, when one matches, the rule of the route on top of it:
+ * ```
+ * app.use(rateLimit.bind({ store: services.rateLimitStore, config: config.rateLimit, metrics: services.metrics }));
+ * ```
+ *
+ * `checkRateLimit` applies a rule to an operation that isn't a route of its own, e.g. the WebID provisioning of the
+ * login flow:
+ * ```
+ * await checkRateLimit(services.rateLimitStore, config.rateLimit.webIdProvisioning, rateLimitIdentity(req), services.metrics);
+ * ```
+ *
+ * Rules are configured as a space-separated list of budgets and an optional window in seconds, e.g.
+ * `ip=30 session=10 webId=10 window=60`, see `parseRateLimitRule`. Route rules are prefixed with an optional method and
+ * the path of the route, e.g. `POST /access-request session=10 webId=10`, see `parseRouteRateLimits`.
+ */
+import { NextFunction, Request, Response } from "express";
+import { Problem } from "../error/problem";
+import { RateLimitStore } from "../storage/rate-limit-store";
+import { AppMetrics } from "../metrics/app-metrics";
+
+declare module "express-session" {
+  interface SessionData {
+    /**
+     * The WebID of the logged in user, set at login so the WebID budget applies before the Solid session is restored.
+     */
+    webId?: string;
+  }
+}
+
+export type RateLimitScope = "ip" | "session" | "webId";
+
+export const RATE_LIMIT_SCOPES: RateLimitScope[] = ["ip", "session", "webId"];
+
+export interface RateLimitRule {
+  /**
+   * The name of the rule, part of the keys of its counters and the label of its metric.
+   */
+  name: string;
+  /**
+   * The window of the budgets in milliseconds.
+   */
+  window: number;
+  /**
+   * The number of requests allowed per window for every scope, scopes without a budget are not limited.
+   */
+  limits: Partial<Record<RateLimitScope, number>>;
+}
+
+export interface RouteRateLimit {
+  /**
+   * The HTTP method of the route, any method when missing.
+   */
+  method?: string;
+  path: string;
+  rule: RateLimitRule;
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  /**
+   * The rule applied to every request.
+   */
+  global: RateLimitRule;
+  routes: RouteRateLimit[];
+  /**
+   * The rule applied to the WebIDs provisioned at Athumi by the login flow.
+   */
+  webIdProvisioning: RateLimitRule;
+}
+
+export type RateLimitIdentity = Partial<Record<RateLimitScope, string>>;
+
+/**
+ * Parses a rule like `ip=30 session=10 webId=10 window=60`. The window is in seconds and defaults to `defaultWindow`
+ * (in milliseconds).
+ */
+export function parseRateLimitRule(name: string, spec: string, defaultWindow: number): RateLimitRule {
+  const rule: RateLimitRule = { name, window: defaultWindow, limits: {} };
+  for (const part of spec.split(/\s+/).filter(Boolean)) {
+    const [, key, value] = /^(\w+)=(\d+)$/.exec(part) ?? [];
+    if (!key || Number(value) <= 0)
+      throw new Error(`Expected a budget like 'ip=30' or 'window=60' in rate limit [${spec}], found [${part}]`);
+
+    if (key === "window")
+      rule.window = Number(value) * 1000;
+    else if ((RATE_LIMIT_SCOPES as string[]).includes(key))
+      rule.limits[key as RateLimitScope] = Number(value);
+    else
+      throw new Error(`Unknown rate limit scope [${key}] in rate limit [${spec}], expected one of ${RATE_LIMIT_SCOPES.join(", ")} or window`);
+  }
+  return rule;
+}
+
+/**
+ * Parses route rules like `POST /access-request session=10 webId=10` or `/login ip=30`.
+ */
+export function parseRouteRateLimits(entries: string[], defaultWindow: number): RouteRateLimit[] {
+  return entries.map((entry) => {
+    const [, method, path, spec] = /^(?:([A-Za-z]+)\s+)?(\/\S*)\s*(.*)$/.exec(entry) ?? [];
+    if (!path)
+      throw new Error(`Expected an optional method and a path in rate limit [${entry}]`);
+    return {
+      method: method?.toUpperCase(),
+      path,
+      rule: parseRateLimitRule(`${method ? `${method.toUpperCase()} ` : ""}${path}`, spec, defaultWindow),
+    };
+  });
+}
+
+/**
+ * Returns the IP address, session id and WebID (when logged in) of the client of a request.
+ */
+export function rateLimitIdentity(req: Request): RateLimitIdentity {
+  return {
+    ip: req.ip ?? req.socket.remoteAddress,
+    session: req.sessionID,
+    webId: req.session?.webId,
+  };
+}
+
+/**
+ * Counts a request against the budgets of the rule, throwing a `too-many-requests` problem when any of them is exceeded.
+ */
+export async function checkRateLimit(store: RateLimitStore, rule: RateLimitRule, identity: RateLimitIdentity, metrics: AppMetrics): Promise<void> {
+  let exceeded: { scope: RateLimitScope; limit: number; resetAt: number } | undefined;
+
+  for (const scope of RATE_LIMIT_SCOPES) {
+    const limit = rule.limits[scope];
+    const id = identity[scope];
+    if (limit === undefined || !id)
+      continue;
+
+    const { count, resetAt } = await store.increment(`${rule.name}:${scope}:${id}`, rule.window);
+    if (count > limit && (!exceeded || resetAt > exceeded.resetAt))
+      exceeded = { scope, limit, resetAt };
+  }
+
+  if (!exceeded)
+    return;
+
+  metrics.rateLimitedRequests.inc({ rule: rule.name, scope: exceeded.scope });
+  const retryAfter = Math.max(Math.ceil((exceeded.resetAt - Date.now()) / 1000), 1);
+  throw new Problem("too-many-requests", 429, "Too many requests",
+    `The ${exceeded.scope} budget of ${exceeded.limit} requests per ${rule.window / 1000} seconds for [${rule.name}] is exhausted`,
+    { retryAfter, scope: exceeded.scope });
+}
+
+export function rateLimit(this: { store: RateLimitStore; config: RateLimitConfig; metrics: AppMetrics }, req: Request, res: Response, next: NextFunction) {
+  const identity = rateLimitIdentity(req);
+  const route = this.config.routes.find((route) => route.path === req.path && (!route.method || route.method === req.method));
+  const rules = route ? [this.config.global, route.rule] : [this.config.global];
+
+  (async () => {
+    for (const rule of rules)
+      await checkRateLimit(this.store, rule, identity, this.metrics);
+  })().then(() => next(), next);
+}
@@ -0,0 +1,53 @@
+/**
+ * Middleware appending an entry to the audit trail for every request to a route touching a pod or issuing or
+ * activating credentials, see `audit-trail.ts`.
+ *
+ * It is bound with the action of the route and the names of the query parameters holding the URLs of the touched
+ * resources, and registered before the validation so that refused requests are audited as well:
+ * ```
+ * app.get("/read", recordAudit.bind({ auditStore: services.auditStore, action: "read", resourceUrlParameterKeys: ["resourceUrl"] }), ...);
+ * ```
+ *
+ * The entry is appended once the response is finished. The access grant selected by `selectAccessGrant` provides the
+ * owner, grant id and purposes. Handlers add details only they know, e.g. the id of an issued access request, to
+ * `res.locals.audit`.
+ */
+import crypto from "crypto";
+import { NextFunction, Request, Response } from "express";
+import log from "loglevel";
+import { AuditAction, AuditEntry, AuditStore } from "../audit/audit-trail";
+import { SessionAccessGrant } from "../vc/session-access-grants";
+import { getCorrelationId } from "./correlation-id";
+
+export type AuditDetails = Partial<Pick<AuditEntry, "owner" | "resources" | "accessGrantId" | "accessRequestId" | "purposes">>;
+
+export function recordAudit(this: { auditStore: AuditStore; action: AuditAction; resourceUrlParameterKeys?: string[] }, req: Request, res: Response, next: NextFunction) {
+  const timestamp = new Date().toISOString();
+  const correlationId = getCorrelationId();
+
+  res.on("finish", () => {
+    const accessGrant: SessionAccessGrant | undefined = res.locals.accessGrant;
+    const details: AuditDetails = res.locals.audit ?? {};
+    const entry: AuditEntry = {
+      id: crypto.randomUUID(),
+      timestamp,
+      action: this.action,
+      outcome: res.statusCode < 400 ? "success" : "failure",
+      status: res.statusCode,
+      owner: details.owner ?? accessGrant?.owner,
+      actor: req.session?.webId,
+      session: crypto.createHash("sha256").update(req.sessionID ?? "").digest("base64url").slice(0, 16),
+      resources: details.resources ?? (this.resourceUrlParameterKeys ?? [])
+        .map((key) => req.query[key])
+        .filter((value): value is string => typeof value === "string"),
+      accessGrantId: details.accessGrantId ?? accessGrant?.id,
+      accessRequestId: details.accessRequestId,
+      purposes: details.purposes ?? accessGrant?.purposes ?? [],
+      correlationId,
+    };
+
+    this.auditStore.append(entry).catch((error) =>
+      log.error(`Appending the audit entry of [${req.method} ${req.path}] failed: ${error.message}`, entry));
+  });
+  next();
+}
@@ -0,0 +1,34 @@
+/**
+ * Middleware recording the Prometheus metrics of requests, see `app-metrics.ts`.
+ *
+ * `recordRequestMetrics` counts every request and its latency once the response is finished, labeled with the route
+ * pattern that handled it. It is registered before all other middleware:
+ * ```
+ * app.use(recordRequestMetrics.bind({ metrics: services.metrics }));
+ * ```
+ *
+ * `recordPodRequest` counts the reads and writes of pod resources, as a `success` when the response has a 2xx or 3xx
+ * status and as an `error` otherwise:
+ * ```
+ * app.get("/read", recordPodRequest.bind({ metrics: services.metrics, operation: "read" }), ...);
+ * ```
+ */
+import { NextFunction, Request, Response } from "express";
+import { AppMetrics } from "../metrics/app-metrics";
+
+export function recordRequestMetrics(this: { metrics: AppMetrics }, req: Request, res: Response, next: NextFunction) {
+  const start = process.hrtime.bigint();
+  res.on("finish", () => {
+    const labels = { method: req.method, route: req.route?.path ?? "unmatched", status: String(res.statusCode) };
+    this.metrics.httpRequests.inc(labels);
+    this.metrics.httpRequestDuration.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+  });
+  next();
+}
+
+export function recordPodRequest(this: { metrics: AppMetrics; operation: "read" | "write" }, req: Request, res: Response, next: NextFunction) {
+  res.on("finish", () => {
+    this.metrics.podRequests.inc({ operation: this.operation, result: res.statusCode < 400 ? "success" : "error" });
+  });
+  next();
+}
@@ -0,0 +1,48 @@
+/**
+ * Middleware silently refreshing the tokens of the Solid session with its refresh token, once they expire within
+ * `refreshBefore` milliseconds or have expired, bound with the Solid client storage:
+ * ```
+ * app.use(refreshSolidSession.bind({ storage: services.solidStorage, refreshBefore: config.session.expiryWarning }));
+ * ```
+ * The expiry of the tokens is kept on the express session, set at login and on every refresh. The refresh happens on
+ * any request of a logged in session, e.g. `POST /session/keep-alive`, so the frontend can keep the session alive
+ * when it is warned that it expires, see `session-expiry.ts`.
+ *
+ * The Solid session is created with `keepAlive: false` at login, as the `Session` of a request doesn't outlive it and
+ * can't refresh itself in the background. When the provider issued no refresh token or the refresh fails, the
+ * tokens keep their expiry and the user has to log in again.
+ */
+import { getSessionFromStorage, IStorage, refreshSession } from "@inrupt/solid-client-authn-node";
+import { NextFunction, Request, Response } from "express";
+import log from "loglevel";
+
+declare module "express-session" {
+  interface SessionData {
+    /**
+     * The moment (in milliseconds since epoch) the tokens of the Solid session expire.
+     */
+    tokenExpiresAt?: number;
+  }
+}
+
+export async function refreshSolidSession(this: { storage: IStorage; refreshBefore: number }, req: Request, res: Response, next: NextFunction) {
+  const solidSid = req.session?.solidSid;
+  const tokenExpiresAt = req.session?.tokenExpiresAt;
+  if (!solidSid || tokenExpiresAt === undefined || tokenExpiresAt - Date.now() > this.refreshBefore) {
+    next();
+    return;
+  }
+
+  try {
+    const session = await getSessionFromStorage(solidSid, { storage: this.storage, refreshSession: false });
+    if (session)
+      await refreshSession(session, { storage: this.storage });
+    if (session?.info.isLoggedIn && session.info.expirationDate) {
+      log.debug(`Refreshed the Solid session until ${new Date(session.info.expirationDate).toISOString()}.`);
+      req.session.tokenExpiresAt = session.info.expirationDate;
+    }
+  } catch (error: any) {
+    log.warn(`Refreshing the Solid session failed: ${error.message}`);
+  }
+  next();
+}
@@ -0,0 +1,47 @@
+/**
+ * Middleware selecting the access grant of the session to use for a pod request.
+ *
+ * It is bound with the name of the query parameter holding the URL of the requested resource, in the same way as
+ * the We Are Expressjs middleware, and must run before `validateAccessGrant`:
+ * ```
+ * app.get("/read", getSession.bind({ storage }), selectAccessGrant.bind({ resourceUrlParameterKey: "resourceUrl" }), validateAccessGrant, ...);
+ * ```
+ *
+ * An explicit `accessGrantId` query parameter selects that grant, otherwise the grant covering the resource is used.
+ * When no active grant matches, an `access-grant-missing` problem (403) is passed to the error handler, or an
+ * `access-grant-expired` problem when the explicitly requested grant has expired.
+ *
+ * The selected grant is kept in `res.locals.accessGrant`, e.g. for the audit trail.
+ *
+ * Requests touching a second resource, e.g. the destination of a copy, also bind `destinationUrlParameterKey`: the
+ * selected grant must cover that resource as well.
+ */
+import { NextFunction, Request, Response } from "express";
+import log from "loglevel";
+import { coversResource, selectSessionAccessGrant } from "../vc/session-access-grants";
+import { Problem } from "../error/problem";
+
+export function selectAccessGrant(this: { resourceUrlParameterKey: string; destinationUrlParameterKey?: string }, req: Request, res: Response, next: NextFunction) {
+  const resourceUrl = req.query[this.resourceUrlParameterKey] as string | undefined;
+  const accessGrantId = req.query.accessGrantId as string | undefined;
+
+  const requested = accessGrantId ? req.session.accessGrants?.[accessGrantId] : undefined;
+  const accessGrant = selectSessionAccessGrant(req.session, resourceUrl, accessGrantId);
+  if (!accessGrant) {
+    if (requested && new Date(requested.expirationDate).getTime() <= Date.now())
+      next(new Problem("access-grant-expired", 403, "Access grant expired", `Access grant [${accessGrantId}] expired at ${requested.expirationDate}`));
+    else
+      next(new Problem("access-grant-missing", 403, "No access grant", `No active access grant on the session covers resource [${resourceUrl}]`));
+    return;
+  }
+
+  const destinationUrl = this.destinationUrlParameterKey ? req.query[this.destinationUrlParameterKey] as string | undefined : undefined;
+  if (destinationUrl && !coversResource(accessGrant, destinationUrl)) {
+    next(new Problem("access-grant-missing", 403, "No access grant", `Access grant [${accessGrant.id}] doesn't cover destination [${destinationUrl}]`));
+    return;
+  }
+
+  log.debug(`Using access grant [${accessGrant.id}] for resource [${resourceUrl}].`);
+  res.locals.accessGrant = accessGrant;
+  next();
+}
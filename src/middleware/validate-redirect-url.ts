@@ -0,0 +1,25 @@
+/**
+ * Middleware rejecting a `redirectUrl` query parameter that is not on the redirect allowlist, see `redirect-validate.ts`.
+ *
+ * It is bound with the allowlist of the application and must run after `validateRequest`:
+ * ```
+ * app.get("/login", validateRequest.bind({ schema: loginRoute.schema }), validateRedirectUrl.bind({ allowlist }), ...);
+ * ```
+ *
+ * A URL that is not allowed is answered with the same `validation-failed` problem (400) as `validateRequest`.
+ */
+import { NextFunction, Request, Response } from "express";
+import { Problem } from "../error/problem";
+import { isAllowedRedirect } from "../validate/redirect-validate";
+import { RequestValidationError } from "./validate-request";
+
+export function validateRedirectUrl(this: { allowlist: URL[] }, req: Request, res: Response, next: NextFunction) {
+  const redirectUrl = req.query.redirectUrl as string | undefined;
+  if (redirectUrl === undefined || isAllowedRedirect(redirectUrl, this.allowlist)) {
+    next();
+    return;
+  }
+
+  const errors: RequestValidationError[] = [{ location: "query", field: "redirectUrl", message: "Redirect URL is not allowed" }];
+  next(new Problem("validation-failed", 400, "Invalid request", "Invalid fields: query.redirectUrl", { errors }));
+}
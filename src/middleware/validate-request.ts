@@ -0,0 +1,60 @@
+/**
+ * Middleware validating the query parameters and body of a request against a declared `RequestSchema`.
+ *
+ * It is bound with the schema of the route, in the same way as the We Are Expressjs middleware:
+ * ```
+ * app.get("/read", validateRequest.bind({ schema: readSchema }), ...);
+ * ```
+ *
+ * On success, `req.query` and `req.body` are replaced by the parsed values, so handlers can rely on the types
+ * derived from the schema (e.g. `req.query as ReadQuery`). On failure, a `validation-failed` problem (400) is passed
+ * to the error handler, listing every failing field:
+ * ```
+ * {
+ *   "type": "urn:weare-demo:problem:validation-failed",
+ *   "title": "Invalid request",
+ *   "status": 400,
+ *   "errors": [{ "location": "query", "field": "resourceUrl", "message": "Invalid url" }]
+ * }
+ * ```
+ */
+import { NextFunction, Request, Response } from "express";
+import { ZodIssue } from "zod";
+import { RequestSchema } from "../schema/request-schema";
+import { Problem } from "../error/problem";
+
+export interface RequestValidationError {
+  location: "query" | "body";
+  field: string;
+  message: string;
+}
+
+export function validateRequest(this: { schema: RequestSchema }, req: Request, res: Response, next: NextFunction) {
+  const errors: RequestValidationError[] = [];
+  const toErrors = (location: "query" | "body") => (issue: ZodIssue): RequestValidationError =>
+    ({ location, field: issue.path.join("."), message: issue.message });
+
+  if (this.schema.query) {
+    const result = this.schema.query.safeParse(req.query);
+    if (result.success)
+      Object.defineProperty(req, "query", { value: result.data, writable: true, configurable: true, enumerable: true });
+    else
+      errors.push(...result.error.issues.map(toErrors("query")));
+  }
+
+  if (this.schema.body) {
+    const result = this.schema.body.safeParse(req.body);
+    if (result.success)
+      req.body = result.data;
+    else
+      errors.push(...result.error.issues.map(toErrors("body")));
+  }
+
+  if (errors.length > 0) {
+    const fields = errors.map((error) => `${error.location}.${error.field}`).join(", ");
+    next(new Problem("validation-failed", 400, "Invalid request", `Invalid fields: ${fields}`, { errors }));
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,57 @@
+/**
+ * Middleware protecting the state-changing routes against cross-site request forgery (CSRF).
+ *
+ * A random token is kept on the express session and handed to the frontend by `/session-information`. Every `POST`,
+ * `PUT`, `PATCH` and `DELETE` request must echo that token in the `X-CSRF-Token` header. A cross-site page can make
+ * the browser send the session cookie, but it cannot read the token:
+ * ```
+ * app.use(session(createSessionOptions(config.session, services.sessionStore)));
+ * app.use(verifyCsrfToken);
+ * ```
+ *
+ * When the token is missing or does not match, a `csrf-token-invalid` problem (403) is passed to the error handler.
+ */
+import crypto from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { Problem } from "../error/problem";
+
+declare module "express-session" {
+  interface SessionData {
+    csrfToken?: string;
+  }
+}
+
+export const CSRF_TOKEN_HEADER = "X-CSRF-Token";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Returns the CSRF token of the session, generating one when the session has none yet.
+ */
+export function getCsrfToken(session: { csrfToken?: string }): string {
+  if (!session.csrfToken)
+    session.csrfToken = crypto.randomBytes(32).toString("base64url");
+  return session.csrfToken;
+}
+
+export function verifyCsrfToken(req: Request, res: Response, next: NextFunction) {
+  if (SAFE_METHODS.includes(req.method)) {
+    next();
+    return;
+  }
+
+  const expected = req.session?.csrfToken;
+  const actual = req.get(CSRF_TOKEN_HEADER);
+  if (!expected || !actual || !tokensEqual(expected, actual)) {
+    next(new Problem("csrf-token-invalid", 403, "Invalid CSRF token", `The ${CSRF_TOKEN_HEADER} header is missing or does not match the session`));
+    return;
+  }
+
+  next();
+}
+
+function tokensEqual(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+  return expectedBuffer.length === actualBuffer.length && crypto.timingSafeEqual(expectedBuffer, actualBuffer);
+}
@@ -0,0 +1,113 @@
+/**
+ * Generates the OpenAPI 3 document of the back end from the route definitions in the `src/schema` folder.
+ *
+ * For every route, the query parameters and the request body are derived from its zod request schema, and the
+ * responses from its declared responses. Every route additionally documents the RFC 7807 problem returned on errors,
+ * and state-changing routes the CSRF token they require.
+ *
+ * Example usage:
+ * ```
+ * const document = generateOpenApiDocument([...podRoutes, ...vcRoutes], new URL("http://localhost:3001"));
+ * ```
+ */
+import { z, ZodObject, ZodOptional, ZodTypeAny } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { RouteDefinition } from "../schema/request-schema";
+import { CSRF_TOKEN_HEADER } from "../middleware/verify-csrf-token";
+
+type JsonSchema = { [key: string]: unknown };
+
+const problemSchema = z.object({
+  type: z.string(),
+  title: z.string(),
+  status: z.number().int(),
+  detail: z.string().optional(),
+  instance: z.string().optional(),
+  correlationId: z.string().optional(),
+}).passthrough();
+
+export function generateOpenApiDocument(routes: RouteDefinition[], serverUrl: URL) {
+  const paths: { [path: string]: { [method: string]: unknown } } = {};
+
+  routes.forEach((route) => {
+    const responses: { [status: string]: unknown } = {};
+    Object.entries(route.responses).forEach(([status, response]) => {
+      responses[status] = {
+        description: response.description,
+        ...(response.schema || response.contentType ? {
+          content: Object.fromEntries([response.contentType ?? "application/json"].flat()
+            .map((contentType) => [contentType, { schema: response.schema ? toJsonSchema(response.schema) : {} }])),
+        } : {}),
+      };
+    });
+    responses.default = {
+      description: "An RFC 7807 problem",
+      content: { "application/problem+json": { schema: { $ref: "#/components/schemas/Problem" } } },
+    };
+
+    paths[route.path] = {
+      ...paths[route.path],
+      [route.method]: {
+        operationId: operationId(route),
+        summary: route.summary,
+        description: route.description,
+        tags: [route.tag],
+        parameters: route.schema.query ? toQueryParameters(route.schema.query) : [],
+        ...(route.schema.body ? {
+          requestBody: {
+            required: !route.schema.body.isOptional(),
+            content: Object.fromEntries([route.bodyContentType ?? "application/json"].flat()
+              .map((contentType) => [contentType, { schema: toJsonSchema(route.schema.body!) }])),
+          },
+        } : {}),
+        responses,
+        ...(route.method !== "get" ? { security: [{ csrfToken: [] }] } : {}),
+      },
+    };
+  });
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "We Are Demo Back-End",
+      version: process.env.npm_package_version ?? "1.0.0",
+    },
+    servers: [{ url: serverUrl.origin }],
+    paths,
+    components: {
+      schemas: { Problem: toJsonSchema(problemSchema) },
+      securitySchemes: {
+        csrfToken: { type: "apiKey", in: "header", name: CSRF_TOKEN_HEADER },
+      },
+    },
+  };
+}
+
+// The generic signature of `zodToJsonSchema` is too deep for the compiler when called with a `ZodTypeAny`.
+const convertSchema = zodToJsonSchema as unknown as (schema: ZodTypeAny, options: { target: "openApi3"; $refStrategy: "none" }) => JsonSchema;
+
+function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const { $schema, ...jsonSchema } = convertSchema(schema, { target: "openApi3", $refStrategy: "none" });
+  return jsonSchema;
+}
+
+function toQueryParameters(schema: ZodTypeAny) {
+  if (!(schema instanceof ZodObject))
+    throw new Error("Query schemas must be zod objects");
+
+  return Object.entries(schema.shape as { [key: string]: ZodTypeAny }).map(([name, parameter]) => ({
+    name,
+    in: "query",
+    required: !parameter.isOptional(),
+    schema: toJsonSchema(parameter instanceof ZodOptional ? parameter.unwrap() : parameter),
+  }));
+}
+
+/**
+ * Derives an operation id like `getAccessGrant` or `postAccessRequestApprove` from the method and path, used as the
+ * method name by client generators.
+ */
+function operationId(route: RouteDefinition): string {
+  return route.method + route.path.split(/[/-]/).filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1)).join("");
+}
@@ -0,0 +1,102 @@
+/**
+ * Converts the JSON description of a partial update accepted by `PATCH /resource` into a SPARQL Update, which the pod
+ * applies to the resource.
+ *
+ * The JSON lists the values to remove and add per Thing, in the shape of the simplified JSON view of `/read`:
+ * ```
+ * {
+ *   "things": [{
+ *     "url": "https://pod.example/citizen/profile#me",
+ *     "remove": { "http://xmlns.com/foaf/0.1/name": ["Old name"] },
+ *     "add": { "http://xmlns.com/foaf/0.1/name": ["New name"], "http://xmlns.com/foaf/0.1/knows": [{ "@id": "https://pod.example/friend#me" }] }
+ *   }]
+ * }
+ * ```
+ *
+ * Values are given as:
+ * - Strings for plain string literals.
+ * - Numbers and booleans for `xsd:integer`, `xsd:double` and `xsd:boolean` literals. Integers too large to write
+ *   without exponent, such as `1e21`, are `xsd:double` as well.
+ * - `{ "@id": "..." }` for IRIs.
+ * - `{ "@value": "...", "@type": "..." }` or `{ "@value": "...", "@language": "..." }` for other literals.
+ *
+ * Example usage:
+ * ```
+ * const sparqlUpdate = jsonPatchToSparqlUpdate(req.body);
+ * ```
+ */
+export type PatchValue =
+  | string
+  | number
+  | boolean
+  | { "@id": string }
+  | { "@value": string; "@type"?: string; "@language"?: string };
+
+export interface ThingPatch {
+  url: string;
+  add?: { [predicate: string]: PatchValue[] };
+  remove?: { [predicate: string]: PatchValue[] };
+}
+
+export interface JsonPatch {
+  things: ThingPatch[];
+}
+
+const XSD = "http://www.w3.org/2001/XMLSchema#";
+
+/**
+ * The syntax of a BCP47 language tag, as far as SPARQL accepts it after the `@` of a literal.
+ */
+export const LANGUAGE_TAG_PATTERN = /^[a-zA-Z]+(-[a-zA-Z0-9]+)*$/;
+
+/**
+ * Returns the SPARQL Update removing and then adding the values of the patch. The removals are a `DELETE DATA`, so
+ * they only remove the exact values listed.
+ */
+export function jsonPatchToSparqlUpdate(patch: JsonPatch): string {
+  const removals = patch.things.flatMap((thing) => toTriples(thing.url, thing.remove));
+  const additions = patch.things.flatMap((thing) => toTriples(thing.url, thing.add));
+
+  return [
+    ...(removals.length > 0 ? [`DELETE DATA {\n${removals.join("\n")}\n}`] : []),
+    ...(additions.length > 0 ? [`INSERT DATA {\n${additions.join("\n")}\n}`] : []),
+  ].join(";\n");
+}
+
+function toTriples(subject: string, properties: { [predicate: string]: PatchValue[] } = {}): string[] {
+  return Object.entries(properties).flatMap(([predicate, values]) =>
+    values.map((value) => `  ${serializeIri(subject)} ${serializeIri(predicate)} ${serializeValue(value)} .`));
+}
+
+function serializeValue(value: PatchValue): string {
+  if (typeof value === "string")
+    return serializeLiteral(value);
+  if (typeof value === "boolean")
+    return serializeLiteral(String(value), `${XSD}boolean`);
+  if (typeof value === "number")
+    return serializeLiteral(String(value), /^-?\d+$/.test(String(value)) ? `${XSD}integer` : `${XSD}double`);
+  if ("@id" in value)
+    return serializeIri(value["@id"]);
+  return serializeLiteral(value["@value"], value["@type"], value["@language"]);
+}
+
+/**
+ * Serializes an IRI in SPARQL. Unlike a general RDF writer, every character that may not appear in an IRI is escaped,
+ * as the IRIs come from the client.
+ */
+function serializeIri(iri: string): string {
+  return `<${iri.replace(/[\u0000- <>"{}|^`\\]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0").toUpperCase()}`)}>`;
+}
+
+/**
+ * Serializes a literal in SPARQL. Plain strings are written without datatype. A language that is not a BCP47 language
+ * tag is rejected, as it is written unescaped.
+ */
+function serializeLiteral(value: string, datatype: string = `${XSD}string`, language?: string): string {
+  if (language && !LANGUAGE_TAG_PATTERN.test(language))
+    throw new Error(`Cannot serialize a literal with language [${language}]`);
+  const literal = `"${value.replace(/[\\"\n\r]/g, (char) => ({ "\\": "\\\\", "\"": "\\\"", "\n": "\\n", "\r": "\\r" })[char]!)}"`;
+  if (language)
+    return `${literal}@${language}`;
+  return datatype === `${XSD}string` ? literal : `${literal}^^${serializeIri(datatype)}`;
+}
@@ -0,0 +1,135 @@
+/**
+ * Serializes the Solid datasets read from a pod in the media types offered by `/read`:
+ * - `text/turtle`: Turtle, the default.
+ * - `application/ld+json`: Expanded JSON-LD, with a `@graph` object for every named graph.
+ * - `application/n-triples`: N-Triples, the triples of all graphs.
+ * - `application/n-quads`: N-Quads, including the graph of every quad.
+ * - `application/json`: A simplified JSON view of the Things in the dataset, see `SimplifiedThing`.
+ *
+ * Example usage:
+ * ```
+ * const body = await serializeDataset(res.locals.solidDataset, "application/n-triples");
+ * ```
+ */
+import { SolidDataset, solidDatasetAsTurtle, toRdfJsDataset } from "@inrupt/solid-client";
+import type { Quad, Term } from "@rdfjs/types";
+import { DataFactory, Writer } from "n3";
+
+export const RDF_MEDIA_TYPES = [
+  "text/turtle",
+  "application/ld+json",
+  "application/n-triples",
+  "application/n-quads",
+  "application/json",
+] as const;
+
+export type RdfMediaType = typeof RDF_MEDIA_TYPES[number];
+
+/**
+ * A Thing of the simplified JSON view: the URL of the subject and the values of its predicates. IRIs are given as
+ * strings, blank nodes as `_:id`, numeric and boolean literals as JSON numbers and booleans, other literals as strings.
+ */
+export interface SimplifiedThing {
+  url: string;
+  properties: { [predicate: string]: (string | number | boolean)[] };
+}
+
+const XSD = "http://www.w3.org/2001/XMLSchema#";
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
+const RDF_LANG_STRING = "http://www.w3.org/1999/02/22-rdf-syntax-ns#langString";
+const NUMERIC_TYPES = ["integer", "decimal", "double", "float", "int", "long", "short", "byte",
+  "nonNegativeInteger", "positiveInteger", "nonPositiveInteger", "negativeInteger",
+  "unsignedInt", "unsignedLong", "unsignedShort", "unsignedByte"].map((type) => `${XSD}${type}`);
+
+export async function serializeDataset(dataset: SolidDataset, mediaType: RdfMediaType): Promise<string> {
+  if (mediaType === "text/turtle")
+    return solidDatasetAsTurtle(dataset);
+
+  const quads = [...toRdfJsDataset(dataset)];
+  switch (mediaType) {
+    case "application/ld+json":
+      return JSON.stringify(toJsonLd(quads));
+    case "application/n-triples":
+      return new Writer({ format: "N-Triples" }).quadsToString(quads.map((quad) =>
+        DataFactory.quad(withBlankNodeLabel(quad.subject), quad.predicate, withBlankNodeLabel(quad.object))));
+    case "application/n-quads":
+      return new Writer({ format: "N-Quads" }).quadsToString(quads.map((quad) =>
+        DataFactory.quad(withBlankNodeLabel(quad.subject), quad.predicate, withBlankNodeLabel(quad.object), withBlankNodeLabel(quad.graph))));
+    case "application/json":
+      return JSON.stringify({ things: toSimplifiedThings(quads) });
+  }
+}
+
+function blankNodeLabel(value: string): string {
+  return value.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+/**
+ * Returns the term with a blank node label that is valid in N-Triples and N-Quads, which the N3 writer doesn't ensure.
+ */
+function withBlankNodeLabel<T extends Term>(term: T): T {
+  return (term.termType === "BlankNode" ? DataFactory.blankNode(blankNodeLabel(term.value)) : term) as T;
+}
+
+function nodeId(term: Term): string {
+  return term.termType === "BlankNode" ? `_:${blankNodeLabel(term.value)}` : term.value;
+}
+
+function toJsonLd(quads: Quad[]): object[] {
+  const graphs = new Map<string, Map<string, { [key: string]: any }>>();
+
+  quads.forEach((quad) => {
+    const graphId = quad.graph.termType === "DefaultGraph" ? "" : nodeId(quad.graph);
+    const nodes = graphs.get(graphId) ?? new Map();
+    graphs.set(graphId, nodes);
+
+    const subjectId = nodeId(quad.subject);
+    const node = nodes.get(subjectId) ?? { "@id": subjectId };
+    nodes.set(subjectId, node);
+
+    if (quad.predicate.value === RDF_TYPE && quad.object.termType === "NamedNode") {
+      node["@type"] = [...(node["@type"] ?? []), quad.object.value];
+      return;
+    }
+    node[quad.predicate.value] = [...(node[quad.predicate.value] ?? []), toJsonLdValue(quad.object)];
+  });
+
+  const defaultGraph = [...(graphs.get("")?.values() ?? [])];
+  const namedGraphs = [...graphs.entries()]
+    .filter(([graphId]) => graphId !== "")
+    .map(([graphId, nodes]) => ({ "@id": graphId, "@graph": [...nodes.values()] }));
+  return [...defaultGraph, ...namedGraphs];
+}
+
+function toJsonLdValue(term: Term): object {
+  if (term.termType !== "Literal")
+    return { "@id": nodeId(term) };
+  if (term.language)
+    return { "@value": term.value, "@language": term.language };
+  if (term.datatype.value === `${XSD}string` || term.datatype.value === RDF_LANG_STRING)
+    return { "@value": term.value };
+  return { "@value": term.value, "@type": term.datatype.value };
+}
+
+function toSimplifiedThings(quads: Quad[]): SimplifiedThing[] {
+  const things = new Map<string, SimplifiedThing>();
+
+  quads.forEach((quad) => {
+    const url = nodeId(quad.subject);
+    const thing = things.get(url) ?? { url, properties: {} };
+    things.set(url, thing);
+    thing.properties[quad.predicate.value] = [...(thing.properties[quad.predicate.value] ?? []), toSimplifiedValue(quad.object)];
+  });
+
+  return [...things.values()];
+}
+
+function toSimplifiedValue(term: Term): string | number | boolean {
+  if (term.termType !== "Literal")
+    return nodeId(term);
+  if (NUMERIC_TYPES.includes(term.datatype.value) && !Number.isNaN(Number(term.value)))
+    return Number(term.value);
+  if (term.datatype.value === `${XSD}boolean`)
+    return term.value === "true" || term.value === "1";
+  return term.value;
+}
@@ -0,0 +1,73 @@
+/**
+ * Route definitions of the audit trail endpoints in `audit-endpoint.ts`.
+ */
+import { z } from "zod";
+import { dateSchema, RouteDefinition, urlSchema } from "./request-schema";
+import { AUDIT_ACTIONS } from "../audit/audit-trail";
+import { AUDIT_EXPORT_CONTENT_TYPES } from "../audit/audit-export";
+
+export const auditEntrySchema = z.object({
+  id: z.string(),
+  timestamp: z.string().datetime(),
+  action: z.enum(AUDIT_ACTIONS),
+  outcome: z.enum(["success", "failure"]),
+  status: z.number().int(),
+  owner: z.string().optional(),
+  actor: z.string().optional(),
+  session: z.string(),
+  resources: z.array(z.string()),
+  accessGrantId: z.string().optional(),
+  accessRequestId: z.string().optional(),
+  purposes: z.array(z.string()),
+  correlationId: z.string().optional(),
+});
+
+const auditQuerySchema = z.object({
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+  resource: urlSchema.optional(),
+  accessGrantId: urlSchema.optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+});
+
+export const listAuditEntriesRoute = {
+  method: "get",
+  path: "/audit",
+  summary: "List the audit trail of the data of the logged in user",
+  description: "Lists the pod operations, access requests and access grant activations concerning the data of the logged in owner, "
+    + "the most recent first. `from` is inclusive, `to` exclusive. A `resource` ending with a slash matches the resources in that container.",
+  tag: "audit",
+  schema: {
+    query: auditQuerySchema.extend({
+      limit: z.coerce.number().int().min(1).max(1000).default(100),
+    }),
+  },
+  responses: {
+    200: {
+      description: "The audit entries, and whether more entries matched than the limit",
+      schema: z.object({ items: z.array(auditEntrySchema), truncated: z.boolean() }),
+    },
+  },
+} satisfies RouteDefinition;
+
+export type ListAuditEntriesQuery = z.infer<typeof listAuditEntriesRoute.schema.query>;
+
+export const exportAuditEntriesRoute = {
+  method: "get",
+  path: "/audit/export",
+  summary: "Export the audit trail of the data of the logged in user",
+  description: "Exports all matching audit entries in the order they were recorded, as a CSV file or as JSON Lines.",
+  tag: "audit",
+  schema: {
+    query: auditQuerySchema.extend({
+      format: z.enum(["csv", "jsonl"]).default("csv"),
+    }),
+  },
+  responses: {
+    200: { description: "The audit entries as an attachment", contentType: Object.values(AUDIT_EXPORT_CONTENT_TYPES), schema: z.string() },
+  },
+} satisfies RouteDefinition;
+
+export type ExportAuditEntriesQuery = z.infer<typeof exportAuditEntriesRoute.schema.query>;
+
+export const auditRoutes: RouteDefinition[] = [listAuditEntriesRoute, exportAuditEntriesRoute];
@@ -0,0 +1,73 @@
+/**
+ * Route definitions of the authentication endpoints in `authentication-endpoint.ts`.
+ */
+import { z } from "zod";
+import { booleanQuerySchema, redirectResponse, RouteDefinition, urlSchema } from "./request-schema";
+
+/**
+ * A URL to redirect to after login or logout. It must also be on the redirect allowlist, see `validateRedirectUrl`.
+ */
+const redirectUrlSchema = urlSchema.describe("Must be on the redirect allowlist");
+
+export const loginRoute = {
+  method: "get",
+  path: "/login",
+  summary: "Start a login with the citizen OIDC provider",
+  tag: "authentication",
+  schema: {
+    query: z.object({
+      redirectUrl: redirectUrlSchema.optional(),
+      switchIdentity: booleanQuerySchema.optional(),
+      saveTokens: booleanQuerySchema.optional(),
+      provider: z.string().describe("The name of an identity provider profile, the default profile when missing").optional(),
+    }),
+  },
+  responses: { 302: redirectResponse },
+} satisfies RouteDefinition;
+
+export type LoginQuery = z.infer<typeof loginRoute.schema.query>;
+
+export const logoutRoute = {
+  method: "get",
+  path: "/logout",
+  summary: "Log out and clear the session",
+  tag: "authentication",
+  schema: {
+    query: z.object({
+      redirectUrl: redirectUrlSchema.optional(),
+    }),
+  },
+  responses: { 302: { description: "Redirect to the frontend with `logout=success` or `logout=error`" } },
+} satisfies RouteDefinition;
+
+export type LogoutQuery = z.infer<typeof logoutRoute.schema.query>;
+
+export const deleteAccountRoute = {
+  method: "get",
+  path: "/delete-account",
+  summary: "Delete the WebID and pod of the logged in user",
+  description: "Redirects to the OIDC provider to re-authenticate, the deletion is performed on the redirect back.",
+  tag: "authentication",
+  schema: {},
+  responses: { 302: redirectResponse },
+} satisfies RouteDefinition;
+
+export const oidcRedirectRoute = {
+  method: "get",
+  path: "/oidc-redirect",
+  summary: "Handle the redirect back from the OIDC provider",
+  tag: "authentication",
+  schema: {
+    query: z.object({
+      code: z.string().optional(),
+      state: z.string().optional(),
+      error: z.string().optional(),
+      error_description: z.string().optional(),
+    }).passthrough(),
+  },
+  responses: { 302: redirectResponse },
+} satisfies RouteDefinition;
+
+export type OidcRedirectQuery = z.infer<typeof oidcRedirectRoute.schema.query>;
+
+export const authenticationRoutes: RouteDefinition[] = [loginRoute, logoutRoute, deleteAccountRoute, oidcRedirectRoute];
@@ -0,0 +1,47 @@
+/**
+ * Route definitions of the health endpoints in `health-endpoint.ts`.
+ */
+import { z } from "zod";
+import { RouteDefinition } from "./request-schema";
+
+export const readinessResponseSchema = z.object({
+  status: z.enum(["ready", "not_ready"]),
+  checks: z.record(z.object({
+    status: z.enum(["up", "down"]),
+    detail: z.string().optional(),
+  })),
+});
+
+export type ReadinessResponse = z.infer<typeof readinessResponseSchema>;
+
+export const healthRoute = {
+  method: "get",
+  path: "/health",
+  summary: "Check whether the back end is running",
+  tag: "health",
+  schema: {},
+  responses: { 200: { description: "The back end is running", schema: z.object({ status: z.literal("up") }) } },
+} satisfies RouteDefinition;
+
+export const readyRoute = {
+  method: "get",
+  path: "/ready",
+  summary: "Check whether the back end and its dependencies are ready to serve requests",
+  tag: "health",
+  schema: {},
+  responses: {
+    200: { description: "All checks passed", schema: readinessResponseSchema },
+    503: { description: "One or more checks failed", schema: readinessResponseSchema },
+  },
+} satisfies RouteDefinition;
+
+export const metricsRoute = {
+  method: "get",
+  path: "/metrics",
+  summary: "Get the Prometheus metrics of the back end",
+  tag: "health",
+  schema: {},
+  responses: { 200: { description: "The metrics in the Prometheus text format", contentType: "text/plain", schema: z.string() } },
+} satisfies RouteDefinition;
+
+export const healthRoutes: RouteDefinition[] = [healthRoute, readyRoute, metricsRoute];
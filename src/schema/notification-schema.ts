@@ -0,0 +1,32 @@
+/**
+ * Route definitions of the notification endpoints in `notification-endpoint.ts`.
+ */
+import { z } from "zod";
+import { RouteDefinition, urlSchema } from "./request-schema";
+
+export const notificationWebhookRoute = {
+  method: "post",
+  path: "/notifications/webhook",
+  summary: "Receive a Solid notification about a subscribed pod resource",
+  description: "The webhook the notification servers of the pods post to, see `WebhookChannel2023`. The notification "
+    + "is relayed as a `resource-changed` event of `/session/events`. Requires no session or CSRF token.",
+  tag: "session",
+  schema: {
+    query: z.object({
+      subscription: z.string().regex(/^[A-Za-z0-9_-]{43}$/, "Expected the webhook token of a subscription"),
+    }),
+    body: z.object({
+      type: z.string(),
+      object: urlSchema,
+      target: urlSchema.optional(),
+      published: z.string().optional(),
+    }).passthrough(),
+  },
+  bodyContentType: ["application/ld+json", "application/json"],
+  responses: { 202: { description: "The notification is relayed" } },
+} satisfies RouteDefinition;
+
+export type NotificationWebhookQuery = z.infer<typeof notificationWebhookRoute.schema.query>;
+export type NotificationWebhookBody = z.infer<typeof notificationWebhookRoute.schema.body>;
+
+export const notificationRoutes: RouteDefinition[] = [notificationWebhookRoute];
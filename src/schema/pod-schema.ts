@@ -0,0 +1,270 @@
+/**
+ * Route definitions of the pod endpoints in `pod-endpoint.ts`.
+ */
+import { z } from "zod";
+import { RouteDefinition, textResponse, urlSchema } from "./request-schema";
+import { RDF_MEDIA_TYPES } from "../rdf/rdf-serializer";
+import { LANGUAGE_TAG_PATTERN } from "../rdf/json-patch";
+
+const resourceQuerySchema = z.object({
+  resourceUrl: urlSchema,
+  accessGrantId: urlSchema.optional(),
+});
+
+const fileQuerySchema = z.object({
+  fileUrl: urlSchema,
+  accessGrantId: urlSchema.optional(),
+});
+
+export const readRoute = {
+  method: "get",
+  path: "/read",
+  summary: "Read an RDF resource from the pod",
+  description: "The resource is returned in the media type negotiated with the `Accept` header, Turtle by default. `application/json` returns a simplified view of the Things in the resource.",
+  tag: "pod",
+  schema: { query: resourceQuerySchema },
+  responses: {
+    200: { description: "The resource", contentType: RDF_MEDIA_TYPES, schema: z.string() },
+    406: { description: "The resource is not available in an accepted media type" },
+  },
+} satisfies RouteDefinition;
+
+export type ReadQuery = z.infer<typeof readRoute.schema.query>;
+
+export const readFileRoute = {
+  method: "get",
+  path: "/read-file",
+  summary: "Read a file from the pod",
+  description: "The file is streamed with the content type, length and ETag of the pod. A matching `If-None-Match` header returns 304, a single byte range in the `Range` header returns that part of the file.",
+  tag: "pod",
+  schema: { query: fileQuerySchema },
+  responses: {
+    200: { description: "The file", contentType: "application/octet-stream" },
+    206: { description: "The byte range of the file", contentType: "application/octet-stream" },
+    304: { description: "The file matches the ETag of the `If-None-Match` header" },
+    406: { description: "The content type of the file is not accepted" },
+    416: { description: "The byte range lies outside the file" },
+  },
+} satisfies RouteDefinition;
+
+export type ReadFileQuery = z.infer<typeof readFileRoute.schema.query>;
+
+export const writeRoute = {
+  method: "post",
+  path: "/write",
+  summary: "Write an RDF resource to the pod",
+  tag: "pod",
+  schema: {
+    query: resourceQuerySchema,
+    body: z.string().min(1, "Expected an RDF/turtle body"),
+  },
+  bodyContentType: "text/plain",
+  responses: { 200: textResponse("The resource was created") },
+} satisfies RouteDefinition;
+
+export type WriteQuery = z.infer<typeof writeRoute.schema.query>;
+
+export const writeFileRoute = {
+  method: "post",
+  path: "/write-file",
+  summary: "Write a file to the pod",
+  description: "The body is streamed to the pod with its content type. When the content type is missing or `application/octet-stream`, it is detected from the content and name of the file.",
+  tag: "pod",
+  schema: { query: fileQuerySchema },
+  bodyContentType: "application/octet-stream",
+  responses: {
+    200: textResponse("The file was created"),
+    413: { description: "The file exceeds the maximum file size" },
+  },
+} satisfies RouteDefinition;
+
+export type WriteFileQuery = z.infer<typeof writeFileRoute.schema.query>;
+
+const containerUrlSchema = urlSchema.refine((url) => url.endsWith("/"), "Expected a container URL ending with a slash");
+
+const containerQuerySchema = z.object({
+  containerUrl: containerUrlSchema,
+  accessGrantId: urlSchema.optional(),
+});
+
+export const containerListingSchema = z.object({
+  url: z.string(),
+  resources: z.array(z.object({
+    url: z.string(),
+    type: z.enum(["container", "resource"]),
+    size: z.number().optional(),
+    modified: z.string().optional(),
+  })),
+});
+
+export const resourceMetadataSchema = z.object({
+  url: z.string(),
+  type: z.enum(["container", "resource"]),
+  contentType: z.string().optional(),
+  size: z.number().optional(),
+  modified: z.string().optional(),
+  etag: z.string().optional(),
+});
+
+export const listContainerRoute = {
+  method: "get",
+  path: "/container",
+  summary: "List the resources in a pod container",
+  description: "Every contained resource is listed with its type and, when the pod describes them, its size and modified date.",
+  tag: "pod",
+  schema: { query: containerQuerySchema },
+  responses: { 200: { description: "The contents of the container", schema: containerListingSchema } },
+} satisfies RouteDefinition;
+
+export type ListContainerQuery = z.infer<typeof listContainerRoute.schema.query>;
+
+export const writeFilesRoute = {
+  method: "post",
+  path: "/write-files",
+  summary: "Write the files of a multipart upload to a container in the pod",
+  description: "Every file of the `multipart/form-data` body is streamed to the container under its file name, with the content type of its part or a detected content type.",
+  tag: "pod",
+  schema: { query: containerQuerySchema },
+  bodyContentType: "multipart/form-data",
+  responses: {
+    201: {
+      description: "The written files",
+      schema: z.object({ files: z.array(z.object({ url: z.string(), contentType: z.string() })) }),
+    },
+    413: { description: "A file exceeds the maximum file size, or the upload holds too many files" },
+    415: { description: "The body is not multipart/form-data" },
+  },
+} satisfies RouteDefinition;
+
+export type WriteFilesQuery = z.infer<typeof writeFilesRoute.schema.query>;
+
+export const createContainerRoute = {
+  method: "post",
+  path: "/container",
+  summary: "Create a container in the pod",
+  tag: "pod",
+  schema: { query: containerQuerySchema },
+  responses: { 201: textResponse("The container was created") },
+} satisfies RouteDefinition;
+
+export type CreateContainerQuery = z.infer<typeof createContainerRoute.schema.query>;
+
+export const deleteResourceRoute = {
+  method: "delete",
+  path: "/resource",
+  summary: "Delete a resource or an empty container from the pod",
+  tag: "pod",
+  schema: { query: resourceQuerySchema },
+  responses: {
+    200: textResponse("The resource was deleted"),
+    409: { description: "The container is not empty" },
+  },
+} satisfies RouteDefinition;
+
+export type DeleteResourceQuery = z.infer<typeof deleteResourceRoute.schema.query>;
+
+const transferQuerySchema = z.object({
+  resourceUrl: urlSchema.refine((url) => !url.endsWith("/"), "Containers can't be copied or moved"),
+  destinationUrl: urlSchema.refine((url) => !url.endsWith("/"), "Expected the URL of a resource, not a container"),
+  accessGrantId: urlSchema.optional(),
+});
+
+export const copyResourceRoute = {
+  method: "post",
+  path: "/resource/copy",
+  summary: "Copy a resource in the pod",
+  description: "The access grant must cover both the resource and the destination. An existing destination is overwritten.",
+  tag: "pod",
+  schema: { query: transferQuerySchema },
+  responses: { 201: textResponse("The resource was copied") },
+} satisfies RouteDefinition;
+
+export type CopyResourceQuery = z.infer<typeof copyResourceRoute.schema.query>;
+
+export const moveResourceRoute = {
+  method: "post",
+  path: "/resource/move",
+  summary: "Move a resource in the pod",
+  description: "The resource is copied to the destination and then deleted. The access grant must cover both the resource and the destination. The copy is not rolled back when the delete fails: a `pod-move-incomplete` problem (502) then tells that the resource still exists next to its copy.",
+  tag: "pod",
+  schema: { query: transferQuerySchema },
+  responses: {
+    201: textResponse("The resource was moved"),
+    502: { description: "The resource was copied, but deleting it failed, so it still exists" },
+  },
+} satisfies RouteDefinition;
+
+export type MoveResourceQuery = z.infer<typeof moveResourceRoute.schema.query>;
+
+export const resourceMetadataRoute = {
+  method: "get",
+  path: "/resource/metadata",
+  summary: "Read the metadata of a resource in the pod",
+  tag: "pod",
+  schema: { query: resourceQuerySchema },
+  responses: { 200: { description: "The metadata of the resource", schema: resourceMetadataSchema } },
+} satisfies RouteDefinition;
+
+export type ResourceMetadataQuery = z.infer<typeof resourceMetadataRoute.schema.query>;
+
+/**
+ * The media types of the bodies of `PATCH /resource`: SPARQL Update and N3 Patch are applied by the pod, the JSON
+ * description is converted into a SPARQL Update, see `json-patch.ts`.
+ */
+export const PATCH_MEDIA_TYPES = ["application/sparql-update", "text/n3", "application/json"] as const;
+
+const patchValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.object({ "@id": urlSchema }).strict(),
+  z.object({ "@value": z.string(), "@type": urlSchema.optional(), "@language": z.string().regex(LANGUAGE_TAG_PATTERN, "Expected a BCP47 language tag").optional() }).strict(),
+]);
+
+const patchPropertiesSchema = z.record(urlSchema, z.array(patchValueSchema));
+
+export const jsonPatchSchema = z.object({
+  things: z.array(z.object({
+    url: urlSchema,
+    add: patchPropertiesSchema.optional(),
+    remove: patchPropertiesSchema.optional(),
+  })).min(1),
+}).refine((patch) => patch.things.some((thing) => [thing.add, thing.remove].some((properties) =>
+  Object.values(properties ?? {}).some((values) => values.length > 0))), "Expected at least one value to add or remove");
+
+export const patchResourceRoute = {
+  method: "patch",
+  path: "/resource",
+  summary: "Partially update an RDF resource in the pod",
+  description: "The body is a SPARQL Update, an N3 Patch or a JSON description of the values to add and remove per Thing. With an `If-Match` header the patch is only applied when the resource still has that ETag, see `/resource/metadata`.",
+  tag: "pod",
+  schema: {
+    query: resourceQuerySchema,
+    body: z.union([z.string().min(1, "Expected a SPARQL Update or N3 Patch body"), jsonPatchSchema]),
+  },
+  bodyContentType: PATCH_MEDIA_TYPES,
+  responses: {
+    200: textResponse("The resource was updated, its new ETag is returned in the `ETag` header"),
+    409: { description: "The patch doesn't apply to the resource, e.g. it deletes values that don't exist" },
+    412: { description: "The resource was changed since the ETag of the `If-Match` header" },
+    415: { description: "The body is not in one of the supported media types" },
+  },
+} satisfies RouteDefinition;
+
+export type PatchResourceQuery = z.infer<typeof patchResourceRoute.schema.query>;
+export type PatchResourceBody = z.infer<typeof patchResourceRoute.schema.body>;
+
+export const podRoutes: RouteDefinition[] = [
+  readRoute,
+  readFileRoute,
+  writeRoute,
+  writeFileRoute,
+  writeFilesRoute,
+  listContainerRoute,
+  createContainerRoute,
+  deleteResourceRoute,
+  patchResourceRoute,
+  copyResourceRoute,
+  moveResourceRoute,
+  resourceMetadataRoute,
+];
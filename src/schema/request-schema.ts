@@ -0,0 +1,64 @@
+/**
+ * Building blocks for the declared route definitions of the endpoints.
+ *
+ * Every route declares a `RouteDefinition` with its method, path, a `RequestSchema` (zod schemas for its query
+ * parameters and/or body) and its responses. The endpoints register their routes from these definitions and enforce
+ * the request schemas with the `validateRequest` middleware, the types of the parsed values are derived from them with
+ * `z.infer`, and the OpenAPI document is generated from them. This way the handlers, the validation and the
+ * documentation can't drift apart.
+ */
+import { z, ZodTypeAny } from "zod";
+
+export interface RequestSchema {
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+export interface ResponseDefinition {
+  description: string;
+  /**
+   * The content type of the response, or the content types it is available in. `application/json` when omitted.
+   */
+  contentType?: string | readonly string[];
+  schema?: ZodTypeAny;
+}
+
+export interface RouteDefinition {
+  method: "get" | "post" | "put" | "patch" | "delete";
+  path: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  schema: RequestSchema;
+  /**
+   * The content type of the request body, or the content types it is accepted in. `application/json` when omitted.
+   */
+  bodyContentType?: string | readonly string[];
+  responses: { [status: number]: ResponseDefinition };
+}
+
+/**
+ * An absolute URL, e.g. of a resource, WebID or purpose.
+ */
+export const urlSchema = z.string().url();
+
+/**
+ * A date in a format accepted by `new Date()`, parsed into a `Date`. Invalid dates are rejected.
+ */
+export const dateSchema = z.string().refine((value) => !isNaN(new Date(value).getTime()), "Invalid date")
+  .transform((value) => new Date(value));
+
+/**
+ * A boolean query parameter, given as `true` or `false`.
+ */
+export const booleanQuerySchema = z.enum(["true", "false"]).transform((value) => value === "true");
+
+/**
+ * The response of the OIDC flows: a redirect to the OIDC provider or to the frontend.
+ */
+export const redirectResponse: ResponseDefinition = { description: "Redirect to the OIDC provider or the frontend" };
+
+/**
+ * A plain text confirmation message.
+ */
+export const textResponse = (description: string): ResponseDefinition => ({ description, contentType: "text/plain", schema: z.string() });
@@ -0,0 +1,71 @@
+/**
+ * Route definitions of the session endpoints in `session-endpoint.ts`.
+ */
+import { z } from "zod";
+import { RouteDefinition } from "./request-schema";
+
+export const sessionInformationResponseSchema = z.object({
+  isLoggedIn: z.boolean(),
+  expirationDate: z.string().datetime().optional(),
+  accessGrantId: z.string().optional(),
+  accessGrantExpirationDate: z.string().datetime().optional(),
+  accessGrants: z.array(z.object({
+    id: z.string(),
+    expirationDate: z.string().datetime(),
+    resources: z.array(z.string()),
+    purposes: z.array(z.string()),
+  })),
+  webId: z.string().optional(),
+  identityProvider: z.string().optional(),
+  pods: z.array(z.string()).optional(),
+  tokens: z.object({
+    accessToken: z.string(),
+    idToken: z.string(),
+  }).optional(),
+  csrfToken: z.string().optional(),
+});
+
+export type SessionInformation = z.infer<typeof sessionInformationResponseSchema>;
+
+export const sessionInformationRoute = {
+  method: "get",
+  path: "/session-information",
+  summary: "Get information about the current session",
+  tag: "session",
+  schema: {},
+  responses: { 200: { description: "The session information", schema: sessionInformationResponseSchema } },
+} satisfies RouteDefinition;
+
+export const sessionExpiryResponseSchema = z.object({
+  expirationDate: z.string().datetime().optional(),
+  accessGrants: z.array(z.object({
+    id: z.string(),
+    expirationDate: z.string().datetime(),
+  })),
+});
+
+export type SessionExpiryResponse = z.infer<typeof sessionExpiryResponseSchema>;
+
+export const keepAliveRoute = {
+  method: "post",
+  path: "/session/keep-alive",
+  summary: "Keep the session alive",
+  description: "Extends the session by the idle timeout and refreshes the tokens of the Solid session when they are about to expire.",
+  tag: "session",
+  schema: {},
+  responses: { 200: { description: "When the session and its access grants expire", schema: sessionExpiryResponseSchema } },
+} satisfies RouteDefinition;
+
+export const sessionEventsRoute = {
+  method: "get",
+  path: "/session/events",
+  summary: "Stream the expiry events of the session",
+  description: "Server-Sent Events warning before the session or an access grant expires (`session-expiring`, "
+    + "`access-grant-expiring`) and when they have expired (`session-expired`, `access-grant-expired`), and the changes of the resources of "
+    + "the active access grants (`resource-changed`).",
+  tag: "session",
+  schema: {},
+  responses: { 200: { description: "The event stream", contentType: "text/event-stream" } },
+} satisfies RouteDefinition;
+
+export const sessionRoutes: RouteDefinition[] = [sessionInformationRoute, keepAliveRoute, sessionEventsRoute];
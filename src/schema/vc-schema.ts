@@ -0,0 +1,189 @@
+/**
+ * Route definitions of the verifiable credential endpoints in `vc-endpoint.ts`.
+ */
+import { z } from "zod";
+import { DURATION } from "@inrupt/solid-client-access-grants";
+import { dateSchema, RouteDefinition, textResponse, urlSchema } from "./request-schema";
+
+export const normalizedAccessCredentialSchema = z.object({
+  id: z.string(),
+  type: z.enum(["SolidAccessRequest", "SolidAccessGrant", "SolidAccessDenial"]).optional(),
+  owner: z.string().optional(),
+  requestor: z.string(),
+  resources: z.array(z.string()),
+  purposes: z.array(z.string()),
+  accessModes: z.object({
+    read: z.boolean().optional(),
+    write: z.boolean().optional(),
+    append: z.boolean().optional(),
+  }),
+  issuanceDate: z.string().datetime().optional(),
+  expirationDate: z.string().datetime().optional(),
+});
+
+export type NormalizedAccessCredential = z.infer<typeof normalizedAccessCredentialSchema>;
+
+export const normalizedAccessCredentialPageSchema = z.object({
+  items: z.array(normalizedAccessCredentialSchema),
+  pagination: z.object({
+    first: z.string().optional(),
+    prev: z.string().optional(),
+    next: z.string().optional(),
+    last: z.string().optional(),
+  }),
+});
+
+export type NormalizedAccessCredentialPage = z.infer<typeof normalizedAccessCredentialPageSchema>;
+
+export const issueAccessRequestRoute = {
+  method: "post",
+  path: "/access-request",
+  summary: "Issue an access request",
+  tag: "vc",
+  schema: {
+    body: z.object({
+      data: z.union([urlSchema, z.array(urlSchema).nonempty()]),
+      webId: urlSchema,
+      purpose: z.union([urlSchema, z.array(urlSchema).nonempty()]),
+      expirationDate: dateSchema.refine((date) => date.getTime() > Date.now(), "Expected a date in the future"),
+      access: z.object({
+        read: z.boolean().optional(),
+        write: z.boolean().optional(),
+        append: z.boolean().optional(),
+      }),
+    }),
+  },
+  responses: { 201: { description: "The issued access request" } },
+} satisfies RouteDefinition;
+
+export type IssueAccessRequestBody = z.infer<typeof issueAccessRequestRoute.schema.body>;
+
+const accessCredentialQuerySchema = z.object({
+  purpose: urlSchema.optional(),
+  resource: urlSchema.optional(),
+  issuedWithin: z.enum([DURATION.ONE_DAY, DURATION.ONE_WEEK, DURATION.ONE_MONTH, DURATION.THREE_MONTHS]).optional(),
+  expiresBefore: dateSchema.optional(),
+  expiresAfter: dateSchema.optional(),
+  page: z.string().optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const ACCESS_CREDENTIAL_LISTING_DESCRIPTION = "ESS can't filter on expiry, so `expiresBefore` and `expiresAfter` are applied to its result pages. "
+  + "With either filter, further result pages are read, at most 10, until `pageSize` items match (the size of the first result page "
+  + "without `pageSize`). A page then holds the matches of all result pages read: it may hold fewer items than `pageSize` while "
+  + "more items match, or more items than `pageSize`. Keep following `pagination.next` until it is missing to list all matches.";
+
+export const listAccessRequestsRoute = {
+  method: "get",
+  path: "/access-request",
+  summary: "List the access requests of the logged in user",
+  description: ACCESS_CREDENTIAL_LISTING_DESCRIPTION,
+  tag: "vc",
+  schema: {
+    query: accessCredentialQuerySchema.extend({
+      status: z.enum(["Pending", "Denied", "Granted", "Canceled", "Expired"]).optional(),
+    }),
+  },
+  responses: { 200: { description: "A page of access requests", schema: normalizedAccessCredentialPageSchema } },
+} satisfies RouteDefinition;
+
+export type ListAccessRequestsQuery = z.infer<typeof listAccessRequestsRoute.schema.query>;
+
+export const approveAccessRequestRoute = {
+  method: "post",
+  path: "/access-request/approve",
+  summary: "Approve an access request on behalf of the logged in owner",
+  tag: "vc",
+  schema: {
+    body: z.object({
+      accessRequestId: urlSchema,
+      expirationDate: dateSchema.optional(),
+    }),
+  },
+  responses: { 201: { description: "The issued access grant", schema: normalizedAccessCredentialSchema } },
+} satisfies RouteDefinition;
+
+export type ApproveAccessRequestBody = z.infer<typeof approveAccessRequestRoute.schema.body>;
+
+export const denyAccessRequestRoute = {
+  method: "post",
+  path: "/access-request/deny",
+  summary: "Deny an access request on behalf of the logged in owner",
+  tag: "vc",
+  schema: {
+    body: z.object({
+      accessRequestId: urlSchema,
+    }),
+  },
+  responses: { 201: { description: "The issued access denial", schema: normalizedAccessCredentialSchema } },
+} satisfies RouteDefinition;
+
+export type DenyAccessRequestBody = z.infer<typeof denyAccessRequestRoute.schema.body>;
+
+export const setAccessGrantRoute = {
+  method: "post",
+  path: "/access-grant",
+  summary: "Add an access grant to the active grants of the session",
+  tag: "vc",
+  schema: {
+    body: z.object({
+      accessGrantId: urlSchema,
+    }),
+  },
+  responses: { 200: textResponse("The access grant was set on the session") },
+} satisfies RouteDefinition;
+
+export type SetAccessGrantBody = z.infer<typeof setAccessGrantRoute.schema.body>;
+
+export const listAccessGrantsRoute = {
+  method: "get",
+  path: "/access-grant",
+  summary: "List the access grants of the logged in user",
+  description: ACCESS_CREDENTIAL_LISTING_DESCRIPTION,
+  tag: "vc",
+  schema: {
+    query: accessCredentialQuerySchema.extend({
+      status: z.enum(["Active", "Expired", "Revoked"]).optional(),
+    }),
+  },
+  responses: { 200: { description: "A page of access grants", schema: normalizedAccessCredentialPageSchema } },
+} satisfies RouteDefinition;
+
+export type ListAccessGrantsQuery = z.infer<typeof listAccessGrantsRoute.schema.query>;
+
+export const revokeAccessGrantRoute = {
+  method: "post",
+  path: "/access-grant/revoke",
+  summary: "Revoke an access grant on behalf of the logged in owner",
+  tag: "vc",
+  schema: setAccessGrantRoute.schema,
+  responses: { 200: textResponse("The access grant was revoked") },
+} satisfies RouteDefinition;
+
+export type RevokeAccessGrantBody = z.infer<typeof revokeAccessGrantRoute.schema.body>;
+
+export const removeAccessGrantRoute = {
+  method: "delete",
+  path: "/access-grant",
+  summary: "Remove an access grant from the active grants of the session",
+  tag: "vc",
+  schema: {
+    query: z.object({
+      accessGrantId: urlSchema,
+    }),
+  },
+  responses: { 200: textResponse("The access grant was removed from the session") },
+} satisfies RouteDefinition;
+
+export type RemoveAccessGrantQuery = z.infer<typeof removeAccessGrantRoute.schema.query>;
+
+export const vcRoutes: RouteDefinition[] = [
+  issueAccessRequestRoute,
+  listAccessRequestsRoute,
+  approveAccessRequestRoute,
+  denyAccessRequestRoute,
+  setAccessGrantRoute,
+  listAccessGrantsRoute,
+  revokeAccessGrantRoute,
+  removeAccessGrantRoute,
+];
@@ -0,0 +1,37 @@
+/**
+ * Manages the lifecycle of a citizen's account on the Athumi pod platform beyond what the We Are Core
+ * `AthumiService` offers: deleting the WebID, and with it the pod, of a citizen.
+ *
+ * The WebID endpoint is the same one used for provisioning (`ATHUMI_POD_PLATFORM_WEB_ID_PATH`) and is
+ * authenticated with the ID token of the citizen.
+ *
+ * Example usage:
+ * ```
+ * const service = new AthumiAccountService(new URL("https://pod-platform.api.tni-athumi.eu"), "/v1/webids");
+ * await service.deleteWebId(idToken);
+ * ```
+ */
+import log from "loglevel";
+
+export class AthumiAccountService {
+  constructor(private readonly platformUrl: URL, private readonly webIdPath: string) {
+  }
+
+  /**
+   * Deletes the WebID and pod of the citizen identified by the given ID token.
+   *
+   * @throws {Error} If the pod platform does not confirm the deletion.
+   */
+  async deleteWebId(idToken: string): Promise<void> {
+    const webIdUrl = new URL(this.webIdPath, this.platformUrl);
+    log.debug(`Deleting Web ID via [${webIdUrl.href}].`);
+
+    const response = await fetch(webIdUrl, {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${idToken}` },
+    });
+
+    if (!response.ok)
+      throw new Error(`Deleting the Web ID failed with status [${response.status}]: ${await response.text()}`);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Creates a `fetch` authenticated as the We Are client of the back end, with an access token of the OAuth client
+ * credentials grant. The token is requested at the token endpoint of the We Are OIDC provider
+ * (`WEARE_OIDC_URL` + `WEARE_OIDC_TOKEN_PATH`) and reused until shortly before it expires.
+ *
+ * The back end is the requestor of the access requests, so this is the `fetch` exchanging access grants for access
+ * to pod resources with `createAccessGrantFetch`, see `PodResourceService` and `NotificationService`.
+ *
+ * Example usage:
+ * ```
+ * const clientFetch = createClientCredentialsFetch(config.weAreClient);
+ * await clientFetch("https://vc.example/uma/token", { method: "POST", body });
+ * const podFetch = await createAccessGrantFetch(resourceUrl, accessGrant, clientFetch);
+ * ```
+ */
+import { fetchWithVc } from "@inrupt/solid-client-access-grants";
+import type { VerifiableCredential } from "@inrupt/solid-client-vc";
+import log from "loglevel";
+
+export interface ClientCredentials {
+  tokenUrl: URL;
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * Tokens are renewed this many milliseconds before they expire.
+ */
+const EXPIRY_MARGIN = 30 * 1000;
+
+export function createClientCredentialsFetch(credentials: ClientCredentials): typeof fetch {
+  let token: { accessToken: string; expiresAt: number } | undefined;
+
+  const getAccessToken = async (): Promise<string> => {
+    if (token && token.expiresAt - EXPIRY_MARGIN > Date.now())
+      return token.accessToken;
+
+    log.debug(`Requesting a client credentials token at [${credentials.tokenUrl.href}].`);
+    const response = await fetch(credentials.tokenUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        "Authorization": `Basic ${Buffer.from(`${encodeURIComponent(credentials.clientId)}:${encodeURIComponent(credentials.clientSecret)}`).toString("base64")}`,
+      },
+      body: new URLSearchParams({ grant_type: "client_credentials" }).toString(),
+    });
+    if (!response.ok)
+      throw new Error(`Requesting a client credentials token failed with status [${response.status}]: ${await response.text()}`);
+
+    const data = await response.json();
+    token = { accessToken: data.access_token, expiresAt: Date.now() + (data.expires_in ?? 300) * 1000 };
+    return token.accessToken;
+  };
+
+  return async (input, init) => {
+    const headers = new Headers(init?.headers);
+    headers.set("Authorization", `Bearer ${await getAccessToken()}`);
+    return fetch(input, { ...init, headers });
+  };
+}
+
+/**
+ * Exchanges the access grant, as serialized on the session, for a `fetch` authorized to access the resource, with the
+ * `fetch` of the We Are client.
+ */
+export function createAccessGrantFetch(resourceUrl: string, accessGrant: string, clientFetch: typeof fetch): Promise<typeof fetch> {
+  // The access grant is only serialized into the verifiable presentation, so the JSON of the session suffices.
+  return fetchWithVc(resourceUrl, JSON.parse(accessGrant) as VerifiableCredential, { fetch: clientFetch });
+}
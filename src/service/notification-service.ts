@@ -0,0 +1,100 @@
+/**
+ * Subscribes to the Solid Notifications of pod resources over the `WebhookChannel2023` channel: the notification
+ * server of the pod posts an Activity Streams notification to the `sendTo` URL of the back end whenever the topic
+ * resource changes.
+ *
+ * The subscription service is discovered from the storage description the resource links to with
+ * `rel="http://www.w3.org/ns/solid/terms#storageDescription"`, which lists the subscription services and their
+ * channel types. Like the other pod requests, the requests are authorized with the access grant covering the topic,
+ * exchanged by `createAccessGrantFetch` and authenticated as the We Are client of the back end.
+ *
+ * Example usage:
+ * ```
+ * const service = new NotificationService(createClientCredentialsFetch(config.weAreClient));
+ * const channel = await service.subscribe("https://pod.example/citizen/data/profile.ttl", accessGrant,
+ *   new URL("https://backend.example/notifications/webhook/8d3e..."), new Date("2025-01-01T12:00:00Z"));
+ * await service.unsubscribe(channel, accessGrant);
+ * ```
+ *
+ * The `WebSocketChannel2023` channel is not supported: it would require the back end to keep a WebSocket connection
+ * to the pod for every subscription.
+ */
+import { getSolidDataset, getThingAll, getUrlAll } from "@inrupt/solid-client";
+import log from "loglevel";
+import { createAccessGrantFetch } from "./client-credentials-fetch";
+
+const NOTIFY = "http://www.w3.org/ns/solid/notifications#";
+const STORAGE_DESCRIPTION = "http://www.w3.org/ns/solid/terms#storageDescription";
+
+export interface NotificationChannel {
+  /**
+   * The URL of the channel at the notification server, deleted to unsubscribe.
+   */
+  id: string;
+  topic: string;
+}
+
+export class NotificationService {
+  /**
+   * @param clientFetch A `fetch` authenticated as the We Are client, exchanging the access grants.
+   */
+  constructor(private readonly clientFetch: typeof fetch) {
+  }
+
+  /**
+   * Subscribes to the notifications of the topic resource until `endAt`, delivered to `sendTo`.
+   *
+   * @throws {Error} When the pod offers no webhook subscription service or the subscription is refused.
+   */
+  async subscribe(topic: string, accessGrant: string, sendTo: URL, endAt: Date): Promise<NotificationChannel> {
+    const podFetch = await createAccessGrantFetch(topic, accessGrant, this.clientFetch);
+    const subscriptionService = await this.findSubscriptionService(topic, podFetch);
+
+    log.debug(`Subscribing to the notifications of [${topic}] at [${subscriptionService}].`);
+    const response = await podFetch(subscriptionService, {
+      method: "POST",
+      headers: { "Content-Type": "application/ld+json" },
+      body: JSON.stringify({
+        "@context": ["https://www.w3.org/ns/solid/notification/v1"],
+        type: `${NOTIFY}WebhookChannel2023`,
+        topic,
+        sendTo: sendTo.href,
+        endAt: endAt.toISOString(),
+      }),
+    });
+    if (!response.ok)
+      throw new Error(`Subscribing to the notifications of [${topic}] failed with status [${response.status}]: ${await response.text()}`);
+
+    const channel = await response.json();
+    if (typeof channel.id !== "string")
+      throw new Error(`The subscription to the notifications of [${topic}] returned no channel id`);
+    return { id: channel.id, topic };
+  }
+
+  /**
+   * Deletes the channel at the notification server. A channel that no longer exists is ignored.
+   */
+  async unsubscribe(channel: NotificationChannel, accessGrant: string): Promise<void> {
+    const podFetch = await createAccessGrantFetch(channel.topic, accessGrant, this.clientFetch);
+    log.debug(`Unsubscribing from the notifications of [${channel.topic}].`);
+    const response = await podFetch(channel.id, { method: "DELETE" });
+    if (!response.ok && response.status !== 404)
+      throw new Error(`Unsubscribing from the notifications of [${channel.topic}] failed with status [${response.status}]`);
+  }
+
+  private async findSubscriptionService(topic: string, podFetch: typeof fetch): Promise<string> {
+    const response = await podFetch(topic, { method: "HEAD" });
+    const link = /<([^>]*)>\s*;\s*rel="([^"]*)"/g;
+    const descriptionUrl = [...(response.headers.get("Link") ?? "").matchAll(link)]
+      .find(([, , rel]) => rel.split(/\s+/).includes(STORAGE_DESCRIPTION))?.[1];
+    if (!descriptionUrl)
+      throw new Error(`The storage of [${topic}] has no storage description`);
+
+    const description = await getSolidDataset(new URL(descriptionUrl, topic).href, { fetch: podFetch });
+    const subscriptionService = getThingAll(description)
+      .find((thing) => getUrlAll(thing, `${NOTIFY}channelType`).includes(`${NOTIFY}WebhookChannel2023`));
+    if (!subscriptionService)
+      throw new Error(`The storage of [${topic}] offers no WebhookChannel2023 subscription service`);
+    return subscriptionService.url;
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Manages the resources and containers of a pod beyond reading and writing a single resource, which is done by the
+ * We Are Core `PodService`: listing containers, creating containers, deleting, patching, copying and moving resources,
+ * reading the metadata of a resource, and streaming files from and to the pod without buffering them in memory.
+ *
+ * Every request is authorized with an access grant: it is exchanged for an access token of the pod (UMA) with
+ * `createAccessGrantFetch`, authenticated as the We Are client of the back end, see `client-credentials-fetch.ts`.
+ *
+ * Failed pod requests throw a `PodRequestError` carrying the status of the pod, which the error handler maps to a
+ * `pod-*` problem. A move whose copy succeeded but whose delete failed throws a `pod-move-incomplete` problem.
+ *
+ * Example usage:
+ * ```
+ * const service = new PodResourceService(createClientCredentialsFetch(config.weAreClient));
+ * const listing = await service.listContainer("https://pod.example/citizen/data/", accessGrant);
+ * ```
+ */
+import { getContainedResourceUrlAll, getDatetime, getInteger, getSolidDataset, getThing, getUrlAll } from "@inrupt/solid-client";
+import log from "loglevel";
+import { Readable } from "stream";
+import { Problem } from "../error/problem";
+import { createAccessGrantFetch } from "./client-credentials-fetch";
+
+export type ResourceType = "container" | "resource";
+
+export interface ContainedResource {
+  url: string;
+  type: ResourceType;
+  size?: number;
+  modified?: string;
+}
+
+export interface ContainerListing {
+  url: string;
+  resources: ContainedResource[];
+}
+
+export interface ResourceMetadata {
+  url: string;
+  type: ResourceType;
+  contentType?: string;
+  size?: number;
+  modified?: string;
+  etag?: string;
+}
+
+/**
+ * An error response of the pod, e.g. 404 for a missing resource or 409 for deleting a container that is not empty.
+ */
+export class PodRequestError extends Error {
+  constructor(message: string, readonly statusCode: number) {
+    super(message);
+    this.name = "PodRequestError";
+  }
+}
+
+const LDP = "http://www.w3.org/ns/ldp#";
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
+const DCTERMS_MODIFIED = "http://purl.org/dc/terms/modified";
+const POSIX = "http://www.w3.org/ns/posix/stat#";
+
+export class PodResourceService {
+  /**
+   * @param clientFetch A `fetch` authenticated as the We Are client, exchanging the access grants.
+   */
+  constructor(private readonly clientFetch: typeof fetch) {
+  }
+
+  /**
+   * Lists the resources in a container ordered by URL, with their type and, when the pod describes them, size and
+   * modified date.
+   */
+  async listContainer(containerUrl: string, accessGrant: string): Promise<ContainerListing> {
+    const podFetch = await createAccessGrantFetch(containerUrl, accessGrant, this.clientFetch);
+    const dataset = await getSolidDataset(containerUrl, { fetch: podFetch });
+
+    const resources = getContainedResourceUrlAll(dataset).map((url): ContainedResource => {
+      const thing = getThing(dataset, url);
+      const types = thing ? getUrlAll(thing, RDF_TYPE) : [];
+      const size = thing ? getInteger(thing, `${POSIX}size`) : null;
+      const modified = thing ? getDatetime(thing, DCTERMS_MODIFIED) ?? mtimeToDate(getInteger(thing, `${POSIX}mtime`)) : null;
+      return {
+        url,
+        type: url.endsWith("/") || types.some((type) => type.startsWith(LDP) && type.endsWith("Container")) ? "container" : "resource",
+        ...(size !== null ? { size } : {}),
+        ...(modified ? { modified: modified.toISOString() } : {}),
+      };
+    });
+
+    return { url: containerUrl, resources: resources.sort((a, b) => a.url.localeCompare(b.url)) };
+  }
+
+  /**
+   * Creates a container, including its missing parent containers.
+   */
+  async createContainer(containerUrl: string, accessGrant: string): Promise<void> {
+    const podFetch = await createAccessGrantFetch(containerUrl, accessGrant, this.clientFetch);
+    log.debug(`Creating container [${containerUrl}].`);
+    const response = await podFetch(containerUrl, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "text/turtle",
+        "Link": `<${LDP}BasicContainer>; rel="type"`,
+        "If-None-Match": "*",
+      },
+    });
+    await ensureOk(response, `Creating container [${containerUrl}]`);
+  }
+
+  /**
+   * Deletes a resource or an empty container.
+   */
+  async deleteResource(resourceUrl: string, accessGrant: string): Promise<void> {
+    const podFetch = await createAccessGrantFetch(resourceUrl, accessGrant, this.clientFetch);
+    log.debug(`Deleting resource [${resourceUrl}].`);
+    await ensureOk(await podFetch(resourceUrl, { method: "DELETE" }), `Deleting resource [${resourceUrl}]`);
+  }
+
+  /**
+   * Reads a file from the pod. The content is streamed from the body of the returned response, its headers hold the
+   * content type, length and ETag of the pod.
+   */
+  async readFile(fileUrl: string, accessGrant: string): Promise<Response> {
+    const podFetch = await createAccessGrantFetch(fileUrl, accessGrant, this.clientFetch);
+    const response = await podFetch(fileUrl);
+    await ensureOk(response, `Reading file [${fileUrl}]`);
+    return response;
+  }
+
+  /**
+   * Streams a file to the pod, creating or overwriting it.
+   */
+  async writeFile(fileUrl: string, content: Readable, contentType: string, accessGrant: string): Promise<void> {
+    const podFetch = await createAccessGrantFetch(fileUrl, accessGrant, this.clientFetch);
+    log.debug(`Writing file [${fileUrl}] of type [${contentType}].`);
+    const response = await podFetch(fileUrl, {
+      method: "PUT",
+      headers: { "Content-Type": contentType },
+      body: Readable.toWeb(content) as ReadableStream,
+      // Required by Node to send a stream as request body.
+      duplex: "half",
+    } as RequestInit);
+    await ensureOk(response, `Writing file [${fileUrl}]`);
+  }
+
+  /**
+   * Applies a SPARQL Update or N3 Patch to a resource. With an `ifMatch` ETag, the pod only applies the patch when the
+   * resource is unchanged, otherwise a `PodRequestError` with status 412 is thrown.
+   *
+   * @returns The new ETag of the resource, when the pod returns it.
+   */
+  async patchResource(resourceUrl: string, patch: { contentType: string; body: string }, accessGrant: string, ifMatch?: string): Promise<string | undefined> {
+    const podFetch = await createAccessGrantFetch(resourceUrl, accessGrant, this.clientFetch);
+    log.debug(`Patching resource [${resourceUrl}] with [${patch.contentType}].`);
+    const response = await podFetch(resourceUrl, {
+      method: "PATCH",
+      headers: { "Content-Type": patch.contentType, ...(ifMatch ? { "If-Match": ifMatch } : {}) },
+      body: patch.body,
+    });
+    await ensureOk(response, `Patching resource [${resourceUrl}]`);
+    return response.headers.get("ETag") ?? undefined;
+  }
+
+  /**
+   * Copies a resource, not a container, with its content type. An existing destination is overwritten.
+   */
+  async copyResource(sourceUrl: string, destinationUrl: string, accessGrant: string): Promise<void> {
+    const sourceFetch = await createAccessGrantFetch(sourceUrl, accessGrant, this.clientFetch);
+    const source = await sourceFetch(sourceUrl);
+    await ensureOk(source, `Reading resource [${sourceUrl}]`);
+
+    const destinationFetch = await createAccessGrantFetch(destinationUrl, accessGrant, this.clientFetch);
+    log.debug(`Copying resource [${sourceUrl}] to [${destinationUrl}].`);
+    const response = await destinationFetch(destinationUrl, {
+      method: "PUT",
+      headers: { "Content-Type": source.headers.get("Content-Type") ?? "application/octet-stream" },
+      body: source.body,
+      // Required by Node to send a stream as request body.
+      duplex: "half",
+    } as RequestInit);
+    await ensureOk(response, `Writing resource [${destinationUrl}]`);
+  }
+
+  /**
+   * Moves a resource: it is copied to the destination, after which the source is deleted. The copy is not rolled back
+   * when the delete fails, a `pod-move-incomplete` problem then tells the source still exists next to the copy.
+   */
+  async moveResource(sourceUrl: string, destinationUrl: string, accessGrant: string): Promise<void> {
+    await this.copyResource(sourceUrl, destinationUrl, accessGrant);
+    try {
+      await this.deleteResource(sourceUrl, accessGrant);
+    } catch (error) {
+      throw new Problem("pod-move-incomplete", 502, "The pod resource was copied but not deleted",
+        `Resource [${sourceUrl}] was copied to [${destinationUrl}], but deleting it failed, so it still exists`,
+        { resourceUrl: sourceUrl, destinationUrl, sourceDeleted: false }, error);
+    }
+  }
+
+  /**
+   * Reads the metadata of a resource from the headers of a `HEAD` request.
+   */
+  async getMetadata(resourceUrl: string, accessGrant: string): Promise<ResourceMetadata> {
+    const podFetch = await createAccessGrantFetch(resourceUrl, accessGrant, this.clientFetch);
+    const response = await podFetch(resourceUrl, { method: "HEAD" });
+    await ensureOk(response, `Reading the metadata of resource [${resourceUrl}]`);
+
+    const contentLength = response.headers.get("Content-Length");
+    const lastModified = response.headers.get("Last-Modified");
+    const isContainer = resourceUrl.endsWith("/") || /<http:\/\/www\.w3\.org\/ns\/ldp#(Basic)?Container>;\s*rel="type"/.test(response.headers.get("Link") ?? "");
+    return {
+      url: resourceUrl,
+      type: isContainer ? "container" : "resource",
+      ...(response.headers.get("Content-Type") ? { contentType: response.headers.get("Content-Type")! } : {}),
+      ...(contentLength !== null ? { size: Number(contentLength) } : {}),
+      ...(lastModified ? { modified: new Date(lastModified).toISOString() } : {}),
+      ...(response.headers.get("ETag") ? { etag: response.headers.get("ETag")! } : {}),
+    };
+  }
+
+}
+
+async function ensureOk(response: Response, action: string): Promise<void> {
+  if (!response.ok)
+    throw new PodRequestError(`${action} failed with status [${response.status}]: ${await response.text()}`, response.status);
+}
+
+function mtimeToDate(mtime: number | null): Date | null {
+  return mtime !== null ? new Date(mtime * 1000) : null;
+}
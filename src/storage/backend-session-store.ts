@@ -0,0 +1,47 @@
+/**
+ * An express-session `Store` persisting session data in a `StorageBackend`.
+ *
+ * The time-to-live of every stored session follows the expiry of its cookie. When the cookie carries no expiry,
+ * the default time-to-live given to the constructor is used instead. Because the store implements `touch`,
+ * the expiry is also extended on requests that do not modify the session.
+ */
+import session, { SessionData } from "express-session";
+import { StorageBackend } from "./storage-backend";
+
+export class BackendSessionStore extends session.Store {
+  constructor(private readonly backend: StorageBackend, private readonly ttl: number, private readonly prefix: string = "session:") {
+    super();
+  }
+
+  get(sid: string, callback: (err: any, session?: SessionData | null) => void): void {
+    this.backend.get(this.prefix + sid)
+      .then((value) => callback(null, value ? JSON.parse(value) as SessionData : null))
+      .catch((error) => callback(error));
+  }
+
+  set(sid: string, sessionData: SessionData, callback?: (err?: any) => void): void {
+    this.backend.set(this.prefix + sid, JSON.stringify(sessionData), this.sessionTtl(sessionData))
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    this.backend.delete(this.prefix + sid)
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  touch(sid: string, sessionData: SessionData, callback?: () => void): void {
+    this.set(sid, sessionData, () => callback?.());
+  }
+
+  private sessionTtl(sessionData: SessionData): number {
+    const expires = sessionData.cookie?.expires;
+    if (expires) {
+      const remaining = new Date(expires).getTime() - Date.now();
+      if (remaining > 0)
+        return remaining;
+    }
+    return this.ttl;
+  }
+}
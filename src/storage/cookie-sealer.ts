@@ -0,0 +1,73 @@
+/**
+ * Seals values into authenticated, encrypted cookie values, and opens them again.
+ *
+ * A value is compressed with deflate and encrypted with AES-256-GCM, so the client can neither read nor change it.
+ * The keys are derived from the session secrets with HKDF. The first secret seals new values, the others still open
+ * values sealed with them, so secrets are rotated like the signing secrets of the session cookie. Every sealed value
+ * starts with the id of its key, so opening doesn't have to try all keys.
+ *
+ * The sealed value is base64url encoded: `<key id (4 bytes)><IV (12 bytes)><authentication tag (16 bytes)><ciphertext>`.
+ *
+ * Example usage:
+ * ```
+ * const sealer = new CookieSealer(config.session.secrets);
+ * const sealed = sealer.seal(JSON.stringify(payload));
+ * const opened = sealer.open(sealed); // undefined when tampered with or sealed with an unknown secret
+ * ```
+ */
+import crypto from "crypto";
+import zlib from "zlib";
+
+const KEY_ID_LENGTH = 4;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_INFO = "weare-demo-session-cookie";
+
+interface SealingKey {
+  id: Buffer;
+  key: Buffer;
+}
+
+export class CookieSealer {
+  private readonly keys: SealingKey[];
+
+  constructor(secrets: string[]) {
+    if (secrets.length === 0)
+      throw new Error("Sealing cookies requires at least one secret");
+
+    this.keys = secrets.map((secret) => {
+      const key = Buffer.from(crypto.hkdfSync("sha256", secret, "", KEY_INFO, 32));
+      return { id: crypto.createHash("sha256").update(key).digest().subarray(0, KEY_ID_LENGTH), key };
+    });
+  }
+
+  seal(value: string): string {
+    const { id, key } = this.keys[0];
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+    const ciphertext = Buffer.concat([cipher.update(zlib.deflateRawSync(value)), cipher.final()]);
+    return Buffer.concat([id, iv, cipher.getAuthTag(), ciphertext]).toString("base64url");
+  }
+
+  /**
+   * Returns the value sealed in `sealed`, or `undefined` when it wasn't sealed with one of the secrets or was changed.
+   */
+  open(sealed: string): string | undefined {
+    const data = Buffer.from(sealed, "base64url");
+    if (data.length < KEY_ID_LENGTH + IV_LENGTH + TAG_LENGTH)
+      return undefined;
+
+    const sealingKey = this.keys.find(({ id }) => id.equals(data.subarray(0, KEY_ID_LENGTH)));
+    if (!sealingKey)
+      return undefined;
+
+    try {
+      const decipher = crypto.createDecipheriv("aes-256-gcm", sealingKey.key, data.subarray(KEY_ID_LENGTH, KEY_ID_LENGTH + IV_LENGTH));
+      decipher.setAuthTag(data.subarray(KEY_ID_LENGTH + IV_LENGTH, KEY_ID_LENGTH + IV_LENGTH + TAG_LENGTH));
+      const compressed = Buffer.concat([decipher.update(data.subarray(KEY_ID_LENGTH + IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+      return zlib.inflateRawSync(compressed).toString("utf8");
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * The express-session `Store` and the Solid client `IStorage` of the stateless mode, see `cookie-session.ts`.
+ *
+ * Neither keeps data of its own. Both work on the `CookieSessionData` of the current request, which `cookieSession`
+ * opens from the session cookie and keeps in the request context of `express-http-context`. The data is sealed into
+ * the cookie of the response again, so any replica of the back end can serve the next request without a shared store.
+ *
+ * The Solid client only reads and writes its session data while a request is handled. Data written after the
+ * response headers were sent, e.g. by a token refresh in the background, is not kept.
+ */
+import { IStorage } from "@inrupt/solid-client-authn-node";
+import session, { SessionData } from "express-session";
+import httpContext from "express-http-context";
+
+export interface CookieSessionData {
+  /**
+   * The session id, the `req.sessionID` of the request.
+   */
+  id: string;
+  session?: SessionData;
+  /**
+   * The entries of the Solid client session data, by key.
+   */
+  solid: Record<string, string>;
+}
+
+const CONTEXT_KEY = "cookieSession";
+
+export function setCookieSessionData(data: CookieSessionData): void {
+  httpContext.set(CONTEXT_KEY, data);
+}
+
+export function getCookieSessionData(): CookieSessionData {
+  const data: CookieSessionData | undefined = httpContext.get(CONTEXT_KEY);
+  if (!data)
+    throw new Error("The cookie session is only available while handling a request");
+  return data;
+}
+
+export class CookieSessionStore extends session.Store {
+  get(sid: string, callback: (err: any, session?: SessionData | null) => void): void {
+    try {
+      const data = getCookieSessionData();
+      callback(null, data.id === sid ? data.session ?? null : null);
+    } catch (error) {
+      callback(error);
+    }
+  }
+
+  set(sid: string, sessionData: SessionData, callback?: (err?: any) => void): void {
+    try {
+      const data = getCookieSessionData();
+      data.id = sid;
+      data.session = JSON.parse(JSON.stringify(sessionData));
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  /**
+   * Removes the express-session state and the Solid client session data, as the Solid session can't be reached anymore.
+   */
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    try {
+      const data = getCookieSessionData();
+      data.session = undefined;
+      data.solid = {};
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+}
+
+export class CookieSolidStorage implements IStorage {
+  async get(key: string): Promise<string | undefined> {
+    return getCookieSessionData().solid[key];
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    getCookieSessionData().solid[key] = value;
+  }
+
+  async delete(key: string): Promise<void> {
+    delete getCookieSessionData().solid[key];
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * File-backed implementation of the `StorageBackend` interface.
+ *
+ * Every entry is written as a separate JSON file in the configured directory. The file name is the SHA-256 hash
+ * of the key, so keys containing characters like `:` or `/` are safe to use. Writes go to a temporary file first
+ * and are then renamed into place, so concurrent readers (also from other replicas sharing the same directory,
+ * e.g. via a mounted volume) never see a partially written entry.
+ *
+ * Example usage:
+ * ```
+ * const backend = new FileStorageBackend("/var/lib/weare-demo/storage");
+ * await backend.set("key", "value", 60 * 1000);
+ * ```
+ */
+import fs from "fs/promises";
+import { mkdirSync } from "fs";
+import path from "path";
+import crypto from "crypto";
+import log from "loglevel";
+import { createEntry, isExpired, StorageBackend, StorageEntry } from "./storage-backend";
+
+const ENTRY_EXTENSION = ".json";
+
+export class FileStorageBackend implements StorageBackend {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+    mkdirSync(this.directory, { recursive: true });
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const filePath = this.filePath(key);
+    const entry = await this.readEntry(filePath);
+    if (!entry)
+      return undefined;
+
+    if (isExpired(entry)) {
+      await this.removeFile(filePath);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttl?: number): Promise<void> {
+    const filePath = this.filePath(key);
+    const temporaryPath = `${filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(createEntry(value, ttl)), "utf8");
+    await fs.rename(temporaryPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.removeFile(this.filePath(key));
+  }
+
+  async sweep(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const fileName of await fs.readdir(this.directory)) {
+      if (!fileName.endsWith(ENTRY_EXTENSION))
+        continue;
+
+      const filePath = path.join(this.directory, fileName);
+      const entry = await this.readEntry(filePath);
+      if (entry && isExpired(entry, now)) {
+        await this.removeFile(filePath);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private filePath(key: string): string {
+    const hash = crypto.createHash("sha256").update(key).digest("hex");
+    return path.join(this.directory, `${hash}${ENTRY_EXTENSION}`);
+  }
+
+  private async readEntry(filePath: string): Promise<StorageEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, "utf8")) as StorageEntry;
+    } catch (error: any) {
+      if (error.code !== "ENOENT")
+        log.warn(`Unable to read storage entry [${filePath}]: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  private async removeFile(filePath: string): Promise<void> {
+    try {
+      await fs.unlink(filePath);
+    } catch (error: any) {
+      if (error.code !== "ENOENT")
+        throw error;
+    }
+  }
+}
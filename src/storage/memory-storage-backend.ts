@@ -0,0 +1,44 @@
+/**
+ * In-memory implementation of the `StorageBackend` interface.
+ *
+ * Entries are kept in a `Map` of the current process, so they are lost on restart and cannot be shared between
+ * multiple instances of the back end. This is the default backend and is intended for local development.
+ */
+import { createEntry, isExpired, StorageBackend, StorageEntry } from "./storage-backend";
+
+export class MemoryStorageBackend implements StorageBackend {
+  private readonly entries = new Map<string, StorageEntry>();
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry)
+      return undefined;
+
+    if (isExpired(entry)) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttl?: number): Promise<void> {
+    this.entries.set(key, createEntry(value, ttl));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async sweep(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    this.entries.forEach((entry, key) => {
+      if (isExpired(entry, now)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    });
+    return removed;
+  }
+}
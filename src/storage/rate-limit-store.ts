@@ -0,0 +1,55 @@
+/**
+ * Counts requests in fixed time windows, persisted in a `StorageBackend`, for the rate limits of `rate-limit.ts`.
+ *
+ * Every counter is stored under its key and the start of the current window, with a time-to-live of the window, so
+ * expired counters are removed by the sweeper of the backend. The rate limits therefore live in the same backend as
+ * the sessions: with the `file` backend, replicas sharing the directory share their budgets.
+ *
+ * The backend has no atomic increment. Increments of the same counter are serialized within the process; increments
+ * by several replicas at the same moment can be lost, which lets a few more requests through but never refuses more.
+ *
+ * Example usage:
+ * ```
+ * const store = new RateLimitStore(storageBackend);
+ * const { count, resetAt } = await store.increment("login:ip:203.0.113.7", 60000);
+ * ```
+ */
+import { StorageBackend } from "./storage-backend";
+
+export interface WindowCount {
+  /**
+   * The number of increments in the current window, including this one.
+   */
+  count: number;
+  /**
+   * The moment (in milliseconds since epoch) the current window ends.
+   */
+  resetAt: number;
+}
+
+export class RateLimitStore {
+  private readonly pending = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly backend: StorageBackend, private readonly prefix: string = "ratelimit:") {
+  }
+
+  increment(key: string, window: number): Promise<WindowCount> {
+    const windowStart = Math.floor(Date.now() / window) * window;
+    const storageKey = `${this.prefix}${key}:${windowStart}`;
+
+    const previous = this.pending.get(storageKey) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      const count = Number(await this.backend.get(storageKey) ?? 0) + 1;
+      const resetAt = windowStart + window;
+      await this.backend.set(storageKey, String(count), Math.max(resetAt - Date.now(), 1));
+      return { count, resetAt };
+    });
+
+    this.pending.set(storageKey, next);
+    next.finally(() => {
+      if (this.pending.get(storageKey) === next)
+        this.pending.delete(storageKey);
+    }).catch(() => undefined);
+    return next;
+  }
+}
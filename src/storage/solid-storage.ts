@@ -0,0 +1,26 @@
+/**
+ * Adapter exposing a `StorageBackend` as the `IStorage` interface expected by the Inrupt Solid client.
+ *
+ * All keys are prefixed with a namespace so the Solid session data can live in the same backend as the
+ * express-session data. Every write refreshes the time-to-live of the entry, which is aligned with the
+ * maximum age of the session cookie: once the cookie is gone, the Solid session data is no longer reachable.
+ */
+import { IStorage } from "@inrupt/solid-client-authn-node";
+import { StorageBackend } from "./storage-backend";
+
+export class SolidStorage implements IStorage {
+  constructor(private readonly backend: StorageBackend, private readonly ttl: number, private readonly prefix: string = "solid:") {
+  }
+
+  get(key: string): Promise<string | undefined> {
+    return this.backend.get(this.prefix + key);
+  }
+
+  set(key: string, value: string): Promise<void> {
+    return this.backend.set(this.prefix + key, value, this.ttl);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.backend.delete(this.prefix + key);
+  }
+}
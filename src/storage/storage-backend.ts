@@ -0,0 +1,48 @@
+/**
+ * Defines the key-value storage abstraction shared by the Solid session storage and the express-session store.
+ *
+ * A `StorageBackend` stores string values under string keys, optionally with a time-to-live after which the
+ * entry is considered expired. Implementations are selected from the configuration in `service-container.ts`,
+ * so the rest of the application never depends on where the data actually lives.
+ *
+ * Implementations:
+ * - `MemoryStorageBackend`: keeps entries in process memory, lost on restart.
+ * - `FileStorageBackend`: keeps entries as files in a directory, which can be shared between replicas.
+ */
+export interface StorageBackend {
+  /**
+   * Returns the value stored under `key`, or `undefined` when it does not exist or has expired.
+   */
+  get(key: string): Promise<string | undefined>;
+
+  /**
+   * Stores `value` under `key`. When `ttl` (in milliseconds) is given, the entry expires after that period.
+   */
+  set(key: string, value: string, ttl?: number): Promise<void>;
+
+  /**
+   * Removes the entry stored under `key`, if any.
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Removes all expired entries and returns the number of entries that were removed.
+   */
+  sweep(): Promise<number>;
+}
+
+/**
+ * The envelope in which backends persist a value together with its expiry timestamp.
+ */
+export interface StorageEntry {
+  value: string;
+  expiresAt?: number;
+}
+
+export function isExpired(entry: StorageEntry, now: number = Date.now()): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
+
+export function createEntry(value: string, ttl?: number): StorageEntry {
+  return ttl !== undefined ? { value, expiresAt: Date.now() + ttl } : { value };
+}
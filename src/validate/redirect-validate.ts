@@ -0,0 +1,54 @@
+/**
+ * Validates the URLs the back end redirects the browser to after a login or logout, protecting against open redirects.
+ *
+ * A URL is allowed when it has the same origin as one of the entries of the allowlist and its path starts with the
+ * path of that entry. The allowlist is read from the comma-separated `REDIRECT_ALLOWLIST` environment variable, e.g.
+ * `https://app.example.be,https://other.example.be/weare/`, and defaults to `FRONTEND_URL`, see `loadConfig`.
+ *
+ * Example usage:
+ * ```
+ * const allowlist = parseRedirectAllowlist("https://app.example.be", frontendUrl);
+ * isAllowedRedirect("https://app.example.be/profile", allowlist); // true
+ * isAllowedRedirect("https://evil.example.com", allowlist); // false
+ * ```
+ */
+import log from "loglevel";
+
+export function parseRedirectAllowlist(value: string | undefined, frontendUrl: URL): URL[] {
+  if (!value)
+    return [new URL(frontendUrl)];
+
+  return value.split(",").map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+    try {
+      return new URL(entry);
+    } catch (error) {
+      throw new Error(`Not a valid URL found in the redirect allowlist [${entry}]`);
+    }
+  });
+}
+
+export function isAllowedRedirect(url: string | URL, allowlist: URL[]): boolean {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch (error) {
+    return false;
+  }
+
+  return allowlist.some((entry) => {
+    const entryPath = entry.pathname.endsWith("/") ? entry.pathname : `${entry.pathname}/`;
+    return target.origin === entry.origin && (target.pathname === entry.pathname || `${target.pathname}/`.startsWith(entryPath));
+  });
+}
+
+/**
+ * Returns the given URL when it is allowed, or a copy of the fallback otherwise.
+ */
+export function allowedRedirectOrDefault(url: string | URL | undefined, allowlist: URL[], fallback: URL): URL {
+  if (url !== undefined) {
+    if (isAllowedRedirect(url, allowlist))
+      return new URL(url);
+    log.warn(`Redirect to [${url}] is not allowed, redirecting to [${fallback.href}] instead.`);
+  }
+  return new URL(fallback);
+}
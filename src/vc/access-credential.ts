@@ -0,0 +1,144 @@
+/**
+ * Helpers for querying and presenting access credentials (access requests, access grants and access denials).
+ *
+ * Credentials are returned by ESS as RDF datasets. `normalizeAccessCredential` turns them into a plain JSON shape
+ * for the frontend, and `toAccessCredentialQuery` turns the validated query parameters of the listing endpoints into an
+ * ESS query filter plus the filters ESS does not support itself (expiry). `queryAccessCredentials` applies the expiry
+ * filters to the result pages of ESS and reads further result pages until the page of the listing is filled.
+ * `queryActiveAccessGrants` reads all result pages, to act on every grant of an owner.
+ */
+import {
+  CredentialResult,
+  DatasetWithId,
+  getAccessModes,
+  getExpirationDate,
+  getId,
+  getIssuanceDate,
+  getPurposes,
+  getRequestor,
+  getResourceOwner,
+  getResources,
+  getTypes,
+  query
+} from "@inrupt/solid-client-access-grants";
+import {
+  ListAccessGrantsQuery,
+  ListAccessRequestsQuery,
+  NormalizedAccessCredential,
+  NormalizedAccessCredentialPage
+} from "../schema/vc-schema";
+
+export type AccessCredentialType = NonNullable<NormalizedAccessCredential["type"]>;
+
+export type AccessCredentialFilter = Parameters<typeof query>[0];
+
+export type AccessCredentialQueryOptions = Parameters<typeof query>[1];
+
+export interface AccessCredentialQuery {
+  filter: AccessCredentialFilter;
+  expiresBefore?: Date;
+  expiresAfter?: Date;
+}
+
+/**
+ * The most ESS result pages read to fill a single page of a listing with expiry filters.
+ */
+const MAX_QUERY_PAGES = 10;
+
+export function normalizeAccessCredential(credential: DatasetWithId): NormalizedAccessCredential {
+  const type = getTypes(credential).find((type): type is AccessCredentialType =>
+    ["SolidAccessRequest", "SolidAccessGrant", "SolidAccessDenial"].includes(type));
+
+  return {
+    id: getId(credential),
+    type,
+    owner: getResourceOwner(credential),
+    requestor: getRequestor(credential),
+    resources: getResources(credential),
+    purposes: getPurposes(credential),
+    accessModes: getAccessModes(credential),
+    issuanceDate: getIssuanceDate(credential)?.toISOString(),
+    expirationDate: getExpirationDate(credential)?.toISOString(),
+  };
+}
+
+/**
+ * Normalizes a page of query results, applying the expiry filters and exposing the page tokens of the adjacent pages.
+ */
+function normalizeAccessCredentialPage(result: CredentialResult, query: AccessCredentialQuery): NormalizedAccessCredentialPage {
+  const items = result.items.map(normalizeAccessCredential).filter((credential) => {
+    const expirationDate = credential.expirationDate ? new Date(credential.expirationDate) : undefined;
+    if (query.expiresBefore && (!expirationDate || expirationDate >= query.expiresBefore))
+      return false;
+    return !(query.expiresAfter && expirationDate && expirationDate <= query.expiresAfter);
+  });
+
+  return {
+    items,
+    pagination: {
+      first: result.first?.page,
+      prev: result.prev?.page,
+      next: result.next?.page,
+      last: result.last?.page,
+    },
+  };
+}
+
+/**
+ * Queries ESS for a page of access credentials. As ESS can't filter on expiry, a result page may hold fewer matching
+ * credentials than requested. With an expiry filter, the next result pages are read until `pageSize` credentials match
+ * (the size of the first result page when no `pageSize` is given), the results run out or `MAX_QUERY_PAGES` result
+ * pages were read. The page holds the matches of all result pages read, so it may hold more than `pageSize`
+ * credentials, and its `next` token continues after the last result page read.
+ */
+export async function queryAccessCredentials(credentialQuery: AccessCredentialQuery, options: AccessCredentialQueryOptions): Promise<NormalizedAccessCredentialPage> {
+  let result = await query(credentialQuery.filter, options);
+  const page = normalizeAccessCredentialPage(result, credentialQuery);
+  if (!credentialQuery.expiresBefore && !credentialQuery.expiresAfter)
+    return page;
+
+  const pageSize = credentialQuery.filter.pageSize ?? result.items.length;
+  for (let pages = 1; page.items.length < pageSize && result.next && pages < MAX_QUERY_PAGES; pages++) {
+    result = await query(result.next, options);
+    const nextPage = normalizeAccessCredentialPage(result, credentialQuery);
+    page.items.push(...nextPage.items);
+    page.pagination.next = nextPage.pagination.next;
+  }
+
+  return page;
+}
+
+/**
+ * Queries ESS for all active access grants of the owner, reading every result page. Grants that are no longer active
+ * (revoked or expired) and the grants of other owners, in which the owner is the requestor, are left out.
+ */
+export async function queryActiveAccessGrants(ownerWebId: string, options: AccessCredentialQueryOptions): Promise<NormalizedAccessCredential[]> {
+  const accessGrants: NormalizedAccessCredential[] = [];
+  const now = new Date();
+  let page: string | undefined;
+  do {
+    const result = await queryAccessCredentials({ filter: { type: "SolidAccessGrant", status: "Active", ...(page && { page }) }, expiresAfter: now }, options);
+    accessGrants.push(...result.items.filter((accessGrant) => accessGrant.owner === ownerWebId));
+    page = result.pagination.next;
+  } while (page);
+
+  return accessGrants;
+}
+
+/**
+ * Turns the validated query parameters of a listing endpoint into the ESS query filter and the expiry filters.
+ */
+export function toAccessCredentialQuery(type: "SolidAccessGrant" | "SolidAccessRequest", parameters: ListAccessGrantsQuery | ListAccessRequestsQuery): AccessCredentialQuery {
+  const { expiresBefore, expiresAfter, purpose, resource, ...filter } = parameters;
+
+  return {
+    filter: {
+      ...filter,
+      type,
+      ...(purpose && { purpose: new URL(purpose) }),
+      ...(resource && { resource: new URL(resource) }),
+    } as AccessCredentialFilter,
+    expiresBefore,
+    expiresAfter,
+  };
+}
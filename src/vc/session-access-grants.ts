@@ -0,0 +1,124 @@
+/**
+ * Keeps a keyed set of active access grants on the express session.
+ *
+ * A session can hold several access grants at once, e.g. for data in two pods or for two purposes. Every grant is
+ * stored under its id together with the resources it covers and its expiration date. Expired grants are dropped
+ * whenever the set is read.
+ *
+ * The We Are Expressjs middleware (`validateAccessGrant`, `getResource`, ...) works with the single grant in
+ * `req.session.accessGrant`; `selectSessionAccessGrant` puts the grant selected for a request there.
+ */
+import { AccessGrant } from "@inrupt/solid-client-access-grants";
+import { Session, SessionData } from "express-session";
+
+export interface SessionAccessGrant {
+  id: string;
+  accessGrant: string;
+  expirationDate: string;
+  resources: string[];
+  purposes: string[];
+  inherit: boolean;
+  /**
+   * The WebID of the owner of the data who issued the grant.
+   */
+  owner?: string;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    accessGrants?: { [accessGrantId: string]: SessionAccessGrant };
+  }
+}
+
+type AccessGrantSession = Session & Partial<SessionData>;
+
+export function addSessionAccessGrant(session: AccessGrantSession, accessGrant: AccessGrant): SessionAccessGrant {
+  const consent = accessGrant.credentialSubject.providedConsent;
+  const sessionAccessGrant: SessionAccessGrant = {
+    id: accessGrant.id,
+    accessGrant: JSON.stringify(accessGrant),
+    expirationDate: new Date(accessGrant.expirationDate!).toISOString(),
+    resources: consent?.forPersonalData ?? [],
+    purposes: consent?.forPurpose ?? [],
+    inherit: consent?.inherit !== false,
+    owner: accessGrant.credentialSubject.id,
+  };
+
+  session.accessGrants = { ...session.accessGrants, [sessionAccessGrant.id]: sessionAccessGrant };
+  return sessionAccessGrant;
+}
+
+export function removeSessionAccessGrant(session: AccessGrantSession, accessGrantId: string): void {
+  if (session.accessGrants)
+    delete session.accessGrants[accessGrantId];
+
+  if (session.accessGrant && (JSON.parse(session.accessGrant) as AccessGrant).id === accessGrantId) {
+    delete session.accessGrant;
+    delete session.accessGrantExpirationDate;
+  }
+}
+
+export function clearSessionAccessGrants(session: AccessGrantSession): void {
+  delete session.accessGrants;
+  delete session.accessGrant;
+  delete session.accessGrantExpirationDate;
+}
+
+/**
+ * Returns the access grants on the session that have not expired yet, removing the expired ones.
+ */
+export function getSessionAccessGrants(session: AccessGrantSession): SessionAccessGrant[] {
+  const now = Date.now();
+  Object.values(session.accessGrants ?? {})
+    .filter((accessGrant) => new Date(accessGrant.expirationDate).getTime() <= now)
+    .forEach((accessGrant) => removeSessionAccessGrant(session, accessGrant.id));
+
+  return Object.values(session.accessGrants ?? {});
+}
+
+/**
+ * Returns whether the access grant covers the resource: the resource is one of the granted resources or, when the
+ * grant is inherited, a resource contained in one of the granted containers. The URLs are compared in normalized form,
+ * and a resource URL with dot segments or encoded slashes is never covered, as it could leave a granted container.
+ */
+export function coversResource(accessGrant: SessionAccessGrant, resourceUrl: string): boolean {
+  const resource = normalizeResourceUrl(resourceUrl);
+  if (!resource)
+    return false;
+
+  return accessGrant.resources.some((grantedUrl) => {
+    const granted = normalizeResourceUrl(grantedUrl);
+    return granted !== undefined && (granted === resource || (accessGrant.inherit && granted.endsWith("/") && resource.startsWith(granted)));
+  });
+}
+
+/**
+ * Returns the normalized URL, or `undefined` when it is not a URL or its path holds dot segments, backslashes or
+ * encoded slashes.
+ */
+function normalizeResourceUrl(url: string): string | undefined {
+  const path = url.split(/[?#]/)[0];
+  if (/\/(\.|%2e){1,2}(\/|$)|\\|%2f|%5c/i.test(path) || !URL.canParse(url))
+    return undefined;
+  return new URL(url).href;
+}
+
+/**
+ * Selects the active access grant to use for a request and sets it as `req.session.accessGrant`. An explicit
+ * `accessGrantId` takes precedence, otherwise the first grant covering the resource is used.
+ *
+ * @returns The selected grant, or `undefined` when no active grant matches.
+ */
+export function selectSessionAccessGrant(session: AccessGrantSession, resourceUrl?: string, accessGrantId?: string): SessionAccessGrant | undefined {
+  const accessGrants = getSessionAccessGrants(session);
+  const selected = accessGrantId
+    ? accessGrants.find((accessGrant) => accessGrant.id === accessGrantId && (!resourceUrl || coversResource(accessGrant, resourceUrl)))
+    : accessGrants.find((accessGrant) => resourceUrl !== undefined && coversResource(accessGrant, resourceUrl));
+
+  if (selected) {
+    session.accessGrant = selected.accessGrant;
+    session.accessGrantExpirationDate = selected.expirationDate;
+  }
+
+  return selected;
+}
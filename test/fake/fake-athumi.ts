@@ -0,0 +1,73 @@
+/**
+ * A fake Athumi pod platform WebID API.
+ *
+ * `POST <webIdPath>` provisions a WebID for the subject of the ID token in the `Authorization` header: a pod is
+ * created on the fake pod server and the WebID is assigned to the subject at the mock OIDC issuer, so the next
+ * login returns a token with a `webid` claim. `DELETE <webIdPath>` removes both again.
+ *
+ * Example usage:
+ * ```
+ * const athumi = await new FakeAthumi(issuer, pods).start();
+ * const config = loadConfig({ ...env, ATHUMI_POD_PLATFORM_URL: athumi.url.href });
+ * ```
+ */
+import { Express, Request, Response } from "express";
+import { FakeServer } from "./fake-server";
+import { MockOidcIssuer } from "./mock-oidc-issuer";
+import { FakePodServer } from "./fake-pod-server";
+
+export class FakeAthumi extends FakeServer {
+  /**
+   * The WebIDs provisioned by subject.
+   */
+  readonly webIds = new Map<string, string>();
+
+  constructor(private readonly issuer: MockOidcIssuer, private readonly pods: FakePodServer, readonly webIdPath: string = "/v1/webids") {
+    super();
+  }
+
+  protected configure(app: Express): void {
+    app.post(this.webIdPath, (req, res) => {
+      const subject = this.subject(req, res);
+      if (!subject)
+        return;
+      if (this.webIds.has(subject)) {
+        res.status(409).json({ message: `A WebID already exists for [${subject}]` });
+        return;
+      }
+
+      const webId = this.pods.createPod(subject, this.issuer.issuer);
+      this.webIds.set(subject, webId);
+      this.issuer.assignWebId(subject, webId);
+      res.status(201).json({ webId });
+    });
+
+    app.delete(this.webIdPath, (req, res) => {
+      const subject = this.subject(req, res);
+      if (!subject)
+        return;
+      if (!this.webIds.delete(subject)) {
+        res.sendStatus(404);
+        return;
+      }
+
+      this.pods.deletePod(subject);
+      this.issuer.removeWebId(subject);
+      res.sendStatus(204);
+    });
+  }
+
+  /**
+   * Returns the subject of the bearer ID token, or responds with 401 when there is none.
+   */
+  private subject(req: Request, res: Response): string | undefined {
+    const authorization = req.get("Authorization");
+    const [, payload] = authorization?.startsWith("Bearer ") ? authorization.slice(7).split(".") : [];
+    const subject = payload ? JSON.parse(Buffer.from(payload, "base64url").toString("utf8")).sub : undefined;
+    if (typeof subject !== "string") {
+      res.sendStatus(401);
+      return undefined;
+    }
+    return subject;
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * A fake Solid notification server offering the `WebhookChannel2023` channel.
+ *
+ * It serves the storage description the resources of the fake pod server link to, listing its subscription service.
+ * Subscriptions and channel deletions require an `Authorization` header; its token is not verified. The subscribed
+ * channels are kept in `channels`, and `notify` posts a notification to the webhooks subscribed to a resource.
+ *
+ * Example usage:
+ * ```
+ * const notifications = await new FakeNotificationServer().start();
+ * pods.storageDescription = notifications.descriptionUrl;
+ * await notifications.notify(new URL("/citizen-1/data.ttl", pods.url));
+ * ```
+ */
+import express, { Express } from "express";
+import { randomUUID } from "crypto";
+import { FakeServer } from "./fake-server";
+
+const NOTIFY = "http://www.w3.org/ns/solid/notifications#";
+const DESCRIPTION_PATH = "/.well-known/solid";
+
+export interface FakeNotificationChannel {
+  id: string;
+  topic: string;
+  sendTo: string;
+  endAt?: string;
+}
+
+export class FakeNotificationServer extends FakeServer {
+  readonly channels = new Map<string, FakeNotificationChannel>();
+
+  get descriptionUrl(): URL {
+    return new URL(DESCRIPTION_PATH, this.url);
+  }
+
+  /**
+   * Returns the channels subscribed to the resource.
+   */
+  channelsOf(topic: URL): FakeNotificationChannel[] {
+    return [...this.channels.values()].filter((channel) => channel.topic === topic.href);
+  }
+
+  /**
+   * Posts an Activity Streams notification about the resource to the webhooks subscribed to it, and returns the
+   * statuses of their responses.
+   */
+  async notify(topic: URL, type: string = "Update"): Promise<number[]> {
+    return Promise.all(this.channelsOf(topic).map(async (channel) => {
+      const response = await fetch(channel.sendTo, {
+        method: "POST",
+        headers: { "Content-Type": "application/ld+json" },
+        body: JSON.stringify({
+          "@context": ["https://www.w3.org/ns/activitystreams", "https://www.w3.org/ns/solid/notification/v1"],
+          id: `urn:uuid:${randomUUID()}`,
+          type,
+          object: topic.href,
+          published: new Date().toISOString(),
+        }),
+      });
+      return response.status;
+    }));
+  }
+
+  protected configure(app: Express): void {
+    app.use(express.json({ type: ["application/ld+json", "application/json"] }));
+
+    app.get(DESCRIPTION_PATH, (req, res) => {
+      const subscription = new URL("/subscription/webhook", this.url).href;
+      res.set("Content-Type", "text/turtle");
+      res.send([
+        `@prefix notify: <${NOTIFY}>.`,
+        `<${this.descriptionUrl.href}> notify:subscription <${subscription}>.`,
+        `<${subscription}> notify:channelType notify:WebhookChannel2023.`,
+      ].join("\n"));
+    });
+
+    app.post("/subscription/webhook", (req, res) => {
+      if (!req.get("Authorization")) {
+        res.sendStatus(401);
+        return;
+      }
+      const { type, topic, sendTo, endAt } = req.body;
+      if (type !== `${NOTIFY}WebhookChannel2023` || typeof topic !== "string" || typeof sendTo !== "string") {
+        res.status(422).send("Invalid subscription");
+        return;
+      }
+      const channel: FakeNotificationChannel = { id: new URL(`/channels/${randomUUID()}`, this.url).href, topic, sendTo, endAt };
+      this.channels.set(channel.id, channel);
+      res.type("application/ld+json").json({ "@context": ["https://www.w3.org/ns/solid/notification/v1"], type, ...channel });
+    });
+
+    app.delete("/channels/:id", (req, res) => {
+      if (!req.get("Authorization")) {
+        res.sendStatus(401);
+        return;
+      }
+      res.sendStatus(this.channels.delete(new URL(req.path, this.url).href) ? 205 : 404);
+    });
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * A fake Solid pod server keeping resources in memory.
+ *
+ * Every pod lives under `/<name>/` and holds a public WebID profile document at `/<name>/profile/card`, linking the
+ * WebID to its OIDC issuer and storage. All other resources require an `Authorization` header; its token is not
+ * verified, the received headers are recorded in `requests` instead.
+ *
+ * Requests without `Authorization` header are answered with an UMA ticket, and the server is its own UMA authorization
+ * server: `/uma/token` exchanges a ticket and access grant for an access token, as `fetchWithVc` does.
+ *
+ * `PATCH` applies the `DELETE DATA`/`INSERT DATA` blocks of a SPARQL Update and the `solid:deletes`/`solid:inserts` of an
+ * N3 Patch to resources holding one triple per line, e.g. N-Triples, by comparing the triples as text. Resources carry
+ * a strong ETag of their content, checked against `If-Match`.
+ *
+ * Containers are the paths ending with a slash. They exist when created with a `PUT` or when they contain resources,
+ * and are read as a Turtle listing of their contained resources with their size and modified date.
+ *
+ * When `storageDescription` is set, resources and containers link to it, e.g. to the fake notification server.
+ *
+ * Example usage:
+ * ```
+ * const pods = await new FakePodServer().start();
+ * const webId = pods.createPod("citizen-1", issuer.issuer);
+ * pods.putResource(new URL("/citizen-1/data.ttl", pods.url), "<#a> <#b> <#c>.", "text/turtle");
+ * ```
+ */
+import express, { Express, Request, Response } from "express";
+import { createHash, randomUUID } from "crypto";
+import { FakeServer } from "./fake-server";
+
+export interface FakePodResource {
+  body: Buffer;
+  contentType: string;
+  modified: Date;
+}
+
+export interface FakePodRequest {
+  method: string;
+  path: string;
+  authorization?: string;
+  correlationId?: string;
+}
+
+export class FakePodServer extends FakeServer {
+  readonly resources = new Map<string, FakePodResource>();
+  readonly containers = new Set<string>();
+  readonly requests: FakePodRequest[] = [];
+  /**
+   * The storage description the resources link to, listing e.g. the notification subscription services.
+   */
+  storageDescription?: URL;
+
+  /**
+   * Creates a pod with a WebID profile and returns the WebID.
+   */
+  createPod(name: string, oidcIssuer: string): string {
+    const storage = new URL(`/${name}/`, this.url);
+    const profile = new URL(`/${name}/profile/card`, this.url);
+    const webId = `${profile.href}#me`;
+    this.putResource(profile, [
+      "@prefix solid: <http://www.w3.org/ns/solid/terms#>.",
+      "@prefix pim: <http://www.w3.org/ns/pim/space#>.",
+      `<${webId}> solid:oidcIssuer <${oidcIssuer}>; pim:storage <${storage.href}>.`,
+    ].join("\n"), "text/turtle");
+    return webId;
+  }
+
+  deletePod(name: string): void {
+    const prefix = new URL(`/${name}/`, this.url).pathname;
+    [...this.resources.keys()].filter((path) => path.startsWith(prefix)).forEach((path) => this.resources.delete(path));
+    [...this.containers].filter((path) => path.startsWith(prefix)).forEach((path) => this.containers.delete(path));
+  }
+
+  putResource(url: URL, body: string | Buffer, contentType: string): void {
+    this.resources.set(url.pathname, { body: Buffer.from(body), contentType, modified: new Date() });
+  }
+
+  getResource(url: URL): FakePodResource | undefined {
+    return this.resources.get(url.pathname);
+  }
+
+  protected configure(app: Express): void {
+    app.use(express.raw({ type: () => true, limit: "10mb" }));
+
+    app.use((req, res, next) => {
+      this.requests.push({ method: req.method, path: req.path, authorization: req.get("Authorization"), correlationId: req.get("X-Correlation-ID") });
+      res.set("Access-Control-Allow-Origin", "*");
+      next();
+    });
+
+    app.get("/.well-known/uma2-configuration", (req, res) => {
+      res.json({ issuer: this.url.origin, token_endpoint: new URL("/uma/token", this.url).href });
+    });
+
+    app.post("/uma/token", (req, res) => {
+      const form = new URLSearchParams(req.body.toString("utf8"));
+      if (form.get("grant_type") !== "urn:ietf:params:oauth:grant-type:uma-ticket" || !form.get("ticket") || !form.get("claim_token")) {
+        res.status(400).json({ error: "invalid_grant" });
+        return;
+      }
+      if (!req.get("Authorization")) {
+        res.status(401).json({ error: "invalid_client" });
+        return;
+      }
+      res.json({ access_token: `uma-${randomUUID()}`, token_type: "Bearer" });
+    });
+
+    app.get("*", (req, res) => this.read(req, res, true));
+    app.head("*", (req, res) => this.read(req, res, false));
+
+    app.put("*", (req, res) => {
+      if (!this.authorized(req, res))
+        return;
+      if (req.path.endsWith("/")) {
+        const existed = this.containerExists(req.path);
+        if (existed && req.get("If-None-Match") === "*") {
+          res.sendStatus(412);
+          return;
+        }
+        this.containers.add(req.path);
+        res.sendStatus(existed ? 205 : 201);
+        return;
+      }
+      const existed = this.resources.has(req.path);
+      this.resources.set(req.path, {
+        body: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+        contentType: req.get("Content-Type") ?? "application/octet-stream",
+        modified: new Date(),
+      });
+      res.sendStatus(existed ? 205 : 201);
+    });
+
+    app.patch("*", (req, res) => {
+      if (!this.authorized(req, res))
+        return;
+      const resource = this.resources.get(req.path);
+      if (!resource) {
+        res.sendStatus(404);
+        return;
+      }
+      const ifMatch = req.get("If-Match");
+      if (ifMatch && ifMatch !== "*" && ifMatch !== etag(resource.body)) {
+        res.sendStatus(412);
+        return;
+      }
+
+      const patch = Buffer.isBuffer(req.body) ? req.body.toString("utf8") : "";
+      const [deletesPattern, insertsPattern] = req.is("text/n3")
+        ? [/solid:deletes\s*\{([^}]*)\}/, /solid:inserts\s*\{([^}]*)\}/]
+        : [/DELETE\s+DATA\s*\{([^}]*)\}/i, /INSERT\s+DATA\s*\{([^}]*)\}/i];
+      const lines = resource.body.toString("utf8").split("\n").map(normalizeTriple).filter(Boolean);
+      const deletes = triples(deletesPattern.exec(patch)?.[1]);
+      if (deletes.some((triple) => !lines.includes(triple))) {
+        res.status(409).send("The triples to delete don't exist");
+        return;
+      }
+
+      const body = Buffer.from([...lines.filter((line) => !deletes.includes(line)), ...triples(insertsPattern.exec(patch)?.[1])]
+        .map((triple) => `${triple} .\n`).join(""));
+      this.resources.set(req.path, { ...resource, body, modified: new Date() });
+      res.set("ETag", etag(body));
+      res.sendStatus(205);
+    });
+
+    app.delete("*", (req, res) => {
+      if (!this.authorized(req, res))
+        return;
+      if (req.path.endsWith("/")) {
+        if (!this.containerExists(req.path))
+          res.sendStatus(404);
+        else if (this.containedPaths(req.path).length > 0)
+          res.status(409).send("Container is not empty");
+        else
+          res.sendStatus(this.containers.delete(req.path) ? 205 : 404);
+        return;
+      }
+      res.sendStatus(this.resources.delete(req.path) ? 205 : 404);
+    });
+  }
+
+  private containerExists(path: string): boolean {
+    return this.containers.has(path) || [...this.resources.keys()].some((resourcePath) => resourcePath.startsWith(path));
+  }
+
+  /**
+   * Returns the paths of the resources and containers directly contained in a container.
+   */
+  private containedPaths(path: string): string[] {
+    const paths = new Set<string>();
+    [...this.resources.keys(), ...this.containers].filter((contained) => contained.startsWith(path) && contained !== path)
+      .forEach((contained) => {
+        const [child, ...rest] = contained.slice(path.length).split("/");
+        paths.add(`${path}${child}${rest.length > 0 ? "/" : ""}`);
+      });
+    return [...paths].sort();
+  }
+
+  private readContainer(req: Request, res: Response, withBody: boolean): void {
+    if (!this.containerExists(req.path)) {
+      res.sendStatus(404);
+      return;
+    }
+
+    const containedUrls = this.containedPaths(req.path).map((path) => new URL(path, this.url).href);
+    const contained = containedUrls.map((url) => {
+      const path = new URL(url).pathname;
+      const resource = this.resources.get(path);
+      return resource
+        ? `<${url}> a ldp:Resource; stat:size ${resource.body.length}; dcterms:modified "${resource.modified.toISOString()}"^^xsd:dateTime.`
+        : `<${url}> a ldp:BasicContainer, ldp:Container.`;
+    });
+    const body = [
+      "@prefix ldp: <http://www.w3.org/ns/ldp#>.",
+      "@prefix stat: <http://www.w3.org/ns/posix/stat#>.",
+      "@prefix dcterms: <http://purl.org/dc/terms/>.",
+      "@prefix xsd: <http://www.w3.org/2001/XMLSchema#>.",
+      `<${new URL(req.path, this.url).href}> a ldp:BasicContainer, ldp:Container${contained.length > 0 ? `; ldp:contains ${containedUrls.map((url) => `<${url}>`).join(", ")}` : ""}.`,
+      ...contained,
+    ].join("\n");
+
+    res.set("Content-Type", "text/turtle");
+    res.set("Link", '<http://www.w3.org/ns/ldp#BasicContainer>; rel="type"');
+    this.linkStorageDescription(res);
+    if (withBody)
+      res.send(body);
+    else
+      res.end();
+  }
+
+  private read(req: Request, res: Response, withBody: boolean): void {
+    if (!req.path.endsWith("/profile/card") && !this.authorized(req, res))
+      return;
+    if (req.path.endsWith("/")) {
+      this.readContainer(req, res, withBody);
+      return;
+    }
+
+    const resource = this.resources.get(req.path);
+    if (!resource) {
+      res.sendStatus(404);
+      return;
+    }
+
+    res.set("Content-Type", resource.contentType);
+    res.set("Content-Length", String(resource.body.length));
+    res.set("Last-Modified", resource.modified.toUTCString());
+    res.set("ETag", etag(resource.body));
+    res.set("Link", '<http://www.w3.org/ns/ldp#Resource>; rel="type"');
+    this.linkStorageDescription(res);
+    res.set("WAC-Allow", 'user="read write append control",public="read"');
+    if (withBody)
+      res.send(resource.body);
+    else
+      res.end();
+  }
+
+  private linkStorageDescription(res: Response): void {
+    if (this.storageDescription)
+      res.append("Link", `<${this.storageDescription.href}>; rel="http://www.w3.org/ns/solid/terms#storageDescription"`);
+  }
+
+  private authorized(req: Request, res: Response): boolean {
+    if (req.get("Authorization"))
+      return true;
+    res.set("WWW-Authenticate", `UMA as_uri="${this.url.origin}", ticket="${randomUUID()}"`);
+    res.sendStatus(401);
+    return false;
+  }
+}
+
+function etag(body: Buffer): string {
+  return `"${createHash("sha256").update(body).digest("base64url")}"`;
+}
+
+function normalizeTriple(triple: string): string {
+  return triple.trim().replace(/\s*\.$/, "");
+}
+
+function triples(block: string | undefined): string[] {
+  return (block ?? "").split("\n").map(normalizeTriple).filter(Boolean);
+}
@@ -0,0 +1,49 @@
+/**
+ * Base class of the in-process stand-ins for the remote services, each serving an Express application on a free
+ * local port.
+ *
+ * Example usage:
+ * ```
+ * const athumi = await new FakeAthumi().start();
+ * const config = loadConfig({ ...env, ATHUMI_POD_PLATFORM_URL: athumi.url.href });
+ * await athumi.stop();
+ * ```
+ */
+import express, { Express } from "express";
+import http from "http";
+import { AddressInfo } from "net";
+
+export abstract class FakeServer {
+  private server?: http.Server;
+  private baseUrl?: URL;
+
+  get url(): URL {
+    if (!this.baseUrl)
+      throw new Error(`${this.constructor.name} is not started`);
+    return new URL(this.baseUrl);
+  }
+
+  async start(): Promise<this> {
+    const app = express();
+    this.configure(app);
+    this.server = http.createServer(app);
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = new URL(`http://127.0.0.1:${port}`);
+    return this;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server)
+      return;
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => server.close((error) => error ? reject(error) : resolve()));
+  }
+
+  /**
+   * Registers the routes of the fake service.
+   */
+  protected abstract configure(app: Express): void;
+}
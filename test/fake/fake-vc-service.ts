@@ -0,0 +1,166 @@
+/**
+ * A fake ESS verifiable credential service, implementing the VC API endpoints used for access requests and grants:
+ * - `POST /issue`: issues the posted credential, adding an id, issuer, issuance date, status and proof.
+ * - `GET /vc/:id`: returns an issued credential.
+ * - `POST /derive`: returns the issued credentials matching the type and subject of the posted credential.
+ * - `GET /query`: lists the issued credentials filtered by `type` and `status`, like the ESS query endpoint.
+ * - `POST /status`: revokes a credential.
+ *
+ * Access grants are issued by the owner of the data in a separate application. Tests simulate this with
+ * `grantAccessRequest`:
+ * ```
+ * const vc = await new FakeVcService().start();
+ * const accessGrant = vc.grantAccessRequest(accessRequestId);
+ * ```
+ */
+import crypto from "crypto";
+import express, { Express, Request, Response } from "express";
+import { FakeServer } from "./fake-server";
+
+export type VerifiableCredential = {
+  id: string;
+  type: string[];
+  issuer: string;
+  issuanceDate: string;
+  expirationDate?: string;
+  credentialSubject: { id?: string; [key: string]: any };
+  [key: string]: any;
+};
+
+const CONSENT_STATUS_GIVEN = "https://w3id.org/GConsent#ConsentStatusExplicitlyGiven";
+
+export class FakeVcService extends FakeServer {
+  readonly credentials = new Map<string, VerifiableCredential>();
+  readonly revoked = new Set<string>();
+
+  /**
+   * Issues an access grant for an issued access request, as if the owner of the data approved it.
+   */
+  grantAccessRequest(accessRequestId: string): VerifiableCredential {
+    const accessRequest = this.credentials.get(accessRequestId);
+    if (!accessRequest)
+      throw new Error(`Unknown access request [${accessRequestId}]`);
+
+    const { hasConsent } = accessRequest.credentialSubject;
+    return this.issue({
+      "@context": accessRequest["@context"],
+      type: ["VerifiableCredential", "SolidAccessGrant"],
+      expirationDate: accessRequest.expirationDate,
+      credentialSubject: {
+        id: hasConsent.isConsentForDataSubject,
+        providedConsent: {
+          mode: hasConsent.mode,
+          hasStatus: CONSENT_STATUS_GIVEN,
+          forPersonalData: hasConsent.forPersonalData,
+          forPurpose: hasConsent.forPurpose,
+          isProvidedTo: accessRequest.credentialSubject.id,
+          inherit: hasConsent.inherit,
+        },
+      },
+    });
+  }
+
+  credentialsOfType(type: string): VerifiableCredential[] {
+    return [...this.credentials.values()].filter((credential) => credential.type.includes(type));
+  }
+
+  protected configure(app: Express): void {
+    app.use(express.json({ type: ["application/json", "application/ld+json"] }));
+
+    app.get("/.well-known/vc-configuration", (req, res) => {
+      res.json({
+        issuerService: new URL("/issue", this.url).href,
+        derivationService: new URL("/derive", this.url).href,
+        statusService: new URL("/status", this.url).href,
+        queryService: new URL("/query", this.url).href,
+      });
+    });
+
+    app.post("/issue", (req, res) => {
+      if (!req.body?.credential) {
+        res.status(400).json({ error: "Missing credential" });
+        return;
+      }
+      res.status(201).json(this.issue(req.body.credential));
+    });
+
+    app.get("/vc/:id", (req, res) => {
+      const credential = this.credentials.get(new URL(req.originalUrl, this.url).href);
+      if (!credential) {
+        res.sendStatus(404);
+        return;
+      }
+      res.json(credential);
+    });
+
+    app.post("/derive", (req, res) => {
+      const filter = req.body?.verifiableCredential ?? {};
+      const types: string[] = [filter.type ?? []].flat().filter((type: string) => type !== "VerifiableCredential");
+      const verifiableCredential = [...this.credentials.values()].filter((credential) =>
+        types.every((type) => credential.type.includes(type)) && this.matchesStatus(credential, req.body?.options?.includeExpiredVc ? undefined : "Active"));
+      res.json({ verifiableCredential });
+    });
+
+    app.get("/query", (req, res) => this.query(req, res));
+
+    app.post("/status", (req, res) => {
+      const credentialId = req.body?.credentialId;
+      if (!this.credentials.has(credentialId)) {
+        res.sendStatus(404);
+        return;
+      }
+      this.revoked.add(credentialId);
+      res.sendStatus(204);
+    });
+  }
+
+  private issue(credential: { type: string | string[]; credentialSubject: VerifiableCredential["credentialSubject"]; [key: string]: any }): VerifiableCredential {
+    const id = new URL(`/vc/${crypto.randomUUID()}`, this.url).href;
+    const now = new Date().toISOString();
+    const issued: VerifiableCredential = {
+      ...credential,
+      type: [...new Set(["VerifiableCredential", ...[credential.type].flat()])],
+      id,
+      issuer: this.url.href.replace(/\/$/, ""),
+      issuanceDate: now,
+      credentialStatus: {
+        id: `${id}#status`,
+        type: "RevocationList2020Status",
+        revocationListIndex: "0",
+        revocationListCredential: new URL("/status/list", this.url).href,
+      },
+      proof: {
+        type: "Ed25519Signature2020",
+        created: now,
+        proofPurpose: "assertionMethod",
+        verificationMethod: new URL("/key/1", this.url).href,
+        proofValue: "fake",
+      },
+    };
+    this.credentials.set(id, issued);
+    return issued;
+  }
+
+  private query(req: Request, res: Response): void {
+    const type = req.query.type as string | undefined;
+    const status = req.query.status as string | undefined;
+    const items = [...this.credentials.values()].filter((credential) =>
+      (!type || credential.type.includes(type)) && this.matchesStatus(credential, status));
+    res.json({ items });
+  }
+
+  private matchesStatus(credential: VerifiableCredential, status: string | undefined): boolean {
+    const revoked = this.revoked.has(credential.id);
+    const expired = credential.expirationDate !== undefined && new Date(credential.expirationDate).getTime() <= Date.now();
+    switch (status) {
+      case "Active":
+        return !revoked && !expired;
+      case "Revoked":
+        return revoked;
+      case "Expired":
+        return expired;
+      default:
+        return true;
+    }
+  }
+}
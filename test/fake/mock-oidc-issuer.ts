@@ -0,0 +1,211 @@
+/**
+ * A mock OpenID Connect provider, standing in for both the citizen OIDC provider (ACM) and the We Are OIDC provider.
+ *
+ * The issuer serves discovery, a JWKS, an authorization endpoint that immediately redirects back with a code for the
+ * current citizen (no login page), and a token endpoint supporting the `authorization_code`, `refresh_token` and
+ * `client_credentials` grants. ID tokens are signed with an ES256 key generated at start.
+ *
+ * The citizen is identified by `subject`. Its ID token only carries a `webid` claim once a WebID was assigned,
+ * like the Athumi pod platform does when provisioning a WebID:
+ * ```
+ * const issuer = await new MockOidcIssuer({ clientId: "demo", clientSecret: "secret" }).start();
+ * issuer.assignWebId(issuer.subject, "https://pod.example/citizen/profile/card#me");
+ * ```
+ */
+import crypto from "crypto";
+import express, { Express, Request, Response } from "express";
+import { exportJWK, generateKeyPair, JWK, KeyLike, SignJWT } from "jose";
+import { FakeServer } from "./fake-server";
+
+export interface MockOidcClient {
+  clientId: string;
+  clientSecret: string;
+}
+
+interface AuthorizationCode {
+  subject: string;
+  clientId: string;
+  redirectUri: string;
+  scope: string;
+}
+
+export class MockOidcIssuer extends FakeServer {
+  /**
+   * The subject of the citizen logging in at the authorization endpoint.
+   */
+  subject = "citizen-1";
+  /**
+   * The query parameters of every request to the authorization endpoint, most recent last.
+   */
+  readonly authorizationRequests: URLSearchParams[] = [];
+  /**
+   * The grant type of every request to the token endpoint, most recent last.
+   */
+  readonly tokenGrantTypes: string[] = [];
+
+  private readonly webIds = new Map<string, string>();
+  private readonly codes = new Map<string, AuthorizationCode>();
+  private readonly refreshTokens = new Map<string, string>();
+  private privateKey?: KeyLike;
+  private publicJwk?: JWK;
+
+  constructor(private readonly client: MockOidcClient, private readonly basePath: string = "") {
+    super();
+  }
+
+  get issuer(): string {
+    return new URL(this.basePath, this.url).href.replace(/\/$/, "");
+  }
+
+  assignWebId(subject: string, webId: string): void {
+    this.webIds.set(subject, webId);
+  }
+
+  removeWebId(subject: string): void {
+    this.webIds.delete(subject);
+  }
+
+  getWebId(subject: string): string | undefined {
+    return this.webIds.get(subject);
+  }
+
+  async start(): Promise<this> {
+    const { privateKey, publicKey } = await generateKeyPair("ES256");
+    this.privateKey = privateKey;
+    this.publicJwk = { ...(await exportJWK(publicKey)), kid: "mock-key", alg: "ES256", use: "sig" };
+    return super.start();
+  }
+
+  protected configure(app: Express): void {
+    const router = express.Router();
+    router.use(express.urlencoded({ extended: false }));
+
+    router.get("/.well-known/openid-configuration", (req, res) => {
+      res.json({
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/auth`,
+        token_endpoint: `${this.issuer}/v1/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+        response_types_supported: ["code"],
+        subject_types_supported: ["public"],
+        grant_types_supported: ["authorization_code", "refresh_token", "client_credentials"],
+        id_token_signing_alg_values_supported: ["ES256"],
+        token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
+        code_challenge_methods_supported: ["S256"],
+        dpop_signing_alg_values_supported: ["ES256"],
+        scopes_supported: ["openid", "webid", "offline_access", "rrn"],
+        claims_supported: ["sub", "iss", "aud", "exp", "iat", "azp", "webid", "rrn"],
+      });
+    });
+
+    router.get("/jwks", (req, res) => {
+      res.json({ keys: [this.publicJwk] });
+    });
+
+    router.get("/auth", (req, res) => this.authorize(req, res));
+    router.post("/v1/token", (req, res, next) => this.token(req, res).catch(next));
+    router.post("/token", (req, res, next) => this.token(req, res).catch(next));
+
+    app.use(this.basePath || "/", router);
+  }
+
+  private authorize(req: Request, res: Response): void {
+    const parameters = new URLSearchParams(req.query as Record<string, string>);
+    this.authorizationRequests.push(parameters);
+
+    const redirectUri = parameters.get("redirect_uri");
+    const clientId = parameters.get("client_id");
+    if (!redirectUri || clientId !== this.client.clientId) {
+      res.status(400).json({ error: "invalid_request" });
+      return;
+    }
+
+    const code = crypto.randomUUID();
+    this.codes.set(code, { subject: this.subject, clientId, redirectUri, scope: parameters.get("scope") ?? "openid" });
+
+    const redirectUrl = new URL(redirectUri);
+    redirectUrl.searchParams.set("code", code);
+    redirectUrl.searchParams.set("iss", this.issuer);
+    if (parameters.has("state"))
+      redirectUrl.searchParams.set("state", parameters.get("state")!);
+    res.redirect(redirectUrl.href);
+  }
+
+  private async token(req: Request, res: Response): Promise<void> {
+    const clientId = this.authenticateClient(req);
+    if (!clientId) {
+      res.status(401).json({ error: "invalid_client" });
+      return;
+    }
+
+    const tokenType = req.get("DPoP") ? "DPoP" : "Bearer";
+    this.tokenGrantTypes.push(req.body.grant_type);
+    switch (req.body.grant_type) {
+      case "authorization_code": {
+        const code = this.codes.get(req.body.code);
+        this.codes.delete(req.body.code);
+        if (!code || code.clientId !== clientId) {
+          res.status(400).json({ error: "invalid_grant" });
+          return;
+        }
+        res.json(await this.issueTokens(code.subject, clientId, code.scope, tokenType));
+        return;
+      }
+      case "refresh_token": {
+        const subject = this.refreshTokens.get(req.body.refresh_token);
+        if (!subject) {
+          res.status(400).json({ error: "invalid_grant" });
+          return;
+        }
+        res.json(await this.issueTokens(subject, clientId, "openid webid offline_access", tokenType));
+        return;
+      }
+      case "client_credentials":
+        res.json({
+          access_token: await this.sign({ sub: clientId, client_id: clientId }, clientId),
+          token_type: "Bearer",
+          expires_in: 3600,
+        });
+        return;
+      default:
+        res.status(400).json({ error: "unsupported_grant_type" });
+    }
+  }
+
+  private async issueTokens(subject: string, clientId: string, scope: string, tokenType: string) {
+    const webId = this.webIds.get(subject);
+    const refreshToken = crypto.randomUUID();
+    this.refreshTokens.set(refreshToken, subject);
+    return {
+      access_token: await this.sign({ sub: subject, webid: webId, client_id: clientId, scope }, "solid"),
+      id_token: await this.sign({ sub: subject, webid: webId, azp: clientId, rrn: subject }, clientId),
+      refresh_token: refreshToken,
+      token_type: tokenType,
+      expires_in: 3600,
+      scope,
+    };
+  }
+
+  private authenticateClient(req: Request): string | undefined {
+    let clientId: string | undefined = req.body.client_id;
+    let clientSecret: string | undefined = req.body.client_secret;
+    const authorization = req.get("Authorization");
+    if (authorization?.startsWith("Basic ")) {
+      const [id, secret] = Buffer.from(authorization.slice(6), "base64").toString("utf8").split(":");
+      clientId = decodeURIComponent(id);
+      clientSecret = decodeURIComponent(secret);
+    }
+    return clientId === this.client.clientId && clientSecret === this.client.clientSecret ? clientId : undefined;
+  }
+
+  private sign(claims: Record<string, unknown>, audience: string): Promise<string> {
+    const payload = Object.fromEntries(Object.entries(claims).filter(([, value]) => value !== undefined));
+    return new SignJWT(payload)
+      .setProtectedHeader({ alg: "ES256", kid: "mock-key" })
+      .setIssuer(this.issuer)
+      .setAudience(audience)
+      .setIssuedAt()
+      .setExpirationTime("1h")
+      .sign(this.privateKey!);
+  }
+}
@@ -0,0 +1,59 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { startTestEnvironment, TestEnvironment } from "../support/test-environment";
+
+describe("health", () => {
+  let environment: TestEnvironment;
+
+  before(async () => {
+    environment = await startTestEnvironment();
+  });
+
+  after(async () => {
+    await environment.stop();
+  });
+
+  test("reports the process as up", async () => {
+    const response = await fetch(new URL("/health", environment.backendUrl));
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { status: "up" });
+    assert.equal(response.headers.get("set-cookie"), null);
+  });
+
+  test("reports ready when all dependencies are reachable", async () => {
+    const response = await fetch(new URL("/ready", environment.backendUrl));
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(body.status, "ready");
+    assert.deepEqual(Object.keys(body.checks).sort(), ["athumi", "citizenOidc", "configuration", "ess", "sessionStore", "weAreOidc"]);
+  });
+
+  test("counts requests, logins and WebID provisioning", async () => {
+    environment.citizenIssuer.subject = "metrics-citizen";
+    await environment.browser().navigate(new URL("/login", environment.backendUrl));
+
+    const response = await fetch(new URL("/metrics", environment.backendUrl));
+    const metrics = await response.text();
+
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get("content-type")!, /^text\/plain/);
+    assert.match(metrics, /^http_requests_total\{method="GET",route="\/login",status="302"\} 1$/m);
+    assert.match(metrics, /^http_request_duration_seconds_count\{method="GET",route="\/oidc-redirect",status="302"\} [1-9]\d*$/m);
+    assert.match(metrics, /^weare_logins_total\{result="success"\} 1$/m);
+    assert.match(metrics, /^weare_webid_provisioning_total\{operation="create",result="success"\} 1$/m);
+  });
+
+  test("reports not ready when a dependency is unreachable", async () => {
+    await environment.athumi.stop();
+
+    const response = await fetch(new URL("/ready", environment.backendUrl));
+    const body = await response.json();
+
+    assert.equal(response.status, 503);
+    assert.equal(body.status, "not_ready");
+    assert.equal(body.checks.athumi.status, "down");
+    assert.equal(body.checks.sessionStore.status, "up");
+  });
+});
@@ -0,0 +1,84 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { startTestEnvironment, TestEnvironment } from "../support/test-environment";
+import { TestBrowser } from "../support/test-browser";
+import { MockOidcIssuer } from "../fake/mock-oidc-issuer";
+
+describe("identity providers", () => {
+  let environment: TestEnvironment;
+  let testIssuer: MockOidcIssuer;
+
+  before(async () => {
+    testIssuer = await new MockOidcIssuer({ clientId: "test-client", clientSecret: "test-secret" }, "/op").start();
+    environment = await startTestEnvironment({}, {
+      CITIZEN_IDP_PROFILES: "test",
+      CITIZEN_IDP_TEST_URL: testIssuer.url.href,
+      CITIZEN_IDP_TEST_CLIENT_ID: "test-client",
+      CITIZEN_IDP_TEST_CLIENT_SECRET: "test-secret",
+      CITIZEN_IDP_TEST_SCOPES: "webid",
+      CITIZEN_IDP_TEST_LOGIN_HINT: "test-citizen",
+      CITIZEN_IDP_TEST_PROVISION_WEB_ID: "false",
+    });
+  });
+
+  after(async () => {
+    await environment.stop();
+    await testIssuer.stop();
+  });
+
+  function browser(): TestBrowser {
+    return new TestBrowser([environment.backendUrl, environment.citizenIssuer.url, testIssuer.url]);
+  }
+
+  test("logs in with the identity provider selected at login", async () => {
+    testIssuer.subject = "test-citizen";
+    testIssuer.assignWebId("test-citizen", "https://pods.test/test-citizen/profile/card#me");
+    const testBrowser = browser();
+
+    const landing = await testBrowser.navigate(new URL("/login?provider=test", environment.backendUrl));
+
+    assert.equal(landing.searchParams.get("login"), "success");
+    const authorizationRequest = testIssuer.authorizationRequests.at(-1)!;
+    assert.equal(authorizationRequest.get("login_hint"), "test-citizen");
+    assert.doesNotMatch(authorizationRequest.get("scope")!, /\brrn\b/);
+    const sessionInformation = await testBrowser.sessionInformation(environment.backendUrl);
+    assert.equal(sessionInformation.webId, "https://pods.test/test-citizen/profile/card#me");
+    assert.equal(sessionInformation.identityProvider, "test");
+  });
+
+  test("logs in with the default identity provider without provider", async () => {
+    environment.citizenIssuer.subject = "default-citizen";
+    environment.citizenIssuer.assignWebId("default-citizen", "https://pods.test/default-citizen/profile/card#me");
+    const testBrowser = browser();
+
+    await testBrowser.navigate(new URL("/login", environment.backendUrl));
+
+    assert.equal((await testBrowser.sessionInformation(environment.backendUrl)).identityProvider, "acm");
+    assert.match(environment.citizenIssuer.authorizationRequests.at(-1)!.get("scope")!, /\brrn\b/);
+  });
+
+  test("fails the login when the identity provider doesn't provision a missing WebID", async () => {
+    testIssuer.subject = "citizen-without-web-id";
+
+    const landing = await browser().navigate(new URL("/login?provider=test", environment.backendUrl));
+
+    assert.equal(landing.searchParams.get("login"), "failed");
+    assert.equal(landing.searchParams.get("reason"), "web_id_missing");
+    assert.equal(environment.athumi.webIds.has("citizen-without-web-id"), false);
+  });
+
+  test("rejects an unknown identity provider", async () => {
+    const response = await browser().fetch(new URL("/login?provider=unknown", environment.backendUrl));
+
+    assert.equal(response.status, 400);
+    assert.deepEqual((await response.json()).errors, [{ location: "query", field: "provider", message: "Unknown identity provider" }]);
+  });
+
+  test("reports the readiness of every identity provider", async () => {
+    const response = await fetch(new URL("/ready", environment.backendUrl));
+
+    const checks = (await response.json()).checks;
+    assert.equal(checks.citizenOidc.status, "up");
+    assert.equal(checks["citizenOidc:test"].status, "up");
+  });
+});
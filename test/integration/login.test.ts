@@ -0,0 +1,97 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { startTestEnvironment, TestEnvironment } from "../support/test-environment";
+
+describe("login", () => {
+  let environment: TestEnvironment;
+
+  before(async () => {
+    environment = await startTestEnvironment();
+  });
+
+  after(async () => {
+    await environment.stop();
+  });
+
+  test("provisions a WebID at Athumi on the first login and logs in with it", async () => {
+    environment.citizenIssuer.subject = "first-time-citizen";
+    const browser = environment.browser();
+
+    const landing = await browser.navigate(new URL("/login", environment.backendUrl));
+
+    assert.equal(landing.origin, environment.config.frontendUrl.origin);
+    assert.equal(landing.searchParams.get("login"), "success");
+    const webId = environment.athumi.webIds.get("first-time-citizen");
+    assert.ok(webId);
+
+    const sessionInformation = await browser.sessionInformation(environment.backendUrl);
+    assert.equal(sessionInformation.isLoggedIn, true);
+    assert.equal(sessionInformation.webId, webId);
+    assert.ok(sessionInformation.csrfToken);
+  });
+
+  test("logs in directly when the citizen already has a WebID", async () => {
+    environment.citizenIssuer.subject = "known-citizen";
+    const webId = environment.pods.createPod("known-citizen", environment.citizenIssuer.issuer);
+    environment.citizenIssuer.assignWebId("known-citizen", webId);
+    const browser = environment.browser();
+
+    const landing = await browser.navigate(new URL("/login", environment.backendUrl));
+
+    assert.equal(landing.searchParams.get("login"), "success");
+    assert.equal(environment.athumi.webIds.has("known-citizen"), false);
+    assert.equal((await browser.sessionInformation(environment.backendUrl)).webId, webId);
+  });
+
+  test("asks the citizen to switch identity", async () => {
+    environment.citizenIssuer.subject = "known-citizen";
+    const browser = environment.browser();
+
+    await browser.navigate(new URL("/login?switchIdentity=true", environment.backendUrl));
+
+    const authorizationRequest = environment.citizenIssuer.authorizationRequests.at(-1)!;
+    assert.equal(authorizationRequest.get("login_hint"), "eyJzd2l0Y2hfaWQiOiB0cnVlfQ==");
+    assert.match(authorizationRequest.get("scope")!, /\brrn\b/);
+  });
+
+  test("redirects to an allowed redirect URL after login", async () => {
+    environment.citizenIssuer.subject = "known-citizen";
+    const browser = environment.browser();
+    const redirectUrl = new URL("/profile", environment.config.frontendUrl);
+
+    const landing = await browser.navigate(new URL(`/login?redirectUrl=${encodeURIComponent(redirectUrl.href)}`, environment.backendUrl));
+
+    assert.equal(landing.pathname, "/profile");
+    assert.equal(landing.searchParams.get("login"), "success");
+  });
+
+  test("rejects a redirect URL outside of the allowlist", async () => {
+    const browser = environment.browser();
+
+    const response = await browser.fetch(new URL(`/login?redirectUrl=${encodeURIComponent("https://evil.example/")}`, environment.backendUrl));
+
+    assert.equal(response.status, 400);
+    assert.equal(response.headers.get("Content-Type"), "application/problem+json; charset=utf-8");
+    assert.equal((await response.json()).type, "urn:weare-demo:problem:validation-failed");
+  });
+
+  test("fails an OIDC redirect without login flow", async () => {
+    const browser = environment.browser();
+
+    const landing = await browser.navigate(new URL("/oidc-redirect?code=unknown&state=unknown", environment.backendUrl));
+
+    assert.equal(landing.searchParams.get("login"), "failed");
+    assert.equal(landing.searchParams.get("reason"), "unknown");
+  });
+
+  test("logs out and clears the session", async () => {
+    environment.citizenIssuer.subject = "known-citizen";
+    const browser = environment.browser();
+    await browser.navigate(new URL("/login", environment.backendUrl));
+
+    const landing = await browser.navigate(new URL("/logout", environment.backendUrl));
+
+    assert.equal(landing.searchParams.get("logout"), "success");
+    assert.equal((await browser.sessionInformation(environment.backendUrl)).isLoggedIn, false);
+  });
+});
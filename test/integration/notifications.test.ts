@@ -0,0 +1,127 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { startTestEnvironment, TestEnvironment } from "../support/test-environment";
+import { TestBrowser } from "../support/test-browser";
+import { TestEventStream } from "../support/test-event-stream";
+
+const PURPOSE = "https://example.org/purpose/demo";
+
+describe("notifications", () => {
+  let environment: TestEnvironment;
+  let browser: TestBrowser;
+  let ownerWebId: string;
+  let resourceUrl: URL;
+
+  before(async () => {
+    environment = await startTestEnvironment({}, { NOTIFICATIONS_ENABLED: "true" });
+    ownerWebId = environment.pods.createPod("notified-owner", environment.citizenIssuer.issuer);
+    resourceUrl = new URL("/notified-owner/data/profile.ttl", environment.pods.url);
+    environment.pods.putResource(resourceUrl, '<#me> <http://xmlns.com/foaf/0.1/name> "Owner".', "text/turtle");
+  });
+
+  after(async () => {
+    await environment.stop();
+  });
+
+  beforeEach(async () => {
+    // The subscriptions of the previous test are removed once its event stream closed.
+    await until(() => environment.notifications.channels.size === 0);
+    environment.citizenIssuer.subject = "notified-requestor";
+    browser = environment.browser();
+    await browser.navigate(new URL("/login", environment.backendUrl));
+    await browser.sessionInformation(environment.backendUrl);
+  });
+
+  async function setAccessGrant(): Promise<string> {
+    const request = await browser.fetch(new URL("/access-request", environment.backendUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        data: resourceUrl.href,
+        webId: ownerWebId,
+        purpose: PURPOSE,
+        expirationDate: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+        access: { read: true },
+      }),
+    });
+    assert.equal(request.status, 201);
+    const accessGrant = environment.vc.grantAccessRequest((await request.json()).id);
+
+    const response = await browser.fetch(new URL("/access-grant", environment.backendUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ accessGrantId: accessGrant.id }),
+    });
+    assert.equal(response.status, 200);
+    return accessGrant.id;
+  }
+
+  async function until(condition: () => boolean, timeout: number = 5000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+      if (Date.now() > deadline)
+        throw new Error(`Condition not met within ${timeout} ms`);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  test("relays the changes of the resources of the access grants to the event stream", async () => {
+    const accessGrantId = await setAccessGrant();
+    const events = new TestEventStream(await browser.fetch(new URL("/session/events", environment.backendUrl)));
+
+    try {
+      await until(() => environment.notifications.channelsOf(resourceUrl).length === 1);
+      const [channel] = environment.notifications.channelsOf(resourceUrl);
+      assert.ok(channel.sendTo.startsWith(new URL("/notifications/webhook?subscription=", environment.backendUrl).href));
+
+      assert.deepEqual(await environment.notifications.notify(resourceUrl, "Update"), [202]);
+
+      const event = await events.next("resource-changed");
+      assert.equal(event.resource, resourceUrl.href);
+      assert.equal(event.type, "Update");
+      assert.equal(event.accessGrantId, accessGrantId);
+    } finally {
+      await events.close();
+    }
+  });
+
+  test("subscribes to access grants added while listening and unsubscribes when they are removed", async () => {
+    const events = new TestEventStream(await browser.fetch(new URL("/session/events", environment.backendUrl)));
+
+    try {
+      const accessGrantId = await setAccessGrant();
+      await until(() => environment.notifications.channelsOf(resourceUrl).length === 1);
+      const [channel] = environment.notifications.channelsOf(resourceUrl);
+
+      const response = await browser.fetch(new URL(`/access-grant?accessGrantId=${encodeURIComponent(accessGrantId)}`, environment.backendUrl), { method: "DELETE" });
+      assert.equal(response.status, 200);
+
+      assert.equal(environment.notifications.channels.has(channel.id), false);
+      const stale = await fetch(channel.sendTo, {
+        method: "POST",
+        headers: { "Content-Type": "application/ld+json" },
+        body: JSON.stringify({ type: "Update", object: resourceUrl.href }),
+      });
+      assert.equal(stale.status, 404);
+      assert.equal((await stale.json()).type, "urn:weare-demo:problem:not-found");
+    } finally {
+      await events.close();
+    }
+  });
+
+  test("unsubscribes and ends the event stream on logout", async () => {
+    await setAccessGrant();
+    const events = new TestEventStream(await browser.fetch(new URL("/session/events", environment.backendUrl)));
+
+    try {
+      await until(() => environment.notifications.channelsOf(resourceUrl).length === 1);
+
+      await browser.navigate(new URL("/logout", environment.backendUrl));
+
+      assert.deepEqual(environment.notifications.channelsOf(resourceUrl), []);
+      await assert.rejects(events.next("resource-changed"), /ended/);
+    } finally {
+      await events.close();
+    }
+  });
+});
@@ -0,0 +1,411 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { startTestEnvironment, TestEnvironment } from "../support/test-environment";
+import { TestBrowser } from "../support/test-browser";
+
+const PURPOSE = "https://example.org/purpose/demo";
+
+describe("pod access", () => {
+  let environment: TestEnvironment;
+  let browser: TestBrowser;
+  let ownerWebId: string;
+  let resourceUrl: URL;
+
+  before(async () => {
+    environment = await startTestEnvironment({}, { UPLOAD_MAX_FILE_SIZE: "1kb", UPLOAD_MAX_FILES: "2" });
+    ownerWebId = environment.pods.createPod("owner", environment.citizenIssuer.issuer);
+    resourceUrl = new URL("/owner/data/profile.ttl", environment.pods.url);
+  });
+
+  after(async () => {
+    await environment.stop();
+  });
+
+  beforeEach(async () => {
+    environment.pods.putResource(resourceUrl, '<#me> <http://xmlns.com/foaf/0.1/name> "Owner".', "text/turtle");
+    environment.citizenIssuer.subject = "requestor";
+    browser = environment.browser();
+    await browser.navigate(new URL("/login", environment.backendUrl));
+    await browser.sessionInformation(environment.backendUrl);
+  });
+
+  async function requestAccess(access: { read?: boolean; write?: boolean }, data: URL = resourceUrl): Promise<string> {
+    const response = await browser.fetch(new URL("/access-request", environment.backendUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        data: data.href,
+        webId: ownerWebId,
+        purpose: PURPOSE,
+        expirationDate: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+        access,
+      }),
+    });
+    assert.equal(response.status, 201);
+    return (await response.json()).id;
+  }
+
+  async function setAccessGrant(accessGrantId: string): Promise<void> {
+    const response = await browser.fetch(new URL("/access-grant", environment.backendUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ accessGrantId }),
+    });
+    assert.equal(response.status, 200);
+  }
+
+  test("reads a resource with an access grant for an approved access request", async () => {
+    const accessRequestId = await requestAccess({ read: true });
+    const accessGrant = environment.vc.grantAccessRequest(accessRequestId);
+    await setAccessGrant(accessGrant.id);
+
+    const response = await browser.fetch(new URL(`/read?resourceUrl=${encodeURIComponent(resourceUrl.href)}`, environment.backendUrl));
+
+    assert.equal(response.status, 200);
+    assert.match(await response.text(), /"Owner"/);
+    const sessionInformation = await browser.sessionInformation(environment.backendUrl);
+    assert.deepEqual(sessionInformation.accessGrants.map(({ id }: { id: string }) => id), [accessGrant.id]);
+  });
+
+  test("reads a resource in the media type of the Accept header", async () => {
+    const accessGrant = environment.vc.grantAccessRequest(await requestAccess({ read: true }));
+    await setAccessGrant(accessGrant.id);
+    const readUrl = new URL(`/read?resourceUrl=${encodeURIComponent(resourceUrl.href)}`, environment.backendUrl);
+
+    const nTriples = await browser.fetch(readUrl, { headers: { Accept: "application/n-triples" } });
+    assert.equal(nTriples.status, 200);
+    assert.match(nTriples.headers.get("Content-Type")!, /^application\/n-triples/);
+    assert.match(await nTriples.text(), /<http:\/\/xmlns.com\/foaf\/0.1\/name> "Owner" \.$/m);
+
+    const json = await browser.fetch(readUrl, { headers: { Accept: "application/json" } });
+    assert.deepEqual((await json.json()).things[0].properties["http://xmlns.com/foaf/0.1/name"], ["Owner"]);
+
+    const notAcceptable = await browser.fetch(readUrl, { headers: { Accept: "image/png" } });
+    assert.equal(notAcceptable.status, 406);
+    assert.equal((await notAcceptable.json()).type, "urn:weare-demo:problem:not-acceptable");
+  });
+
+  test("reads a file with its content type, length and ETag", async () => {
+    const fileUrl = new URL("/owner/data/photo.png", environment.pods.url);
+    environment.pods.putResource(fileUrl, Buffer.from([0x89, 0x50, 0x4e, 0x47]), "image/png");
+    const accessGrant = environment.vc.grantAccessRequest(await requestAccess({ read: true }, fileUrl));
+    await setAccessGrant(accessGrant.id);
+    const readFileUrl = new URL(`/read-file?fileUrl=${encodeURIComponent(fileUrl.href)}`, environment.backendUrl);
+
+    const response = await browser.fetch(readFileUrl);
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("Content-Type"), "image/png");
+    assert.equal(response.headers.get("Content-Length"), "4");
+    const etag = response.headers.get("ETag")!;
+    assert.ok(etag);
+
+    const notModified = await browser.fetch(readFileUrl, { headers: { "If-None-Match": etag } });
+    assert.equal(notModified.status, 304);
+
+    const notAcceptable = await browser.fetch(readFileUrl, { headers: { Accept: "text/plain" } });
+    assert.equal(notAcceptable.status, 406);
+  });
+
+  test("reads a byte range of a file", async () => {
+    const fileUrl = new URL("/owner/data/photo.png", environment.pods.url);
+    environment.pods.putResource(fileUrl, Buffer.from([0x89, 0x50, 0x4e, 0x47]), "image/png");
+    const accessGrant = environment.vc.grantAccessRequest(await requestAccess({ read: true }, fileUrl));
+    await setAccessGrant(accessGrant.id);
+    const readFileUrl = new URL(`/read-file?fileUrl=${encodeURIComponent(fileUrl.href)}`, environment.backendUrl);
+
+    const partial = await browser.fetch(readFileUrl, { headers: { Range: "bytes=1-2" } });
+    assert.equal(partial.status, 206);
+    assert.equal(partial.headers.get("Content-Range"), "bytes 1-2/4");
+    assert.equal(partial.headers.get("Content-Length"), "2");
+    assert.deepEqual([...new Uint8Array(await partial.arrayBuffer())], [0x50, 0x4e]);
+
+    const suffix = await browser.fetch(readFileUrl, { headers: { Range: "bytes=-1" } });
+    assert.deepEqual([...new Uint8Array(await suffix.arrayBuffer())], [0x47]);
+
+    const outside = await browser.fetch(readFileUrl, { headers: { Range: "bytes=10-20" } });
+    assert.equal(outside.status, 416);
+    assert.equal(outside.headers.get("Content-Range"), "bytes */4");
+    assert.equal((await outside.json()).type, "urn:weare-demo:problem:range-not-satisfiable");
+  });
+
+  test("streams a file to the pod with a detected content type", async () => {
+    const fileUrl = new URL("/owner/data/scan", environment.pods.url);
+    const accessGrant = environment.vc.grantAccessRequest(await requestAccess({ read: true, write: true }, fileUrl));
+    await setAccessGrant(accessGrant.id);
+    const writeFileUrl = new URL(`/write-file?fileUrl=${encodeURIComponent(fileUrl.href)}`, environment.backendUrl);
+
+    const response = await browser.fetch(writeFileUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: Buffer.from("%PDF-1.7\n%scan"),
+    });
+    assert.equal(response.status, 200);
+    assert.equal(environment.pods.getResource(fileUrl)!.contentType, "application/pdf");
+    assert.equal(environment.pods.getResource(fileUrl)!.body.toString("utf8"), "%PDF-1.7\n%scan");
+
+    const text = await browser.fetch(writeFileUrl, { method: "POST", headers: { "Content-Type": "text/plain" }, body: "plain text" });
+    assert.equal(text.status, 200);
+    assert.equal(environment.pods.getResource(fileUrl)!.body.toString("utf8"), "plain text");
+
+    const tooLarge = await browser.fetch(writeFileUrl, { method: "POST", headers: { "Content-Type": "text/plain" }, body: "x".repeat(2048) });
+    assert.equal(tooLarge.status, 413);
+    assert.equal((await tooLarge.json()).type, "urn:weare-demo:problem:payload-too-large");
+    assert.equal(environment.pods.getResource(fileUrl)!.body.toString("utf8"), "plain text");
+  });
+
+  test("writes the files of a multipart upload to a container", async () => {
+    const containerUrl = new URL("/owner/uploads/", environment.pods.url);
+    const accessGrant = environment.vc.grantAccessRequest(await requestAccess({ read: true, write: true }, containerUrl));
+    await setAccessGrant(accessGrant.id);
+    const writeFilesUrl = new URL(`/write-files?containerUrl=${encodeURIComponent(containerUrl.href)}`, environment.backendUrl);
+    const form = new FormData();
+    form.append("description", "Two files");
+    form.append("files", new Blob(["hello"], { type: "text/plain" }), "hello.txt");
+    form.append("files", new Blob(["%PDF-1.7"]), "scan");
+
+    const response = await browser.fetch(writeFilesUrl, { method: "POST", body: form });
+
+    assert.equal(response.status, 201);
+    assert.deepEqual((await response.json()).files, [
+      { url: new URL("hello.txt", containerUrl).href, contentType: "text/plain" },
+      { url: new URL("scan", containerUrl).href, contentType: "application/pdf" },
+    ]);
+    assert.equal(environment.pods.getResource(new URL("hello.txt", containerUrl))!.body.toString("utf8"), "hello");
+    assert.equal(environment.pods.getResource(new URL("scan", containerUrl))!.contentType, "application/pdf");
+
+    const tooMany = new FormData();
+    ["a.txt", "b.txt", "c.txt"].forEach((name) => tooMany.append("files", new Blob([name], { type: "text/plain" }), name));
+    const refused = await browser.fetch(writeFilesUrl, { method: "POST", body: tooMany });
+    assert.equal(refused.status, 413);
+  });
+
+  test("writes a resource with an access grant", async () => {
+    const accessGrant = environment.vc.grantAccessRequest(await requestAccess({ read: true, write: true }));
+    await setAccessGrant(accessGrant.id);
+
+    const response = await browser.fetch(new URL(`/write?resourceUrl=${encodeURIComponent(resourceUrl.href)}`, environment.backendUrl), {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: '<#me> <http://xmlns.com/foaf/0.1/name> "Changed".',
+    });
+
+    assert.equal(response.status, 200);
+    assert.match(environment.pods.getResource(resourceUrl)!.body.toString("utf8"), /"Changed"/);
+  });
+
+  test("lists a container with the type, size and modified date of its resources", async () => {
+    const containerUrl = new URL("/owner/listing/", environment.pods.url);
+    const noteUrl = new URL("note.txt", containerUrl);
+    environment.pods.putResource(noteUrl, "note", "text/plain");
+    environment.pods.putResource(new URL("photos/photo.png", containerUrl), Buffer.from([0x89, 0x50]), "image/png");
+    const accessGrant = environment.vc.grantAccessRequest(await requestAccess({ read: true }, containerUrl));
+    await setAccessGrant(accessGrant.id);
+
+    const response = await browser.fetch(new URL(`/container?containerUrl=${encodeURIComponent(containerUrl.href)}`, environment.backendUrl));
+
+    assert.equal(response.status, 200);
+    const listing = await response.json();
+    assert.equal(listing.url, containerUrl.href);
+    assert.deepEqual(listing.resources.map(({ url, type }: { url: string; type: string }) => [url, type]), [
+      [noteUrl.href, "resource"],
+      [new URL("photos/", containerUrl).href, "container"],
+    ]);
+    assert.equal(listing.resources[0].size, 4);
+    assert.ok(!isNaN(new Date(listing.resources[0].modified).getTime()));
+    const podRequest = environment.pods.requests.filter((request) => request.path === containerUrl.pathname).at(-1);
+    assert.match(podRequest?.authorization!, /^Bearer uma-/);
+  });
+
+  test("creates and deletes containers", async () => {
+    const containerUrl = new URL("/owner/data/new/", environment.pods.url);
+    const accessGrant = environment.vc.grantAccessRequest(await requestAccess({ read: true, write: true }, new URL("/owner/data/", environment.pods.url)));
+    await setAccessGrant(accessGrant.id);
+    const url = new URL(`/container?containerUrl=${encodeURIComponent(containerUrl.href)}`, environment.backendUrl);
+
+    const created = await browser.fetch(url, { method: "POST" });
+    assert.equal(created.status, 201);
+    assert.ok(environment.pods.containers.has(containerUrl.pathname));
+
+    const invalid = await browser.fetch(new URL(`/container?containerUrl=${encodeURIComponent(resourceUrl.href)}`, environment.backendUrl), { method: "POST" });
+    assert.equal(invalid.status, 400);
+
+    environment.pods.putResource(new URL("note.txt", containerUrl), "note", "text/plain");
+    const deleteUrl = new URL(`/resource?resourceUrl=${encodeURIComponent(containerUrl.href)}`, environment.backendUrl);
+    const notEmpty = await browser.fetch(deleteUrl, { method: "DELETE" });
+    assert.equal(notEmpty.status, 409);
+    assert.equal((await notEmpty.json()).type, "urn:weare-demo:problem:pod-conflict");
+
+    const deletedFile = await browser.fetch(new URL(`/resource?resourceUrl=${encodeURIComponent(new URL("note.txt", containerUrl).href)}`, environment.backendUrl), { method: "DELETE" });
+    assert.equal(deletedFile.status, 200);
+    const deleted = await browser.fetch(deleteUrl, { method: "DELETE" });
+    assert.equal(deleted.status, 200);
+    assert.ok(!environment.pods.containers.has(containerUrl.pathname));
+  });
+
+  test("patches a resource with optimistic concurrency", async () => {
+    const cardUrl = new URL("/owner/data/card.nt", environment.pods.url);
+    const me = `${cardUrl.href}#me`;
+    environment.pods.putResource(cardUrl, `<${me}> <http://xmlns.com/foaf/0.1/name> "Owner" .\n`, "application/n-triples");
+    const accessGrant = environment.vc.grantAccessRequest(await requestAccess({ read: true, write: true }, cardUrl));
+    await setAccessGrant(accessGrant.id);
+    const patchUrl = new URL(`/resource?resourceUrl=${encodeURIComponent(cardUrl.href)}`, environment.backendUrl);
+    const metadata = await browser.fetch(new URL(`/resource/metadata?resourceUrl=${encodeURIComponent(cardUrl.href)}`, environment.backendUrl));
+    const etag = (await metadata.json()).etag;
+
+    const patched = await browser.fetch(patchUrl, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", "If-Match": etag },
+      body: JSON.stringify({ things: [{ url: me, remove: { "http://xmlns.com/foaf/0.1/name": ["Owner"] }, add: { "http://xmlns.com/foaf/0.1/name": ["Changed"] } }] }),
+    });
+    assert.equal(patched.status, 200);
+    assert.ok(patched.headers.get("ETag"));
+    assert.notEqual(patched.headers.get("ETag"), etag);
+    assert.equal(environment.pods.getResource(cardUrl)!.body.toString("utf8"), `<${me}> <http://xmlns.com/foaf/0.1/name> "Changed" .\n`);
+
+    const conflict = await browser.fetch(patchUrl, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/sparql-update", "If-Match": etag },
+      body: `INSERT DATA { <${me}> <http://xmlns.com/foaf/0.1/nick> "Stale" . }`,
+    });
+    assert.equal(conflict.status, 412);
+    assert.equal((await conflict.json()).type, "urn:weare-demo:problem:pod-precondition-failed");
+
+    const n3Patch = await browser.fetch(patchUrl, {
+      method: "PATCH",
+      headers: { "Content-Type": "text/n3" },
+      body: `@prefix solid: <http://www.w3.org/ns/solid/terms#>.\n_:patch a solid:InsertDeletePatch;\n  solid:inserts {\n    <${me}> <http://xmlns.com/foaf/0.1/nick> "Fresh" .\n  }.`,
+    });
+    assert.equal(n3Patch.status, 200);
+    assert.match(environment.pods.getResource(cardUrl)!.body.toString("utf8"), /"Fresh"/);
+
+    const unsupported = await browser.fetch(patchUrl, { method: "PATCH", headers: { "Content-Type": "text/plain" }, body: "name = Owner" });
+    assert.equal(unsupported.status, 415);
+    assert.equal((await unsupported.json()).type, "urn:weare-demo:problem:unsupported-media-type");
+  });
+
+  test("copies and moves resources covered by the access grant", async () => {
+    const accessGrant = environment.vc.grantAccessRequest(await requestAccess({ read: true, write: true }, new URL("/owner/data/", environment.pods.url)));
+    await setAccessGrant(accessGrant.id);
+    const copyUrl = new URL("/owner/data/copy.ttl", environment.pods.url);
+    const movedUrl = new URL("/owner/data/archive/moved.ttl", environment.pods.url);
+
+    const copied = await browser.fetch(new URL(`/resource/copy?resourceUrl=${encodeURIComponent(resourceUrl.href)}&destinationUrl=${encodeURIComponent(copyUrl.href)}`, environment.backendUrl), { method: "POST" });
+    assert.equal(copied.status, 201);
+    assert.equal(environment.pods.getResource(copyUrl)!.contentType, "text/turtle");
+    assert.deepEqual(environment.pods.getResource(copyUrl)!.body, environment.pods.getResource(resourceUrl)!.body);
+
+    const moved = await browser.fetch(new URL(`/resource/move?resourceUrl=${encodeURIComponent(copyUrl.href)}&destinationUrl=${encodeURIComponent(movedUrl.href)}`, environment.backendUrl), { method: "POST" });
+    assert.equal(moved.status, 201);
+    assert.equal(environment.pods.getResource(copyUrl), undefined);
+    assert.match(environment.pods.getResource(movedUrl)!.body.toString("utf8"), /"Owner"/);
+
+    const outsideUrl = new URL("/owner/private/stolen.ttl", environment.pods.url);
+    const outside = await browser.fetch(new URL(`/resource/copy?resourceUrl=${encodeURIComponent(resourceUrl.href)}&destinationUrl=${encodeURIComponent(outsideUrl.href)}`, environment.backendUrl), { method: "POST" });
+    assert.equal(outside.status, 403);
+    assert.equal((await outside.json()).type, "urn:weare-demo:problem:access-grant-missing");
+    assert.equal(environment.pods.getResource(outsideUrl), undefined);
+  });
+
+  test("reads the metadata of a resource", async () => {
+    const accessGrant = environment.vc.grantAccessRequest(await requestAccess({ read: true }));
+    await setAccessGrant(accessGrant.id);
+
+    const response = await browser.fetch(new URL(`/resource/metadata?resourceUrl=${encodeURIComponent(resourceUrl.href)}`, environment.backendUrl));
+
+    assert.equal(response.status, 200);
+    const metadata = await response.json();
+    assert.equal(metadata.url, resourceUrl.href);
+    assert.equal(metadata.type, "resource");
+    assert.match(metadata.contentType, /^text\/turtle/);
+    assert.equal(metadata.size, environment.pods.getResource(resourceUrl)!.body.length);
+    assert.ok(metadata.modified);
+  });
+
+  test("refuses to read a resource without an access grant", async () => {
+    const response = await browser.fetch(new URL(`/read?resourceUrl=${encodeURIComponent(resourceUrl.href)}`, environment.backendUrl));
+
+    assert.equal(response.status, 403);
+    assert.equal((await response.json()).type, "urn:weare-demo:problem:access-grant-missing");
+  });
+
+  test("propagates the correlation id of the request to the pod", async () => {
+    const accessGrant = environment.vc.grantAccessRequest(await requestAccess({ read: true }));
+    await setAccessGrant(accessGrant.id);
+
+    const response = await browser.fetch(new URL(`/read?resourceUrl=${encodeURIComponent(resourceUrl.href)}`, environment.backendUrl), {
+      headers: { "X-Correlation-ID": "read-correlation-id" },
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("X-Correlation-ID"), "read-correlation-id");
+    const podRequest = environment.pods.requests.filter((request) => request.path === resourceUrl.pathname).at(-1);
+    assert.equal(podRequest?.correlationId, "read-correlation-id");
+  });
+
+  test("returns a generated correlation id in the response and problem", async () => {
+    const response = await browser.fetch(new URL(`/read?resourceUrl=${encodeURIComponent(resourceUrl.href)}`, environment.backendUrl), {
+      headers: { "X-Correlation-ID": "not a valid id" },
+    });
+
+    const correlationId = response.headers.get("X-Correlation-ID");
+    assert.match(correlationId!, /^[0-9a-f-]{36}$/);
+    assert.equal((await response.json()).correlationId, correlationId);
+  });
+
+  test("records the access in the audit trail of the owner", async () => {
+    const auditedUrl = new URL("/owner/audit/record.ttl", environment.pods.url);
+    environment.pods.putResource(auditedUrl, '<#me> <http://xmlns.com/foaf/0.1/name> "Owner".', "text/turtle");
+    const accessRequestId = await requestAccess({ read: true }, auditedUrl);
+    const accessGrant = environment.vc.grantAccessRequest(accessRequestId);
+    await setAccessGrant(accessGrant.id);
+    const read = await browser.fetch(new URL(`/read?resourceUrl=${encodeURIComponent(auditedUrl.href)}`, environment.backendUrl), {
+      headers: { "X-Correlation-ID": "audited-read" },
+    });
+    assert.equal(read.status, 200);
+    const requestorWebId = (await browser.sessionInformation(environment.backendUrl)).webId;
+
+    environment.citizenIssuer.subject = "owner";
+    environment.citizenIssuer.assignWebId("owner", ownerWebId);
+    const owner = environment.browser();
+    await owner.navigate(new URL("/login", environment.backendUrl));
+    const auditUrl = new URL(`/audit?resource=${encodeURIComponent(auditedUrl.href)}`, environment.backendUrl);
+
+    const audit = await (await owner.fetch(auditUrl)).json();
+    assert.deepEqual(audit.items.map(({ action, outcome }: { action: string; outcome: string }) => [action, outcome]),
+      [["read", "success"], ["activate-access-grant", "success"], ["issue-access-request", "success"]]);
+    assert.equal(audit.truncated, false);
+    const [readEntry, activateEntry, issueEntry] = audit.items;
+    assert.equal(readEntry.owner, ownerWebId);
+    assert.equal(readEntry.actor, requestorWebId);
+    assert.equal(readEntry.accessGrantId, accessGrant.id);
+    assert.deepEqual(readEntry.purposes, [PURPOSE]);
+    assert.equal(readEntry.correlationId, "audited-read");
+    assert.match(readEntry.session, /^[\w-]{16}$/);
+    assert.equal(activateEntry.accessGrantId, accessGrant.id);
+    assert.equal(issueEntry.accessRequestId, accessRequestId);
+
+    const exported = await owner.fetch(new URL(`/audit/export?format=csv&resource=${encodeURIComponent(auditedUrl.href)}`, environment.backendUrl));
+    assert.equal(exported.status, 200);
+    assert.match(exported.headers.get("Content-Type")!, /^text\/csv/);
+    assert.match(exported.headers.get("Content-Disposition")!, /^attachment; filename="audit-\d{4}-\d{2}-\d{2}\.csv"$/);
+    const rows = (await exported.text()).trimEnd().split("\r\n");
+    assert.equal(rows.length, 4);
+    assert.match(rows[1], /^[^,]+,issue-access-request,success,201,/);
+
+    const requestorAudit = await (await browser.fetch(auditUrl)).json();
+    assert.deepEqual(requestorAudit.items, []);
+  });
+
+  test("refuses state-changing requests without CSRF token", async () => {
+    browser.csrfToken = undefined;
+
+    const response = await browser.fetch(new URL("/access-grant", environment.backendUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ accessGrantId: "https://vc.example/unknown" }),
+    });
+
+    assert.equal(response.status, 403);
+    assert.equal((await response.json()).type, "urn:weare-demo:problem:csrf-token-invalid");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { ConfigSource } from "../../src/config/config-schema";
+import { startTestEnvironment, TestEnvironment } from "../support/test-environment";
+
+describe("rate limit", () => {
+  async function withEnvironment(configValues: ConfigSource, run: (environment: TestEnvironment) => Promise<void>): Promise<void> {
+    const environment = await startTestEnvironment({}, { RATE_LIMIT_ENABLED: "true", ...configValues });
+    try {
+      await run(environment);
+    } finally {
+      await environment.stop();
+    }
+  }
+
+  test("refuses requests to a route beyond the budget of the IP address", () => withEnvironment({ RATE_LIMIT_ROUTES: "GET /login ip=2" }, async (environment) => {
+    const loginUrl = new URL("/login", environment.backendUrl);
+    for (let request = 0; request < 2; request++)
+      assert.equal((await fetch(loginUrl, { redirect: "manual" })).status, 302);
+
+    const refused = await fetch(loginUrl, { redirect: "manual" });
+
+    assert.equal(refused.status, 429);
+    const retryAfter = Number(refused.headers.get("Retry-After"));
+    assert.ok(retryAfter >= 1 && retryAfter <= 60);
+    const problem = await refused.json();
+    assert.equal(problem.type, "urn:weare-demo:problem:too-many-requests");
+    assert.equal(problem.scope, "ip");
+    assert.equal(problem.retryAfter, retryAfter);
+    assert.equal((await fetch(new URL("/", environment.backendUrl))).status, 200);
+
+    const metrics = await (await fetch(new URL("/metrics", environment.backendUrl))).text();
+    assert.match(metrics, /^weare_rate_limited_requests_total\{rule="GET \/login",scope="ip"\} 1$/m);
+  }));
+
+  test("shares the budget of a WebID between its sessions", () => withEnvironment({ RATE_LIMIT_GLOBAL: "webId=3" }, async (environment) => {
+    environment.citizenIssuer.subject = "busy-citizen";
+    environment.citizenIssuer.assignWebId("busy-citizen", environment.pods.createPod("busy-citizen", environment.citizenIssuer.issuer));
+    const firstBrowser = environment.browser();
+    const secondBrowser = environment.browser();
+    await firstBrowser.navigate(new URL("/login", environment.backendUrl));
+    await secondBrowser.navigate(new URL("/login", environment.backendUrl));
+    const sessionInformationUrl = new URL("/session-information", environment.backendUrl);
+
+    for (let request = 0; request < 3; request++)
+      assert.equal((await firstBrowser.fetch(sessionInformationUrl)).status, 200);
+
+    const refused = await secondBrowser.fetch(sessionInformationUrl);
+    assert.equal(refused.status, 429);
+    assert.equal((await refused.json()).scope, "webId");
+  }));
+
+  test("limits the WebIDs provisioned from an IP address", () => withEnvironment({ RATE_LIMIT_WEBID_PROVISIONING: "ip=1 window=3600" }, async (environment) => {
+    environment.citizenIssuer.subject = "first-new-citizen";
+    const landing = await environment.browser().navigate(new URL("/login", environment.backendUrl));
+    assert.equal(landing.searchParams.get("login"), "success");
+
+    environment.citizenIssuer.subject = "second-new-citizen";
+    await assert.rejects(environment.browser().navigate(new URL("/login", environment.backendUrl)), /status 429/);
+
+    assert.ok(environment.athumi.webIds.has("first-new-citizen"));
+    assert.equal(environment.athumi.webIds.has("second-new-citizen"), false);
+  }));
+});
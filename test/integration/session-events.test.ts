@@ -0,0 +1,56 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { startTestEnvironment, TestEnvironment } from "../support/test-environment";
+import { TestBrowser } from "../support/test-browser";
+import { TestEventStream } from "../support/test-event-stream";
+
+describe("session events", () => {
+  let environment: TestEnvironment;
+
+  before(async () => {
+    // The tokens of the mock issuer expire within the hour, so they are refreshed and warned about right away.
+    environment = await startTestEnvironment({}, { SESSION_EXPIRY_WARNING: "7200", SESSION_EVENTS_INTERVAL: "1" });
+  });
+
+  after(async () => {
+    await environment.stop();
+  });
+
+  async function login(subject: string): Promise<TestBrowser> {
+    environment.citizenIssuer.subject = subject;
+    environment.citizenIssuer.assignWebId(subject, environment.pods.createPod(subject, environment.citizenIssuer.issuer));
+    const browser = environment.browser();
+    await browser.navigate(new URL("/login", environment.backendUrl));
+    await browser.sessionInformation(environment.backendUrl);
+    return browser;
+  }
+
+  test("refreshes the Solid session when the session is kept alive", async () => {
+    const browser = await login("keep-alive-citizen");
+    const tokenRequests = environment.citizenIssuer.tokenGrantTypes.length;
+
+    const response = await browser.fetch(new URL("/session/keep-alive", environment.backendUrl), { method: "POST" });
+
+    assert.equal(response.status, 200);
+    const expiry = await response.json();
+    assert.ok(new Date(expiry.expirationDate).getTime() > Date.now());
+    assert.deepEqual(expiry.accessGrants, []);
+    assert.ok(environment.citizenIssuer.tokenGrantTypes.slice(tokenRequests).includes("refresh_token"));
+  });
+
+  test("warns that the session expires and tells when it expired", async () => {
+    const browser = await login("streaming-citizen");
+    const events = new TestEventStream(await browser.fetch(new URL("/session/events", environment.backendUrl)));
+
+    try {
+      const expiring = await events.next("session-expiring");
+      assert.ok(new Date(expiring.expirationDate).getTime() > Date.now());
+
+      await browser.navigate(new URL("/logout", environment.backendUrl));
+
+      await events.next("session-expired");
+    } finally {
+      await events.close();
+    }
+  });
+});
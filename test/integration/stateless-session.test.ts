@@ -0,0 +1,73 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { startTestEnvironment, TestEnvironment } from "../support/test-environment";
+import { MemoryStorageBackend } from "../../src/storage/memory-storage-backend";
+
+/**
+ * Records the keys written to the storage backend, which must hold no session data in the stateless mode.
+ */
+class RecordingStorageBackend extends MemoryStorageBackend {
+  readonly keys: string[] = [];
+
+  async set(key: string, value: string, ttl?: number): Promise<void> {
+    this.keys.push(key);
+    await super.set(key, value, ttl);
+  }
+}
+
+describe("stateless session", () => {
+  const storageBackend = new RecordingStorageBackend();
+  let environment: TestEnvironment;
+
+  before(async () => {
+    environment = await startTestEnvironment({ storageBackend }, { SESSION_MODE: "stateless" });
+  });
+
+  after(async () => {
+    await environment.stop();
+  });
+
+  test("logs in, reads a pod and logs out with the session in sealed cookies", async () => {
+    environment.citizenIssuer.subject = "stateless-citizen";
+    const webId = environment.pods.createPod("stateless-citizen", environment.citizenIssuer.issuer);
+    environment.citizenIssuer.assignWebId("stateless-citizen", webId);
+    const resourceUrl = new URL("/stateless-citizen/data/profile.ttl", environment.pods.url);
+    environment.pods.putResource(resourceUrl, '<#me> <http://xmlns.com/foaf/0.1/name> "Citizen".', "text/turtle");
+    const browser = environment.browser();
+
+    const landing = await browser.navigate(new URL("/login", environment.backendUrl));
+
+    assert.equal(landing.searchParams.get("login"), "success");
+    const sessionInformation = await browser.sessionInformation(environment.backendUrl);
+    assert.equal(sessionInformation.isLoggedIn, true);
+    assert.equal(sessionInformation.webId, webId);
+
+    const request = await browser.fetch(new URL("/access-request", environment.backendUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        data: resourceUrl.href,
+        webId,
+        purpose: "https://example.org/purpose/demo",
+        expirationDate: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+        access: { read: true },
+      }),
+    });
+    assert.equal(request.status, 201);
+    const accessGrant = environment.vc.grantAccessRequest((await request.json()).id);
+    const activated = await browser.fetch(new URL("/access-grant", environment.backendUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ accessGrantId: accessGrant.id }),
+    });
+    assert.equal(activated.status, 200);
+    const read = await browser.fetch(new URL(`/read?resourceUrl=${encodeURIComponent(resourceUrl.href)}`, environment.backendUrl));
+    assert.equal(read.status, 200);
+    assert.match(await read.text(), /"Citizen"/);
+
+    assert.deepEqual(storageBackend.keys.filter((key) => key.startsWith("session:") || key.startsWith("solid:")), []);
+
+    await browser.navigate(new URL("/logout", environment.backendUrl));
+    assert.equal((await browser.sessionInformation(environment.backendUrl)).isLoggedIn, false);
+  });
+});
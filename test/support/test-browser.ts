@@ -0,0 +1,77 @@
+/**
+ * A minimal browser for driving the back end in tests: it keeps the cookies per origin and follows redirects across
+ * the back end and the fake services until a redirect leaves them, e.g. to the frontend.
+ *
+ * Example usage:
+ * ```
+ * const browser = new TestBrowser([backend.url, issuer.url]);
+ * const landing = await browser.navigate(new URL("/login", backend.url));
+ * landing.searchParams.get("login"); // "success"
+ * ```
+ */
+export class TestBrowser {
+  private readonly cookies = new Map<string, Map<string, string>>();
+  /**
+   * The CSRF token sent in the `X-CSRF-Token` header of state-changing requests, see `refreshCsrfToken`.
+   */
+  csrfToken?: string;
+
+  constructor(private readonly origins: URL[]) {
+  }
+
+  /**
+   * Requests the URL and follows redirects between the known origins. Returns the first URL outside of them.
+   */
+  async navigate(url: URL, maxRedirects: number = 10): Promise<URL> {
+    let current = url;
+    for (let redirect = 0; redirect <= maxRedirects; redirect++) {
+      if (!this.origins.some((origin) => origin.origin === current.origin))
+        return current;
+
+      const response = await this.fetch(current);
+      const location = response.headers.get("Location");
+      if (response.status < 300 || response.status >= 400 || !location)
+        throw new Error(`Navigation to [${current.href}] ended with status ${response.status}: ${await response.text()}`);
+      current = new URL(location, current);
+    }
+    throw new Error(`Too many redirects navigating to [${url.href}]`);
+  }
+
+  async fetch(url: URL, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    const cookie = [...(this.cookies.get(url.origin) ?? new Map()).entries()].map(([name, value]) => `${name}=${value}`).join("; ");
+    if (cookie)
+      headers.set("Cookie", cookie);
+    if (this.csrfToken && init.method && !["GET", "HEAD"].includes(init.method))
+      headers.set("X-CSRF-Token", this.csrfToken);
+
+    const response = await fetch(url, { ...init, headers, redirect: "manual" });
+    this.storeCookies(url, response);
+    return response;
+  }
+
+  /**
+   * Reads the session information, remembering its CSRF token.
+   */
+  async sessionInformation(backendUrl: URL): Promise<any> {
+    const response = await this.fetch(new URL("/session-information", backendUrl));
+    const sessionInformation = await response.json();
+    this.csrfToken = sessionInformation.csrfToken;
+    return sessionInformation;
+  }
+
+  private storeCookies(url: URL, response: Response): void {
+    const jar = this.cookies.get(url.origin) ?? new Map<string, string>();
+    response.headers.getSetCookie().forEach((setCookie) => {
+      const [pair, ...attributes] = setCookie.split(";");
+      const separator = pair.indexOf("=");
+      const name = pair.slice(0, separator).trim();
+      const expired = attributes.some((attribute) => /^\s*expires=Thu, 01 Jan 1970/i.test(attribute));
+      if (expired)
+        jar.delete(name);
+      else
+        jar.set(name, pair.slice(separator + 1).trim());
+    });
+    this.cookies.set(url.origin, jar);
+  }
+}
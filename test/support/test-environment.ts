@@ -0,0 +1,114 @@
+/**
+ * Starts the back end in-process against local stand-ins for all remote services: a mock OIDC issuer for the citizen
+ * (ACM) and the We Are OIDC provider, a fake ESS VC service, a fake pod server with a fake notification server and a
+ * fake Athumi WebID API.
+ *
+ * The configuration is pointed to the fakes, so the real service implementations of the service container talk to
+ * the fakes over HTTP. Services passed as argument replace them, and configuration keys passed as argument are added to
+ * the configuration. Rate limits are disabled unless enabled with `RATE_LIMIT_ENABLED`, as the tests make many requests
+ * from the same address and session.
+ *
+ * Example usage:
+ * ```
+ * const environment = await startTestEnvironment();
+ * const environmentWithFileStorage = await startTestEnvironment({ storageBackend: new FileStorageBackend(directory) });
+ * const environmentWithSmallUploads = await startTestEnvironment({}, { UPLOAD_MAX_FILE_SIZE: "1kb" });
+ * const browser = environment.browser();
+ * await environment.stop();
+ * ```
+ */
+import http from "http";
+import { AddressInfo } from "net";
+import log from "loglevel";
+import { MockOidcIssuer } from "../fake/mock-oidc-issuer";
+import { FakeVcService } from "../fake/fake-vc-service";
+import { FakePodServer } from "../fake/fake-pod-server";
+import { FakeAthumi } from "../fake/fake-athumi";
+import { FakeNotificationServer } from "../fake/fake-notification-server";
+import { TestBrowser } from "./test-browser";
+import { AppConfig, loadConfig } from "../../src/config/app-config";
+import { ConfigSource } from "../../src/config/config-schema";
+import { createServiceContainer, ServiceContainer } from "../../src/container/service-container";
+import { createApp } from "../../src/app";
+
+export const FRONTEND_URL = "http://frontend.test";
+
+export interface TestEnvironment {
+  backendUrl: URL;
+  config: AppConfig;
+  services: ServiceContainer;
+  citizenIssuer: MockOidcIssuer;
+  weAreIssuer: MockOidcIssuer;
+  vc: FakeVcService;
+  pods: FakePodServer;
+  notifications: FakeNotificationServer;
+  athumi: FakeAthumi;
+  browser(): TestBrowser;
+  stop(): Promise<void>;
+}
+
+export async function startTestEnvironment(services: Partial<ServiceContainer> = {}, configValues: ConfigSource = {}): Promise<TestEnvironment> {
+  log.setLevel("silent");
+
+  const citizenIssuer = await new MockOidcIssuer({ clientId: "citizen-client", clientSecret: "citizen-secret" }, "/op").start();
+  const weAreIssuer = await new MockOidcIssuer({ clientId: "weare-client", clientSecret: "weare-secret" }).start();
+  const vc = await new FakeVcService().start();
+  const pods = await new FakePodServer().start();
+  const notifications = await new FakeNotificationServer().start();
+  pods.storageDescription = notifications.descriptionUrl;
+  const athumi = await new FakeAthumi(citizenIssuer, pods).start();
+
+  const server = http.createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const config = loadConfig({
+    HOST: "127.0.0.1",
+    PORT: String(port),
+    PROTOCOL: "http",
+    FRONTEND_URL,
+    FRONTEND_LOGIN_PATH: "/login",
+    WEARE_OIDC_URL: weAreIssuer.url.href,
+    WEARE_OIDC_TOKEN_PATH: "/token",
+    WEARE_OIDC_CLIENT_ID: "weare-client",
+    WEARE_OIDC_CLIENT_SECRET: "weare-secret",
+    CITIZEN_OIDC_URL: citizenIssuer.url.href,
+    CITIZEN_OIDC_CLIENT_ID: "citizen-client",
+    CITIZEN_OIDC_CLIENT_SECRET: "citizen-secret",
+    CITIZEN_OIDC_CLIENT_NAME: "We Are Demo Back-End",
+    CITIZEN_OIDC_LOGIN_PATH: "/op",
+    CITIZEN_OIDC_TOKEN_PATH: "/op/v1/token",
+    ESS_URL: vc.url.href,
+    VC_ISSUE_PATH: "/issue",
+    VC_DERIVE_PATH: "/derive",
+    VC_QUERY_PATH: "/query",
+    ATHUMI_POD_PLATFORM_URL: athumi.url.href,
+    ATHUMI_POD_PLATFORM_WEB_ID_PATH: athumi.webIdPath,
+    STORAGE_TYPE: "memory",
+    SESSION_MAX_AGE: "3600",
+    SESSION_SECRETS: "test-session-secret-of-32-characters",
+    RATE_LIMIT_ENABLED: "false",
+    ...configValues,
+  });
+  const container = createServiceContainer(config, services);
+  server.on("request", createApp(config, container));
+
+  const backendUrl = new URL(`http://127.0.0.1:${port}`);
+  return {
+    backendUrl,
+    config,
+    services: container,
+    citizenIssuer,
+    weAreIssuer,
+    vc,
+    pods,
+    notifications,
+    athumi,
+    browser: () => new TestBrowser([backendUrl, citizenIssuer.url]),
+    stop: async () => {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await Promise.all([citizenIssuer, weAreIssuer, vc, pods, notifications, athumi].map((fake) => fake.stop()));
+    },
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Reads the Server-Sent Events of a response in tests, like an `EventSource` would.
+ *
+ * Example usage:
+ * ```
+ * const events = new TestEventStream(await browser.fetch(new URL("/session/events", backendUrl)));
+ * const data = await events.next("session-expiring");
+ * await events.close();
+ * ```
+ */
+export class TestEventStream {
+  private readonly reader: ReadableStreamDefaultReader<string>;
+  private buffer = "";
+
+  constructor(response: Response) {
+    if (!response.body)
+      throw new Error(`The event stream response with status ${response.status} has no body`);
+    this.reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  }
+
+  /**
+   * Returns the data of the next event of the type, skipping events of other types. Fails when the stream ends or no
+   * such event arrives within the timeout.
+   */
+  async next(type: string, timeout: number = 5000): Promise<any> {
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const end = this.buffer.indexOf("\n\n");
+      if (end >= 0) {
+        const event = this.parse(this.buffer.slice(0, end));
+        this.buffer = this.buffer.slice(end + 2);
+        if (event?.type === type)
+          return event.data;
+        continue;
+      }
+
+      let timer: NodeJS.Timeout | undefined;
+      const expired = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`No [${type}] event within ${timeout} ms`)), Math.max(deadline - Date.now(), 0));
+      });
+      try {
+        const { done, value } = await Promise.race([this.reader.read(), expired]);
+        if (done)
+          throw new Error(`The event stream ended before a [${type}] event`);
+        this.buffer += value;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.reader.cancel();
+  }
+
+  private parse(block: string): { type: string; data: any } | undefined {
+    let type = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:"))
+        type = line.slice(6).trim();
+      else if (line.startsWith("data:"))
+        data.push(line.slice(5).trim());
+    }
+    return data.length > 0 ? { type, data: JSON.parse(data.join("\n")) } : undefined;
+  }
+}
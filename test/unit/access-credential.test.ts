@@ -0,0 +1,90 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { queryAccessCredentials, queryActiveAccessGrants } from "../../src/vc/access-credential";
+
+const QUERY_ENDPOINT = new URL("https://vc.test/query");
+
+function accessGrant(id: number, expirationDate: string, owner = "https://owner.test/profile#me") {
+  return {
+    "@context": ["https://www.w3.org/2018/credentials/v1", "https://schema.inrupt.com/credentials/v1.jsonld"],
+    id: `https://vc.test/vc/${id}`,
+    type: ["VerifiableCredential", "SolidAccessGrant"],
+    issuer: "https://vc.test",
+    issuanceDate: "2025-01-01T00:00:00.000Z",
+    expirationDate,
+    credentialSubject: {
+      id: owner,
+      providedConsent: {
+        mode: ["Read"],
+        hasStatus: "ConsentStatusExplicitlyGiven",
+        isProvidedTo: "https://requestor.test/profile#me",
+        forPurpose: ["https://purpose.test"],
+        forPersonalData: ["https://pod.test/data"],
+      },
+    },
+    credentialStatus: { id: "https://vc.test/status#1", type: "RevocationList2020Status", revocationListCredential: "https://vc.test/status", revocationListIndex: "1" },
+    proof: { type: "Ed25519Signature2020", created: "2025-01-01T00:00:00.000Z", proofPurpose: "assertionMethod", proofValue: "z", verificationMethod: "https://vc.test/key" },
+  };
+}
+
+/**
+ * Serves result pages of a single grant each, of which only the listed pages hold a grant that is not expired. The grants
+ * of the `otherOwner` pages belong to another owner.
+ */
+function queryFetch(pages: number, unexpired: number[], requested: number[], otherOwner: number[] = []): typeof fetch {
+  return (async (url: URL) => {
+    const page = Number(url.searchParams.get("page") ?? 1);
+    requested.push(page);
+    const expirationDate = unexpired.includes(page) ? "2030-01-01T00:00:00.000Z" : "2020-01-01T00:00:00.000Z";
+    const owner = otherOwner.includes(page) ? "https://other-owner.test/profile#me" : undefined;
+    const headers: Record<string, string> = page < pages ? { Link: `<${QUERY_ENDPOINT.href}?type=SolidAccessGrant&page=${page + 1}>; rel="next"` } : {};
+    return new Response(JSON.stringify({ items: [accessGrant(page, expirationDate, owner)] }), { headers });
+  }) as typeof fetch;
+}
+
+describe("access credential queries", () => {
+  test("reads result pages until the page is filled with matches", async () => {
+    const requested: number[] = [];
+    const page = await queryAccessCredentials(
+      { filter: { type: "SolidAccessGrant", pageSize: 2 }, expiresAfter: new Date("2026-01-01") },
+      { fetch: queryFetch(6, [2, 4, 5], requested), queryEndpoint: QUERY_ENDPOINT }
+    );
+
+    assert.deepEqual(page.items.map((item) => item.id), ["https://vc.test/vc/2", "https://vc.test/vc/4"]);
+    assert.equal(page.pagination.next, "5");
+    assert.deepEqual(requested, [1, 2, 3, 4]);
+  });
+
+  test("stops at the last result page", async () => {
+    const requested: number[] = [];
+    const page = await queryAccessCredentials(
+      { filter: { type: "SolidAccessGrant", pageSize: 5 }, expiresBefore: new Date("2026-01-01") },
+      { fetch: queryFetch(3, [2], requested), queryEndpoint: QUERY_ENDPOINT }
+    );
+
+    assert.deepEqual(page.items.map((item) => item.id), ["https://vc.test/vc/1", "https://vc.test/vc/3"]);
+    assert.equal(page.pagination.next, undefined);
+    assert.deepEqual(requested, [1, 2, 3]);
+  });
+
+  test("reads a single result page without expiry filters", async () => {
+    const requested: number[] = [];
+    const page = await queryAccessCredentials(
+      { filter: { type: "SolidAccessGrant", pageSize: 5 } },
+      { fetch: queryFetch(3, [], requested), queryEndpoint: QUERY_ENDPOINT }
+    );
+
+    assert.equal(page.items.length, 1);
+    assert.equal(page.pagination.next, "2");
+    assert.deepEqual(requested, [1]);
+  });
+
+  test("reads the active grants of the owner from every result page", async () => {
+    const requested: number[] = [];
+    const accessGrants = await queryActiveAccessGrants("https://owner.test/profile#me",
+      { fetch: queryFetch(5, [1, 3, 4, 5], requested, [4]), queryEndpoint: QUERY_ENDPOINT });
+
+    assert.deepEqual(accessGrants.map((accessGrant) => accessGrant.id), ["https://vc.test/vc/1", "https://vc.test/vc/3", "https://vc.test/vc/5"]);
+    assert.deepEqual(requested, [1, 2, 3, 4, 5]);
+  });
+});
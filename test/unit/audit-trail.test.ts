@@ -0,0 +1,71 @@
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AuditEntry } from "../../src/audit/audit-trail";
+import { FileAuditStore } from "../../src/audit/file-audit-store";
+import { exportAuditEntries } from "../../src/audit/audit-export";
+
+const OWNER = "https://pods.example/owner/profile/card#me";
+
+function entry(values: Partial<AuditEntry>): AuditEntry {
+  return {
+    id: "entry",
+    timestamp: "2026-03-01T10:00:00.000Z",
+    action: "read",
+    outcome: "success",
+    status: 200,
+    owner: OWNER,
+    session: "c2Vzc2lvbg",
+    resources: ["https://pods.example/owner/data/profile.ttl"],
+    purposes: ["https://example.org/purpose/demo"],
+    ...values,
+  };
+}
+
+describe("audit trail", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "audit-trail-"));
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("appends entries to a file and queries them by owner, date, resource and grant", async () => {
+    const file = path.join(directory, "nested", "audit.jsonl");
+    const store = new FileAuditStore(file);
+    await store.append(entry({ id: "1", accessGrantId: "https://vc.example/vc/1" }));
+    await store.append(entry({ id: "2", timestamp: "2026-03-02T10:00:00.000Z", resources: ["https://pods.example/owner/other/file.pdf"] }));
+    await store.append(entry({ id: "3", owner: "https://pods.example/someone-else/profile/card#me" }));
+    fs.appendFileSync(file, "{\"id\": \"truncated\n");
+    await store.append(entry({ id: "4", timestamp: "2026-03-03T10:00:00.000Z", action: "write" }));
+
+    const ids = async (query: object) => (await store.query({ owner: OWNER, ...query })).map(({ id }) => id);
+    assert.deepEqual(await ids({}), ["1", "2", "4"]);
+    assert.deepEqual(await ids({ from: new Date("2026-03-02T10:00:00.000Z"), to: new Date("2026-03-03T10:00:00.000Z") }), ["2"]);
+    assert.deepEqual(await ids({ resource: "https://pods.example/owner/data/profile.ttl" }), ["1", "4"]);
+    assert.deepEqual(await ids({ resource: "https://pods.example/owner/other/" }), ["2"]);
+    assert.deepEqual(await ids({ accessGrantId: "https://vc.example/vc/1" }), ["1"]);
+    assert.deepEqual(await ids({ action: "write" }), ["4"]);
+  });
+
+  test("returns no entries before the first append", async () => {
+    assert.deepEqual(await new FileAuditStore(path.join(directory, "empty.jsonl")).query({ owner: OWNER }), []);
+  });
+
+  test("exports entries as CSV and JSON Lines", () => {
+    const entries = [
+      entry({ id: "1", correlationId: "a,b", purposes: ["https://example.org/purpose/a", "https://example.org/purpose/b"] }),
+      entry({ id: "2", outcome: "failure", status: 403, actor: "=HYPERLINK(\"https://evil.example\")" }),
+    ];
+
+    const csv = exportAuditEntries(entries, "csv").split("\r\n");
+    assert.equal(csv[0], "timestamp,action,outcome,status,owner,actor,session,resources,accessGrantId,accessRequestId,purposes,correlationId,id");
+    assert.equal(csv[1], `2026-03-01T10:00:00.000Z,read,success,200,${OWNER},,c2Vzc2lvbg,https://pods.example/owner/data/profile.ttl,,,https://example.org/purpose/a https://example.org/purpose/b,"a,b",1`);
+    assert.match(csv[2], /,"'=HYPERLINK\(""https:\/\/evil\.example""\)",/);
+    assert.equal(csv[3], "");
+
+    const lines = exportAuditEntries(entries, "jsonl").trimEnd().split("\n");
+    assert.deepEqual(lines.map((line) => JSON.parse(line)), entries);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, test, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ConfigError, configKey, optional, parseConfig, readConfigFile, REDACTED, redactConfig } from "../../src/config/config-schema";
+
+describe("config schema", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "weare-config-"));
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  const schema = {
+    PORT: configKey.port({ default: "3001" }),
+    FRONTEND_URL: configKey.url(),
+    LOGIN_PATH: configKey.path({ default: "/login" }),
+    CLIENT_SECRET: configKey.secret(),
+    STORAGE_TYPE: configKey.enum(["memory", "file"], { default: "memory" }),
+    COOKIE_SECURE: optional(configKey.boolean()),
+    MAX_AGE: configKey.seconds({ default: "60" }),
+    ALLOWLIST: optional(configKey.list()),
+  };
+
+  test("parses typed values and applies defaults", () => {
+    const values = parseConfig(schema, {
+      FRONTEND_URL: "http://frontend.test",
+      CLIENT_SECRET: "secret",
+      COOKIE_SECURE: "",
+      ALLOWLIST: "http://a.test, http://b.test",
+    });
+
+    assert.equal(values.PORT, 3001);
+    assert.equal(values.FRONTEND_URL.href, "http://frontend.test/");
+    assert.equal(values.LOGIN_PATH, "/login");
+    assert.equal(values.STORAGE_TYPE, "memory");
+    assert.equal(values.COOKIE_SECURE, undefined);
+    assert.equal(values.MAX_AGE, 60000);
+    assert.deepEqual(values.ALLOWLIST, ["http://a.test", "http://b.test"]);
+  });
+
+  test("reports all missing and invalid keys at once", () => {
+    assert.throws(() => parseConfig(schema, { PORT: "70000", LOGIN_PATH: "login", STORAGE_TYPE: "disk", COOKIE_SECURE: "yes" }), (error) => {
+      assert.ok(error instanceof ConfigError);
+      assert.deepEqual(error.issues.map((issue) => issue.key),
+        ["PORT", "FRONTEND_URL", "LOGIN_PATH", "CLIENT_SECRET", "STORAGE_TYPE", "COOKIE_SECURE"]);
+      assert.match(error.message, /LOGIN_PATH: Expected a path starting with '\/' \[login\]/);
+      return true;
+    });
+  });
+
+  test("parses sizes in bytes and integers", () => {
+    const sizes = { MAX_SIZE: configKey.bytes(), MAX_FILES: configKey.integer({ default: "10" }) };
+
+    assert.equal(parseConfig(sizes, { MAX_SIZE: "1048576" }).MAX_SIZE, 1048576);
+    assert.equal(parseConfig(sizes, { MAX_SIZE: "512kb" }).MAX_SIZE, 512 * 1024);
+    assert.equal(parseConfig(sizes, { MAX_SIZE: "10MB" }).MAX_SIZE, 10 * 1024 * 1024);
+    assert.equal(parseConfig(sizes, { MAX_SIZE: "1gb" }).MAX_FILES, 10);
+    assert.throws(() => parseConfig(sizes, { MAX_SIZE: "10 megabytes", MAX_FILES: "0" }), (error) => {
+      assert.ok(error instanceof ConfigError);
+      assert.deepEqual(error.issues.map((issue) => issue.key), ["MAX_SIZE", "MAX_FILES"]);
+      return true;
+    });
+  });
+
+  test("reads secrets from the file of the _FILE key", () => {
+    const secretFile = path.join(directory, "client-secret");
+    fs.writeFileSync(secretFile, "secret-from-file\n");
+
+    const values = parseConfig(schema, { FRONTEND_URL: "http://frontend.test", CLIENT_SECRET_FILE: secretFile });
+    assert.equal(values.CLIENT_SECRET, "secret-from-file");
+
+    assert.throws(() => parseConfig(schema, { FRONTEND_URL: "http://frontend.test", CLIENT_SECRET_FILE: path.join(directory, "missing") }),
+      /CLIENT_SECRET: Cannot read the secret from CLIENT_SECRET_FILE/);
+  });
+
+  test("redacts secrets", () => {
+    const values = parseConfig(schema, { FRONTEND_URL: "http://frontend.test", CLIENT_SECRET: "secret" });
+    const redacted = redactConfig(schema, values);
+
+    assert.equal(redacted.CLIENT_SECRET, REDACTED);
+    assert.equal(redacted.FRONTEND_URL, "http://frontend.test/");
+    assert.equal(redacted.PORT, "3001");
+    assert.ok(!JSON.stringify(redacted).includes("secret\""));
+  });
+
+  test("reads keys from a JSON config file", () => {
+    const configFile = path.join(directory, "config.json");
+    fs.writeFileSync(configFile, JSON.stringify({ PORT: 8080, FRONTEND_URL: "http://frontend.test", COOKIE_SECURE: true }));
+    assert.deepEqual(readConfigFile(configFile), { PORT: "8080", FRONTEND_URL: "http://frontend.test", COOKIE_SECURE: "true" });
+
+    fs.writeFileSync(configFile, JSON.stringify({ PORT: { value: 8080 } }));
+    assert.throws(() => readConfigFile(configFile), /PORT: Expected a string, number or boolean/);
+    assert.throws(() => readConfigFile(path.join(directory, "missing.json")), /CONFIG_FILE: Cannot read the config file/);
+  });
+});
@@ -0,0 +1,150 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import express from "express";
+import { CookieSealer } from "../../src/storage/cookie-sealer";
+import { CookieSessionStore, CookieSolidStorage } from "../../src/storage/cookie-session-store";
+import { cookieSession } from "../../src/middleware/cookie-session";
+import { assignCorrelationId } from "../../src/middleware/correlation-id";
+import { SessionConfig } from "../../src/config/app-config";
+
+describe("cookie session", () => {
+  const config: SessionConfig = {
+    mode: "stateless",
+    maxAge: 3600000,
+    idleTimeout: 600000,
+    secrets: ["current-secret"],
+    cookieSecure: false,
+    cookieSameSite: "lax",
+    cookieMaxSize: 12 * 1024,
+    exposeTokens: true,
+    keepAlive: true,
+    expiryWarning: 300000,
+    eventsInterval: 15000,
+  };
+  let server: http.Server;
+  let url: URL;
+
+  before(async () => {
+    const solidStorage = new CookieSolidStorage();
+    const app = express();
+    app.use(assignCorrelationId);
+    app.use(cookieSession(config, new CookieSessionStore()));
+    app.get("/set", async (req, res) => {
+      req.session.webId = String(req.query.webId);
+      if (req.query.solid)
+        await solidStorage.set("solidClientAuthenticationUser:test", String(req.query.solid));
+      res.send("set");
+    });
+    app.get("/get", async (req, res) => {
+      res.json({ id: req.sessionID, webId: req.session.webId, solid: await solidStorage.get("solidClientAuthenticationUser:test") });
+    });
+    app.get("/regenerate", (req, res, next) => req.session.regenerate((error) => error ? next(error) : res.send("regenerated")));
+    app.get("/destroy", (req, res, next) => req.session.destroy((error) => error ? next(error) : res.send("destroyed")));
+
+    server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = new URL(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  async function get(path: string, cookies: Map<string, string> = new Map()): Promise<Response> {
+    const response = await fetch(new URL(path, url), {
+      headers: { Cookie: [...cookies.entries()].map(([name, value]) => `${name}=${value}`).join("; ") },
+    });
+    response.headers.getSetCookie().forEach((setCookie) => {
+      const [pair, ...attributes] = setCookie.split(";");
+      const [name, value] = pair.split("=");
+      if (attributes.some((attribute) => /^\s*expires=Thu, 01 Jan 1970/i.test(attribute)))
+        cookies.delete(name);
+      else
+        cookies.set(name, value);
+    });
+    return response;
+  }
+
+  test("seals values that can only be opened with one of the secrets", () => {
+    const sealer = new CookieSealer(["current-secret"]);
+    const sealed = sealer.seal('{"redirectUrl":"http://frontend.test"}');
+
+    assert.doesNotMatch(Buffer.from(sealed, "base64url").toString("latin1"), /frontend/);
+    assert.equal(sealer.open(sealed), '{"redirectUrl":"http://frontend.test"}');
+    assert.equal(new CookieSealer(["other-secret"]).open(sealed), undefined);
+    const tampered = Buffer.from(sealed, "base64url");
+    tampered[tampered.length - 1] ^= 1;
+    assert.equal(sealer.open(tampered.toString("base64url")), undefined);
+    assert.equal(sealer.open("too-short"), undefined);
+  });
+
+  test("opens values sealed with a previous secret after rotation", () => {
+    const sealed = new CookieSealer(["previous-secret"]).seal("value");
+    const rotated = new CookieSealer(["current-secret", "previous-secret"]);
+
+    assert.equal(rotated.open(sealed), "value");
+    assert.equal(new CookieSealer(["current-secret"]).open(rotated.seal("value")), "value");
+  });
+
+  test("sets no cookie for a session without data", async () => {
+    const response = await get("/get");
+
+    assert.deepEqual(response.headers.getSetCookie(), []);
+  });
+
+  test("keeps the session and Solid client data in the cookies", async () => {
+    const cookies = new Map<string, string>();
+    const solid = crypto.randomBytes(6000).toString("base64");
+    await get(`/set?webId=https://pods.test/citizen&solid=${encodeURIComponent(solid)}`, cookies);
+
+    assert.deepEqual([...cookies.keys()].sort(), ["weare-demo-session.0", "weare-demo-session.1", "weare-demo-session.2"]);
+    const first = await (await get("/get", cookies)).json();
+    assert.equal(first.webId, "https://pods.test/citizen");
+    assert.equal(first.solid, solid);
+    assert.equal((await (await get("/get", cookies)).json()).id, first.id);
+
+    await get("/set?webId=https://pods.test/other&solid=small", cookies);
+    assert.deepEqual([...cookies.keys()], ["weare-demo-session.0"]);
+    assert.equal((await (await get("/get", cookies)).json()).webId, "https://pods.test/other");
+  });
+
+  test("ignores cookies that were changed or are incomplete", async () => {
+    const cookies = new Map<string, string>();
+    await get(`/set?webId=https://pods.test/citizen&solid=${crypto.randomBytes(6000).toString("base64")}`, cookies);
+
+    const incomplete = new Map(cookies);
+    incomplete.delete("weare-demo-session.1");
+    assert.equal((await (await get("/get", incomplete)).json()).webId, undefined);
+    const changed = new Map(cookies);
+    const sealed = cookies.get("weare-demo-session.0")!;
+    changed.set("weare-demo-session.0", `${sealed.startsWith("A") ? "B" : "A"}${sealed.slice(1)}`);
+    assert.equal((await (await get("/get", changed)).json()).webId, undefined);
+  });
+
+  test("regenerates and destroys the session", async () => {
+    const cookies = new Map<string, string>();
+    await get("/set?webId=https://pods.test/citizen&solid=data", cookies);
+    const { id } = await (await get("/get", cookies)).json();
+
+    await get("/regenerate", cookies);
+    assert.equal(cookies.size, 0);
+
+    await get("/set?webId=https://pods.test/citizen", cookies);
+    const regenerated = await (await get("/get", cookies)).json();
+    assert.notEqual(regenerated.id, id);
+    assert.equal(regenerated.solid, undefined);
+
+    await get("/destroy", cookies);
+    assert.equal(cookies.size, 0);
+  });
+
+  test("drops a session larger than the maximum size", async () => {
+    const cookies = new Map<string, string>();
+    await get(`/set?webId=https://pods.test/citizen&solid=${crypto.randomBytes(12 * 1024).toString("base64")}`, cookies);
+
+    assert.equal(cookies.size, 0);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { Readable } from "stream";
+import { buffer } from "stream/consumers";
+import { detectContentType, withContentType } from "../../src/file/detect-content-type";
+
+describe("detect content type", () => {
+  test("detects the content type from the signature, then the file name", () => {
+    assert.equal(detectContentType(Buffer.from("%PDF-1.7\n"), "scan.bin"), "application/pdf");
+    assert.equal(detectContentType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00])), "image/png");
+    assert.equal(detectContentType(Buffer.from("RIFF\x00\x00\x00\x00WEBPVP8 ", "latin1")), "image/webp");
+    assert.equal(detectContentType(Buffer.from("name,age"), "people.CSV"), "text/csv");
+    assert.equal(detectContentType(Buffer.from("unknown")), "application/octet-stream");
+  });
+
+  test("keeps a declared content type and the complete content", async () => {
+    const declared = await withContentType(Readable.from([Buffer.from("%PDF")]), "text/plain; charset=utf-8");
+    assert.equal(declared.contentType, "text/plain; charset=utf-8");
+
+    const detected = await withContentType(Readable.from([Buffer.from("%PDF-"), Buffer.from("1.7")]), "application/octet-stream");
+    assert.equal(detected.contentType, "application/pdf");
+    assert.equal((await buffer(detected.stream)).toString(), "%PDF-1.7");
+  });
+});
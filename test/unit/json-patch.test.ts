@@ -0,0 +1,57 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { jsonPatchToSparqlUpdate } from "../../src/rdf/json-patch";
+import { jsonPatchSchema } from "../../src/schema/pod-schema";
+
+describe("json patch", () => {
+  const FOAF = "http://xmlns.com/foaf/0.1/";
+  const ME = "https://pod.example/owner/profile#me";
+
+  test("converts removals and additions into a SPARQL Update", () => {
+    const sparqlUpdate = jsonPatchToSparqlUpdate({
+      things: [{
+        url: ME,
+        remove: { [`${FOAF}name`]: ['The "Owner"'] },
+        add: {
+          [`${FOAF}name`]: ["Owner"],
+          [`${FOAF}age`]: [42, 4.2, 1e21],
+          [`${FOAF}knows`]: [{ "@id": "https://pod.example/friend#me" }],
+          [`${FOAF}nick`]: [{ "@value": "Eigenaar", "@language": "nl" }, true],
+        },
+      }],
+    });
+
+    assert.equal(sparqlUpdate, [
+      "DELETE DATA {",
+      `  <${ME}> <${FOAF}name> "The \\"Owner\\"" .`,
+      "};",
+      "INSERT DATA {",
+      `  <${ME}> <${FOAF}name> "Owner" .`,
+      `  <${ME}> <${FOAF}age> "42"^^<http://www.w3.org/2001/XMLSchema#integer> .`,
+      `  <${ME}> <${FOAF}age> "4.2"^^<http://www.w3.org/2001/XMLSchema#double> .`,
+      `  <${ME}> <${FOAF}age> "1e+21"^^<http://www.w3.org/2001/XMLSchema#double> .`,
+      `  <${ME}> <${FOAF}knows> <https://pod.example/friend#me> .`,
+      `  <${ME}> <${FOAF}nick> "Eigenaar"@nl .`,
+      `  <${ME}> <${FOAF}nick> "true"^^<http://www.w3.org/2001/XMLSchema#boolean> .`,
+      "}",
+    ].join("\n"));
+  });
+
+  test("leaves out an empty block", () => {
+    assert.equal(jsonPatchToSparqlUpdate({ things: [{ url: ME, add: { [`${FOAF}name`]: ["Owner"] } }] }),
+      `INSERT DATA {\n  <${ME}> <${FOAF}name> "Owner" .\n}`);
+  });
+
+  test("rejects patches without values", () => {
+    assert.equal(jsonPatchSchema.safeParse({ things: [{ url: ME, add: { [`${FOAF}name`]: [] } }] }).success, false);
+    assert.equal(jsonPatchSchema.safeParse({ things: [{ url: ME, add: { "not a url": ["Owner"] } }] }).success, false);
+  });
+
+  test("rejects language tags that are not BCP47", () => {
+    const language = "nl . } ; DROP ALL ; INSERT DATA { <a> <b> <c>";
+    const patch = { things: [{ url: ME, add: { [`${FOAF}nick`]: [{ "@value": "Eigenaar", "@language": language }] } }] };
+
+    assert.equal(jsonPatchSchema.safeParse(patch).success, false);
+    assert.throws(() => jsonPatchToSparqlUpdate(patch));
+  });
+});
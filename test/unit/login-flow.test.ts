@@ -0,0 +1,77 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { Session, SessionData } from "express-session";
+import {
+  buildLoginUrl,
+  getLoginFlow,
+  LoginFlowError,
+  startLoginFlow,
+  transitionLoginFlow
+} from "../../src/flow/login-flow";
+
+function createSession(): Session & Partial<SessionData> {
+  return {} as Session & Partial<SessionData>;
+}
+
+describe("login flow", () => {
+  test("keeps the WebID and redirect URL across transitions", () => {
+    const session = createSession();
+    startLoginFlow(session, "login", { redirectUrl: "http://frontend.test/profile" });
+
+    transitionLoginFlow(session, "create_web_id");
+    transitionLoginFlow(session, "switch_identity");
+
+    const flow = getLoginFlow(session);
+    assert.equal(flow.state, "switch_identity");
+    assert.equal(flow.redirectUrl, "http://frontend.test/profile");
+  });
+
+  test("rejects a transition that is not allowed", () => {
+    const session = createSession();
+    startLoginFlow(session, "save_tokens");
+
+    assert.throws(() => transitionLoginFlow(session, "create_web_id"),
+      (error: unknown) => error instanceof LoginFlowError && error.reason === "invalid_transition");
+  });
+
+  test("provisions at most one WebID per flow", () => {
+    const session = createSession();
+    startLoginFlow(session, "login");
+
+    transitionLoginFlow(session, "create_web_id");
+    transitionLoginFlow(session, "switch_identity");
+
+    assert.throws(() => transitionLoginFlow(session, "create_web_id"),
+      (error: unknown) => error instanceof LoginFlowError && error.reason === "web_id_missing");
+  });
+
+  test("rejects an unknown or expired flow", () => {
+    const session = createSession();
+    assert.throws(() => getLoginFlow(session), (error: unknown) => error instanceof LoginFlowError && error.reason === "unknown");
+
+    startLoginFlow(session, "login");
+    session.loginFlow!.startedAt -= 1000 * 60 * 60;
+    assert.throws(() => getLoginFlow(session), (error: unknown) => error instanceof LoginFlowError && error.reason === "expired");
+  });
+
+  test("adds the rrn scope and switch identity hint to the login URL", () => {
+    const provider = { scopes: ["rrn"], switchIdentityLoginHint: "eyJzd2l0Y2hfaWQiOiB0cnVlfQ==" };
+    const url = buildLoginUrl("https://idp.test/auth?scope=openid%20webid", provider, { switchIdentity: true, forceAuthentication: true });
+
+    assert.equal(url.searchParams.get("scope"), "openid webid rrn");
+    assert.equal(url.searchParams.get("login_hint"), "eyJzd2l0Y2hfaWQiOiB0cnVlfQ==");
+    assert.equal(url.searchParams.get("prompt"), "login");
+  });
+
+  test("adds the scopes and login hint of the identity provider to the login URL", () => {
+    const provider = { scopes: ["webid", "email"], loginHint: "citizen@example.org" };
+
+    const url = buildLoginUrl("https://idp.test/auth?scope=openid%20webid", provider);
+    assert.equal(url.searchParams.get("scope"), "openid webid email");
+    assert.equal(url.searchParams.get("login_hint"), "citizen@example.org");
+    assert.equal(url.searchParams.get("prompt"), null);
+
+    const switchIdentityUrl = buildLoginUrl("https://idp.test/auth?scope=openid", provider, { switchIdentity: true });
+    assert.equal(switchIdentityUrl.searchParams.get("prompt"), "login");
+  });
+});
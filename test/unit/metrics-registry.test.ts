@@ -0,0 +1,51 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { MetricsRegistry } from "../../src/metrics/metrics-registry";
+
+describe("metrics registry", () => {
+  test("renders counters per label combination", () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter("http_requests_total", "Number of HTTP requests", ["method", "status"]);
+
+    requests.inc({ method: "GET", status: "200" });
+    requests.inc({ method: "GET", status: "200" });
+    requests.inc({ method: "POST", status: "403" }, 3);
+
+    assert.equal(requests.get({ method: "GET", status: "200" }), 2);
+    assert.equal(requests.get({ method: "GET", status: "404" }), 0);
+    assert.equal(registry.render(), [
+      "# HELP http_requests_total Number of HTTP requests",
+      "# TYPE http_requests_total counter",
+      'http_requests_total{method="GET",status="200"} 2',
+      'http_requests_total{method="POST",status="403"} 3',
+      "",
+    ].join("\n"));
+  });
+
+  test("renders cumulative histogram buckets", () => {
+    const registry = new MetricsRegistry();
+    const duration = registry.histogram("duration_seconds", "Duration", [], [0.1, 1]);
+
+    duration.observe({}, 0.05);
+    duration.observe({}, 0.5);
+    duration.observe({}, 2);
+
+    assert.equal(registry.render(), [
+      "# HELP duration_seconds Duration",
+      "# TYPE duration_seconds histogram",
+      'duration_seconds_bucket{le="0.1"} 1',
+      'duration_seconds_bucket{le="1"} 2',
+      'duration_seconds_bucket{le="+Inf"} 3',
+      "duration_seconds_sum 2.55",
+      "duration_seconds_count 3",
+      "",
+    ].join("\n"));
+  });
+
+  test("escapes label values", () => {
+    const registry = new MetricsRegistry();
+    registry.counter("errors_total", "Errors", ["message"]).inc({ message: 'say "hi"\\\n' });
+
+    assert.match(registry.render(), /^errors_total\{message="say \\"hi\\"\\\\\\n"\} 1$/m);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { Readable } from "stream";
+import { text } from "stream/consumers";
+import { parseMultipart } from "../../src/file/multipart-parser";
+import { Problem } from "../../src/error/problem";
+
+describe("multipart parser", () => {
+  const BOUNDARY = "----weare-boundary";
+  const CONTENT_TYPE = `multipart/form-data; boundary=${BOUNDARY}`;
+
+  function multipartBody(parts: { headers: string[]; content: string }[]): Buffer {
+    return Buffer.from([
+      "preamble",
+      ...parts.map((part) => `--${BOUNDARY}\r\n${part.headers.join("\r\n")}\r\n\r\n${part.content}`),
+      `--${BOUNDARY}--\r\nepilogue`,
+    ].join("\r\n"));
+  }
+
+  /**
+   * Streams the body in chunks of the given size, so delimiters are split over chunks.
+   */
+  function chunked(body: Buffer, size: number): Readable {
+    return Readable.from((function* () {
+      for (let offset = 0; offset < body.length; offset += size)
+        yield body.subarray(offset, offset + size);
+    })());
+  }
+
+  const body = multipartBody([
+    { headers: ['Content-Disposition: form-data; name="description"'], content: "Two files" },
+    { headers: ['Content-Disposition: form-data; name="files"; filename="notes.txt"', "Content-Type: text/plain"], content: "line 1\r\nline 2 --not a boundary" },
+    { headers: ["Content-Disposition: form-data; name=\"files\"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf"], content: "%PDF-1.7" },
+  ]);
+
+  for (const size of [1, 7, body.length]) {
+    test(`streams every file in chunks of ${size} bytes`, async () => {
+      const files: { fieldName: string; fileName: string; contentType: string; content: string }[] = [];
+
+      const count = await parseMultipart(chunked(body, size), CONTENT_TYPE, {
+        maxFiles: 10,
+        onFile: async ({ stream, ...file }) => {
+          files.push({ ...file, content: await text(stream) });
+        },
+      });
+
+      assert.equal(count, 2);
+      assert.deepEqual(files, [
+        { fieldName: "files", fileName: "notes.txt", contentType: "text/plain", content: "line 1\r\nline 2 --not a boundary" },
+        { fieldName: "files", fileName: "résumé.pdf", contentType: "text/plain", content: "%PDF-1.7" },
+      ]);
+    });
+  }
+
+  test("refuses more files than allowed", async () => {
+    await assert.rejects(parseMultipart(chunked(body, 16), CONTENT_TYPE, { maxFiles: 1, onFile: async ({ stream }) => { await text(stream); } }),
+      (error) => error instanceof Problem && error.status === 413);
+  });
+
+  test("refuses a truncated body", async () => {
+    const truncated = body.subarray(0, body.length - 20);
+    await assert.rejects(parseMultipart(chunked(truncated, 16), CONTENT_TYPE, { maxFiles: 10, onFile: async ({ stream }) => { await text(stream).catch(() => ""); } }),
+      (error) => error instanceof Problem && error.status === 400);
+  });
+
+  test("refuses a content type without boundary", async () => {
+    await assert.rejects(parseMultipart(chunked(body, 16), "multipart/form-data", { maxFiles: 10, onFile: async ({ stream }) => { await text(stream); } }),
+      (error) => error instanceof Problem && error.status === 400);
+  });
+
+  test("skips a part with a malformed file name", async () => {
+    const malformedName = multipartBody([
+      { headers: ["Content-Disposition: form-data; name=\"files\"; filename*=UTF-8''%E0%A4%A"], content: "content" },
+    ]);
+    assert.equal(await parseMultipart(chunked(malformedName, 16), CONTENT_TYPE, { maxFiles: 10, onFile: async ({ stream }) => { await text(stream); } }), 0);
+  });
+
+  test("fails the file stream when the body fails", async () => {
+    const dropped = Readable.from((async function* () {
+      yield body.subarray(0, body.length - 40);
+      throw new Error("The client dropped the request");
+    })());
+    const streamErrors: unknown[] = [];
+
+    await assert.rejects(parseMultipart(dropped, CONTENT_TYPE, { maxFiles: 10, onFile: async ({ stream }) => { await text(stream).catch((error) => streamErrors.push(error)); } }),
+      /dropped the request/);
+    assert.equal(streamErrors.length, 1);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { NotificationRelay } from "../../src/event/notification-relay";
+import { EventStream } from "../../src/event/event-stream";
+import { NotificationChannel, NotificationService } from "../../src/service/notification-service";
+import { SessionAccessGrant } from "../../src/vc/session-access-grants";
+
+const WEBHOOK_URL = new URL("https://backend.test/notifications/webhook");
+
+class StubNotificationService {
+  readonly subscribed: { topic: string; sendTo: URL; endAt: Date }[] = [];
+  readonly unsubscribed: string[] = [];
+  pending?: Promise<void>;
+
+  async subscribe(topic: string, accessGrant: string, sendTo: URL, endAt: Date): Promise<NotificationChannel> {
+    await this.pending;
+    this.subscribed.push({ topic, sendTo, endAt });
+    return { id: `https://pods.test/channels/${this.subscribed.length}`, topic };
+  }
+
+  async unsubscribe(channel: NotificationChannel): Promise<void> {
+    this.unsubscribed.push(channel.id);
+  }
+}
+
+class StubEventStream {
+  readonly events: { event: string; data: unknown }[] = [];
+  private readonly listeners: (() => void)[] = [];
+  closed = false;
+
+  send(event: string, data: unknown): void {
+    this.events.push({ event, data });
+  }
+
+  onClose(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  close(): void {
+    this.closed = true;
+    this.listeners.splice(0).forEach((listener) => listener());
+  }
+}
+
+function accessGrant(id: string, resources: string[]): SessionAccessGrant {
+  const expirationDate = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+  return { id, accessGrant: "{}", expirationDate, resources, purposes: [], inherit: true };
+}
+
+function createRelay() {
+  const service = new StubNotificationService();
+  const relay = new NotificationRelay(service as unknown as NotificationService, WEBHOOK_URL);
+  const stream = new StubEventStream();
+  return { service, relay, stream, eventStream: stream as unknown as EventStream };
+}
+
+function webhookId(sendTo: URL): string {
+  return sendTo.searchParams.get("subscription")!;
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("notification relay", () => {
+  test("subscribes to the resources of the access grants of a listening session until they expire", async () => {
+    const { service, relay, eventStream } = createRelay();
+    const grant = accessGrant("grant", ["https://pods.test/owner/a.ttl", "https://pods.test/owner/b/"]);
+
+    relay.addAccessGrant("session", accessGrant("ignored", ["https://pods.test/owner/c.ttl"]));
+    relay.listen("session", eventStream, [grant]);
+    await flush();
+
+    assert.deepEqual(service.subscribed.map(({ topic }) => topic), grant.resources);
+    assert.ok(service.subscribed.every(({ sendTo, endAt }) =>
+      sendTo.href.startsWith(`${WEBHOOK_URL.href}?subscription=`) && endAt.toISOString() === grant.expirationDate));
+    assert.notEqual(webhookId(service.subscribed[0].sendTo), webhookId(service.subscribed[1].sendTo));
+  });
+
+  test("relays the notifications about the subscribed resource", async () => {
+    const { service, relay, stream, eventStream } = createRelay();
+    relay.listen("session", eventStream, [accessGrant("grant", ["https://pods.test/owner/b/"])]);
+    await flush();
+    const id = webhookId(service.subscribed[0].sendTo);
+
+    assert.equal(relay.receive(id, { type: "Add", object: "https://pods.test/owner/b/new.ttl", target: "https://pods.test/owner/b/", published: "2025-01-01T12:00:00Z" }), true);
+    assert.equal(relay.receive(id, { type: "Update", object: "https://pods.test/other/x.ttl" }), true);
+    assert.equal(relay.receive("unknown", { type: "Update", object: "https://pods.test/owner/b/" }), false);
+
+    assert.deepEqual(stream.events, [{
+      event: "resource-changed",
+      data: { resource: "https://pods.test/owner/b/new.ttl", type: "Add", published: "2025-01-01T12:00:00Z", accessGrantId: "grant" },
+    }]);
+  });
+
+  test("unsubscribes when the access grant is removed, also while subscribing", async () => {
+    const { service, relay, eventStream } = createRelay();
+    relay.listen("session", eventStream, [accessGrant("first", ["https://pods.test/owner/a.ttl"])]);
+    await flush();
+    let release!: () => void;
+    service.pending = new Promise((resolve) => release = resolve);
+    relay.addAccessGrant("session", accessGrant("second", ["https://pods.test/owner/b.ttl"]));
+
+    await relay.removeAccessGrant("session", "first");
+    await relay.removeAccessGrant("session", "second");
+    release();
+    await flush();
+
+    assert.deepEqual(service.unsubscribed, ["https://pods.test/channels/1", "https://pods.test/channels/2"]);
+    assert.equal(relay.receive(webhookId(service.subscribed[0].sendTo), { type: "Update", object: "https://pods.test/owner/a.ttl" }), false);
+  });
+
+  test("unsubscribes and closes the streams when the session is removed or nobody listens", async () => {
+    const { service, relay, stream, eventStream } = createRelay();
+    relay.listen("session", eventStream, [accessGrant("grant", ["https://pods.test/owner/a.ttl"])]);
+    await flush();
+
+    await relay.removeSession("session");
+
+    assert.equal(stream.closed, true);
+    assert.deepEqual(service.unsubscribed, ["https://pods.test/channels/1"]);
+
+    const other = createRelay();
+    other.relay.listen("session", other.eventStream, [accessGrant("grant", ["https://pods.test/owner/a.ttl"])]);
+    await flush();
+    other.stream.close();
+    await flush();
+
+    assert.deepEqual(other.service.unsubscribed, ["https://pods.test/channels/1"]);
+  });
+});
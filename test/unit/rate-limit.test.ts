@@ -0,0 +1,50 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { checkRateLimit, parseRateLimitRule, parseRouteRateLimits } from "../../src/middleware/rate-limit";
+import { RateLimitStore } from "../../src/storage/rate-limit-store";
+import { MemoryStorageBackend } from "../../src/storage/memory-storage-backend";
+import { createAppMetrics } from "../../src/metrics/app-metrics";
+import { Problem } from "../../src/error/problem";
+
+describe("rate limit", () => {
+  test("parses rules with their budgets and window", () => {
+    assert.deepEqual(parseRateLimitRule("global", "ip=600  session=300 window=120", 60000),
+      { name: "global", window: 120000, limits: { ip: 600, session: 300 } });
+    assert.deepEqual(parseRouteRateLimits(["post /access-request webId=10", "/login ip=30"], 60000), [
+      { method: "POST", path: "/access-request", rule: { name: "POST /access-request", window: 60000, limits: { webId: 10 } } },
+      { method: undefined, path: "/login", rule: { name: "/login", window: 60000, limits: { ip: 30 } } },
+    ]);
+  });
+
+  test("rejects malformed rules", () => {
+    assert.throws(() => parseRateLimitRule("global", "ip=many", 60000), /Expected a budget/);
+    assert.throws(() => parseRateLimitRule("global", "user=10", 60000), /Unknown rate limit scope \[user\]/);
+    assert.throws(() => parseRateLimitRule("global", "ip=0", 60000), /Expected a budget/);
+    assert.throws(() => parseRouteRateLimits(["login ip=10"], 60000), /Expected an optional method and a path/);
+  });
+
+  test("counts every scope of the identity separately", async () => {
+    const store = new RateLimitStore(new MemoryStorageBackend());
+    const metrics = createAppMetrics();
+    const rule = parseRateLimitRule("global", "ip=3 session=2", 60000);
+
+    await checkRateLimit(store, rule, { ip: "203.0.113.7", session: "a" }, metrics);
+    await checkRateLimit(store, rule, { ip: "203.0.113.7", session: "a" }, metrics);
+    await checkRateLimit(store, rule, { ip: "203.0.113.7", session: "b" }, metrics);
+
+    await assert.rejects(checkRateLimit(store, rule, { ip: "203.0.113.7", session: "c" }, metrics), (error: unknown) =>
+      error instanceof Problem && error.status === 429 && error.extensions.scope === "ip"
+        && typeof error.extensions.retryAfter === "number" && error.extensions.retryAfter <= 60);
+    await assert.rejects(checkRateLimit(store, rule, { ip: "198.51.100.1", session: "a" }, metrics), (error: unknown) =>
+      error instanceof Problem && error.extensions.scope === "session");
+    await checkRateLimit(store, rule, { ip: "198.51.100.1", session: "d" }, metrics);
+    assert.match(metrics.registry.render(), /^weare_rate_limited_requests_total\{rule="global",scope="ip"\} 1$/m);
+  });
+
+  test("counts concurrent requests without losing increments", async () => {
+    const store = new RateLimitStore(new MemoryStorageBackend());
+    const counts = await Promise.all(Array.from({ length: 20 }, () => store.increment("global:ip:203.0.113.7", 60000)));
+
+    assert.deepEqual(counts.map(({ count }) => count).sort((a, b) => a - b), Array.from({ length: 20 }, (_, index) => index + 1));
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { buildThing, createSolidDataset, setThing } from "@inrupt/solid-client";
+import { serializeDataset } from "../../src/rdf/rdf-serializer";
+
+describe("rdf serializer", () => {
+  const FOAF = "http://xmlns.com/foaf/0.1/";
+  const thing = buildThing({ url: "https://pod.example/owner/profile#me" })
+    .addUrl("http://www.w3.org/1999/02/22-rdf-syntax-ns#type", `${FOAF}Person`)
+    .addStringNoLocale(`${FOAF}name`, 'The "Owner"\n')
+    .addStringWithLocale(`${FOAF}nick`, "Eigenaar", "nl")
+    .addInteger(`${FOAF}age`, 42)
+    .addUrl(`${FOAF}knows`, "https://pod.example/friend#me")
+    .build();
+  const dataset = setThing(createSolidDataset(), thing);
+
+  test("serializes N-Triples", async () => {
+    const lines = (await serializeDataset(dataset, "application/n-triples")).trim().split("\n").sort();
+
+    assert.deepEqual(lines, [
+      '<https://pod.example/owner/profile#me> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://xmlns.com/foaf/0.1/Person> .',
+      '<https://pod.example/owner/profile#me> <http://xmlns.com/foaf/0.1/age> "42"^^<http://www.w3.org/2001/XMLSchema#integer> .',
+      '<https://pod.example/owner/profile#me> <http://xmlns.com/foaf/0.1/knows> <https://pod.example/friend#me> .',
+      '<https://pod.example/owner/profile#me> <http://xmlns.com/foaf/0.1/name> "The \\"Owner\\"\\n" .',
+      '<https://pod.example/owner/profile#me> <http://xmlns.com/foaf/0.1/nick> "Eigenaar"@nl .',
+    ]);
+    assert.equal(await serializeDataset(dataset, "application/n-quads"), await serializeDataset(dataset, "application/n-triples"));
+  });
+
+  test("serializes expanded JSON-LD", async () => {
+    const [node] = JSON.parse(await serializeDataset(dataset, "application/ld+json"));
+
+    assert.equal(node["@id"], "https://pod.example/owner/profile#me");
+    assert.deepEqual(node["@type"], [`${FOAF}Person`]);
+    assert.deepEqual(node[`${FOAF}nick`], [{ "@value": "Eigenaar", "@language": "nl" }]);
+    assert.deepEqual(node[`${FOAF}age`], [{ "@value": "42", "@type": "http://www.w3.org/2001/XMLSchema#integer" }]);
+    assert.deepEqual(node[`${FOAF}knows`], [{ "@id": "https://pod.example/friend#me" }]);
+  });
+
+  test("serializes a simplified JSON view of the Things", async () => {
+    const { things } = JSON.parse(await serializeDataset(dataset, "application/json"));
+
+    assert.equal(things.length, 1);
+    assert.equal(things[0].url, "https://pod.example/owner/profile#me");
+    assert.deepEqual(things[0].properties[`${FOAF}age`], [42]);
+    assert.deepEqual(things[0].properties[`${FOAF}name`], ['The "Owner"\n']);
+  });
+
+  test("serializes Turtle", async () => {
+    assert.match(await serializeDataset(dataset, "text/turtle"), /"Eigenaar"@nl/);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { allowedRedirectOrDefault, isAllowedRedirect, parseRedirectAllowlist } from "../../src/validate/redirect-validate";
+
+describe("redirect validation", () => {
+  const frontendUrl = new URL("http://frontend.test");
+  const allowlist = parseRedirectAllowlist("http://frontend.test, https://apps.test/weare/", frontendUrl);
+
+  test("defaults the allowlist to the frontend", () => {
+    assert.deepEqual(parseRedirectAllowlist(undefined, frontendUrl).map((entry) => entry.href), ["http://frontend.test/"]);
+    assert.throws(() => parseRedirectAllowlist("not a url", frontendUrl), /Not a valid URL/);
+  });
+
+  test("allows URLs on an allowed origin and path", () => {
+    assert.equal(isAllowedRedirect("http://frontend.test/profile?tab=1", allowlist), true);
+    assert.equal(isAllowedRedirect("https://apps.test/weare/", allowlist), true);
+    assert.equal(isAllowedRedirect("https://apps.test/weare/dashboard", allowlist), true);
+  });
+
+  test("rejects URLs on another origin or path", () => {
+    assert.equal(isAllowedRedirect("https://frontend.test/profile", allowlist), false);
+    assert.equal(isAllowedRedirect("http://frontend.test.evil.example/", allowlist), false);
+    assert.equal(isAllowedRedirect("https://apps.test/weareevil", allowlist), false);
+    assert.equal(isAllowedRedirect("not a url", allowlist), false);
+  });
+
+  test("falls back to the default for URLs that are not allowed", () => {
+    assert.equal(allowedRedirectOrDefault("https://evil.example/", allowlist, frontendUrl).href, "http://frontend.test/");
+    assert.equal(allowedRedirectOrDefault(undefined, allowlist, frontendUrl).href, "http://frontend.test/");
+    assert.notEqual(allowedRedirectOrDefault(undefined, allowlist, frontendUrl), frontendUrl);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { coversResource, SessionAccessGrant } from "../../src/vc/session-access-grants";
+
+describe("session access grants", () => {
+  const CONTAINER = "https://pod.example/owner/shared/";
+
+  function accessGrant(inherit: boolean): SessionAccessGrant {
+    return { id: "https://vc.example/1", accessGrant: "{}", expirationDate: new Date(Date.now() + 60_000).toISOString(), resources: [CONTAINER], purposes: [], inherit };
+  }
+
+  test("covers the granted container and, when inherited, the resources it contains", () => {
+    assert.equal(coversResource(accessGrant(true), CONTAINER), true);
+    assert.equal(coversResource(accessGrant(true), `${CONTAINER}photos/photo.png`), true);
+    assert.equal(coversResource(accessGrant(false), `${CONTAINER}photos/photo.png`), false);
+    assert.equal(coversResource(accessGrant(true), "https://pod.example/owner/other/secret"), false);
+  });
+
+  test("compares normalized URLs", () => {
+    assert.equal(coversResource(accessGrant(true), "HTTPS://POD.EXAMPLE:443/owner/shared/note.txt"), true);
+  });
+
+  test("doesn't cover URLs with dot segments or encoded slashes", () => {
+    for (const resourceUrl of [
+      `${CONTAINER}../other/secret`,
+      `${CONTAINER}%2e%2e/other/secret`,
+      `${CONTAINER}./note.txt`,
+      `${CONTAINER}..%2fother%2fsecret`,
+      `${CONTAINER}..\\other\\secret`,
+    ])
+      assert.equal(coversResource(accessGrant(true), resourceUrl), false, resourceUrl);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import { AddressInfo } from "net";
+import express from "express";
+import { Cookie, SessionData } from "express-session";
+import { getSessionExpiry, SessionExpiryTracker, streamSessionExpiry } from "../../src/event/session-expiry";
+import { EventStream } from "../../src/event/event-stream";
+
+const MINUTE = 60 * 1000;
+
+describe("session expiry", () => {
+  test("expires a session at its lifetime, idle timeout or token expiry, whichever comes first", () => {
+    const now = Date.now();
+    const session: Partial<SessionData> = {
+      webId: "https://pods.test/citizen/profile/card#me",
+      startedAt: now - 50 * MINUTE,
+      cookie: Object.assign(new Cookie(), { expires: new Date(now + 30 * MINUTE) }),
+      accessGrants: {
+        grant: { id: "grant", accessGrant: "{}", expirationDate: new Date(now + 5 * MINUTE).toISOString(), resources: [], purposes: [], inherit: false },
+      },
+    };
+
+    assert.deepEqual(getSessionExpiry(session, 60 * MINUTE), { expiresAt: now + 10 * MINUTE, accessGrants: [{ id: "grant", expiresAt: now + 5 * MINUTE }] });
+    assert.equal(getSessionExpiry({ ...session, tokenExpiresAt: now + MINUTE }, 60 * MINUTE)!.expiresAt, now + MINUTE);
+    assert.equal(getSessionExpiry({ ...session, webId: undefined }, 60 * MINUTE), undefined);
+    assert.equal(getSessionExpiry(null, 60 * MINUTE), undefined);
+  });
+
+  test("warns once before the session and access grants expire", () => {
+    const now = Date.now();
+    const tracker = new SessionExpiryTracker(5 * MINUTE);
+    const expiry = { expiresAt: now + 4 * MINUTE, accessGrants: [{ id: "soon", expiresAt: now + 2 * MINUTE }, { id: "later", expiresAt: now + 60 * MINUTE }] };
+
+    assert.deepEqual(tracker.check(expiry, now), [
+      { type: "session-expiring", expirationDate: new Date(now + 4 * MINUTE).toISOString() },
+      { type: "access-grant-expiring", id: "soon", expirationDate: new Date(now + 2 * MINUTE).toISOString() },
+    ]);
+    assert.deepEqual(tracker.check(expiry, now + MINUTE), []);
+  });
+
+  test("warns again when the session was kept alive", () => {
+    const now = Date.now();
+    const tracker = new SessionExpiryTracker(5 * MINUTE);
+    tracker.check({ expiresAt: now + 4 * MINUTE, accessGrants: [] }, now);
+
+    assert.deepEqual(tracker.check({ expiresAt: now + 30 * MINUTE, accessGrants: [] }, now + MINUTE), []);
+    assert.deepEqual(tracker.check({ expiresAt: now + 30 * MINUTE, accessGrants: [] }, now + 26 * MINUTE),
+      [{ type: "session-expiring", expirationDate: new Date(now + 30 * MINUTE).toISOString() }]);
+  });
+
+  test("reports expired access grants, also when they were removed from the session", () => {
+    const now = Date.now();
+    const tracker = new SessionExpiryTracker(MINUTE);
+    tracker.check({ expiresAt: now + 60 * MINUTE, accessGrants: [{ id: "first", expiresAt: now + 2 * MINUTE }, { id: "second", expiresAt: now + 2 * MINUTE }] }, now);
+
+    const events = tracker.check({ expiresAt: now + 60 * MINUTE, accessGrants: [{ id: "second", expiresAt: now + 2 * MINUTE }] }, now + 3 * MINUTE);
+
+    assert.deepEqual(events.map(({ type, id }) => `${type} ${id}`).sort(), ["access-grant-expired first", "access-grant-expired second"]);
+  });
+
+  test("reports an expired or logged out session", () => {
+    const now = Date.now();
+
+    assert.deepEqual(new SessionExpiryTracker(MINUTE).check({ expiresAt: now - MINUTE, accessGrants: [] }, now),
+      [{ type: "session-expired", expirationDate: new Date(now - MINUTE).toISOString() }]);
+    assert.deepEqual(new SessionExpiryTracker(MINUTE).check(undefined, now),
+      [{ type: "session-expired", expirationDate: new Date(now).toISOString() }]);
+  });
+
+  test("streams the events until the session expired", async () => {
+    const tokenExpiresAt = Date.now() + 200;
+    const app = express();
+    app.get("/events", (req, res) => streamSessionExpiry(new EventStream(res), async () => ({ webId: "https://pods.test/citizen", tokenExpiresAt }),
+      { maxAge: 60 * MINUTE, warning: MINUTE, interval: 50 }));
+    const server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/events`);
+
+      assert.equal(response.headers.get("Content-Type"), "text/event-stream; charset=utf-8");
+      const expirationDate = new Date(tokenExpiresAt).toISOString();
+      assert.equal(await response.text(), "retry: 5000\n\n"
+        + `event: session-expiring\ndata: {"expirationDate":"${expirationDate}"}\n\n`
+        + `event: session-expired\ndata: {"expirationDate":"${expirationDate}"}\n\n`);
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});